@@ -7,6 +7,9 @@
  * Usage:
  *   bun run setup [api-key]     # Quick setup with API key
  *   bun run setup               # Interactive setup
+ *   bun run setup encryption generate|rotate|status
+ *   bun run setup encryption export [file]
+ *   bun run setup encryption import <file>
  */
 
 import {
@@ -21,6 +24,15 @@ import { dirname, join } from "path";
 import { fileURLToPath } from "url";
 import * as readline from "readline";
 import { isClaudeMemInstalled, getClaudeMemVersion } from "./check-dependency";
+import {
+  KEY_FILE_PATH,
+  generateKeyFile,
+  mergeKeyFiles,
+  parseKeyFile,
+  readKeyFile,
+  rotateKeyFile,
+  writeKeyFile,
+} from "../src/privacy/field-encryption";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PLUGIN_ROOT = join(__dirname, "..");
@@ -74,11 +86,11 @@ function migrateConfigIfNeeded(): void {
 
 /**
  * Clean up legacy sync daemon infrastructure from v1.x.
- * Removes: PID file, log file, watermark, queue, and SessionStart hook.
+ * Removes: PID file, log file, queue, and SessionStart hook. The v1
+ * watermark is left for SyncPoller to migrate (see src/sync/watermark.ts).
  */
 function cleanupLegacySync(): void {
   const legacyFiles = [
-    join(homedir(), ".memforge", ".sync-watermark.json"),
     join(homedir(), ".memforge", ".sync-queue.json"),
     join(homedir(), ".claude-mem", "memforge-sync.pid"),
     join(homedir(), ".claude-mem", "memforge-sync.log"),
@@ -395,13 +407,124 @@ async function interactiveSetup(): Promise<void> {
   console.log("");
 }
 
+/**
+ * Turn `syncEncryption` on in an existing config.json.
+ */
+function enableEncryption(): void {
+  if (!existsSync(CONFIG_PATH)) {
+    console.log(
+      `Add "syncEncryption": true to ${CONFIG_PATH} once you have run setup.`,
+    );
+    return;
+  }
+  const config = JSON.parse(readFileSync(CONFIG_PATH, "utf-8"));
+  if (config.syncEncryption === true) return;
+  config.syncEncryption = true;
+  writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2));
+  console.log(`✓ syncEncryption enabled in ${CONFIG_PATH}`);
+}
+
+/**
+ * Manage the client-side encryption key file (~/.memforge/encryption-keys.json).
+ */
+function encryptionCommand(args: string[]): void {
+  const [command, file] = args;
+  const current = readKeyFile();
+
+  switch (command) {
+    case "generate": {
+      if (current) {
+        console.error(
+          `❌ ${KEY_FILE_PATH} already exists — use "rotate" for a new key`,
+        );
+        process.exit(1);
+      }
+      const keys = generateKeyFile();
+      writeKeyFile(keys);
+      console.log(
+        `✓ Encryption key ${keys.active} written to ${KEY_FILE_PATH}`,
+      );
+      enableEncryption();
+      console.log("");
+      console.log(
+        "Back it up — without it, encrypted observations cannot be read:",
+      );
+      console.log("  bun run setup encryption export ~/memforge-keys.json");
+      break;
+    }
+    case "rotate": {
+      if (!current) {
+        console.error(`❌ No key file yet — run "generate" first`);
+        process.exit(1);
+      }
+      const keys = rotateKeyFile(current);
+      writeKeyFile(keys);
+      console.log(
+        `✓ New active key ${keys.active}; ${Object.keys(keys.keys).length - 1} older key(s) kept for decryption`,
+      );
+      console.log("Export and import it on your other machines.");
+      break;
+    }
+    case "export": {
+      if (!current) {
+        console.error(`❌ No key file to export`);
+        process.exit(1);
+      }
+      const json = JSON.stringify(current, null, 2) + "\n";
+      if (file) {
+        writeFileSync(file, json, { mode: 0o600 });
+        console.log(`✓ Keys exported to ${file} — keep it somewhere safe`);
+      } else {
+        process.stdout.write(json);
+      }
+      break;
+    }
+    case "import": {
+      if (!file) {
+        console.error("❌ Usage: bun run setup encryption import <file>");
+        process.exit(1);
+      }
+      const keys = mergeKeyFiles(
+        current,
+        parseKeyFile(readFileSync(file, "utf-8")),
+      );
+      writeKeyFile(keys);
+      console.log(
+        `✓ Imported; active key ${keys.active}, ${Object.keys(keys.keys).length} key(s) in ${KEY_FILE_PATH}`,
+      );
+      enableEncryption();
+      break;
+    }
+    case "status": {
+      if (!current) {
+        console.log(
+          "No encryption key (run: bun run setup encryption generate)",
+        );
+        break;
+      }
+      console.log(`Active key: ${current.active}`);
+      console.log(`Keys: ${Object.keys(current.keys).join(", ")}`);
+      break;
+    }
+    default:
+      console.error(
+        "Usage: bun run setup encryption generate|rotate|status\n" +
+          "       bun run setup encryption export [file]\n" +
+          "       bun run setup encryption import <file>",
+      );
+      process.exit(1);
+  }
+}
+
 /**
  * Main entry point.
  */
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
-  if (args.length > 0 && args[0] && !args[0].startsWith("-")) {
+  if (args[0] === "encryption") {
+    encryptionCommand(args.slice(1));
+  } else if (args.length > 0 && args[0] && !args[0].startsWith("-")) {
     // Quick setup with API key from argument
     await quickSetup(args[0]);
   } else {
@@ -0,0 +1,194 @@
+#!/usr/bin/env bun
+/**
+ * Sync maintenance CLI.
+ *
+ * Usage:
+ *   bun run sync -- backfill [filters] [--yes]   dry run, or push with --yes
+ *   bun run sync -- status                       last/current backfill
+ *   bun run sync -- cancel                       stop a running backfill
+ *   bun run sync -- import-outbox                send export-mode outbox files
+ *
+ * Filters: --from-id N  --to-id N  --since YYYY-MM-DD  --until YYYY-MM-DD
+ *          --project NAME  --kind session|prompt|observation|summary|all
+ *
+ * Progress is shared with mem_status and mem_sync_backfill via
+ * ~/.memforge/sync-backfill.json. Ctrl-C cancels after the current batch.
+ */
+
+import {
+  describeFilter,
+  describePlan,
+  getSyncBackfill,
+  planTotal,
+  type BackfillFilter,
+} from "../src/sync/backfill";
+import { remoteSync } from "../src/sync/remote-sync";
+import { outbox } from "../src/sync/outbox";
+import { formatBackfillProgress } from "../src/mcp/handlers/sync-handlers";
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const BACKFILL_KINDS = ["session", "prompt", "observation", "summary", "all"];
+
+function usage(message?: string): never {
+  if (message) console.error(`Error: ${message}\n`);
+  console.error(
+    "Usage: bun run sync -- backfill [--from-id N] [--to-id N] [--since YYYY-MM-DD]\n" +
+      "                              [--until YYYY-MM-DD] [--project NAME]\n" +
+      "                              [--kind session|prompt|observation|summary|all]\n" +
+      "                              [--yes]\n" +
+      "       bun run sync -- status\n" +
+      "       bun run sync -- cancel\n" +
+      "       bun run sync -- import-outbox",
+  );
+  process.exit(1);
+}
+
+/** Parse backfill flags; --yes is returned separately */
+function parseFilter(args: string[]): { filter: BackfillFilter; yes: boolean } {
+  const filter: BackfillFilter = { kind: "all" };
+  let yes = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (flag === "--yes" || flag === "-y") {
+      yes = true;
+      continue;
+    }
+    const value = args[++i];
+    if (value === undefined) usage(`${flag} needs a value`);
+
+    switch (flag) {
+      case "--from-id":
+      case "--to-id": {
+        const id = Number(value);
+        if (!Number.isInteger(id) || id < 1) usage(`${flag} must be an ID`);
+        if (flag === "--from-id") filter.fromId = id;
+        else filter.toId = id;
+        break;
+      }
+      case "--since":
+      case "--until":
+        if (!DATE_RE.test(value)) usage(`${flag} must be YYYY-MM-DD`);
+        if (flag === "--since") filter.since = value;
+        else filter.until = value;
+        break;
+      case "--project":
+        filter.project = value;
+        break;
+      case "--kind":
+        if (!BACKFILL_KINDS.includes(value)) {
+          usage(`--kind must be one of ${BACKFILL_KINDS.join(", ")}`);
+        }
+        filter.kind = value as BackfillFilter["kind"];
+        break;
+      default:
+        usage(`unknown option ${flag}`);
+    }
+  }
+  return { filter, yes };
+}
+
+async function backfill(args: string[]): Promise<void> {
+  const { filter, yes } = parseFilter(args);
+  const runner = getSyncBackfill();
+  const plan = runner.plan(filter);
+  console.log(`Backfill plan (dry run): ${describeFilter(filter)}`);
+  console.log(`  would push: ${describePlan(plan)}`);
+  if (plan.excluded > 0) {
+    console.log(`  excluded by syncProjects rules: ${plan.excluded}`);
+  }
+  if (plan.orphans > 0) {
+    console.log(`  skipped, no session in claude-mem.db: ${plan.orphans}`);
+  }
+
+  if (planTotal(plan) === 0) return;
+  if (!yes) {
+    console.log("\nDry run only — add --yes to push.");
+    return;
+  }
+  if (!remoteSync.isConfigured()) {
+    console.error("Sync is not configured — set syncEnabled in config.json.");
+    process.exit(1);
+  }
+
+  process.on("SIGINT", () => {
+    if (runner.cancel()) console.log("\nCancelling after the current batch...");
+  });
+
+  console.log(`\nBackfilling ${describeFilter(filter)}...`);
+  const result = await runner.run(filter, (progress) => {
+    console.log(`  ${formatBackfillProgress(progress)}`);
+  });
+  console.log(formatBackfillProgress(result));
+  if (result.state === "failed") process.exit(1);
+}
+
+async function importOutbox(): Promise<void> {
+  const summary = outbox.summary();
+  if (summary.entries === 0) {
+    console.log(`Outbox is empty (${outbox.getDir()}).`);
+    return;
+  }
+  if (remoteSync.isExportMode()) {
+    console.error(
+      'syncMode is still "export" — set it to "push" and restart Claude Code first, so nothing is written to the outbox while it is sent.',
+    );
+    process.exit(1);
+  }
+  if (!remoteSync.isConfigured()) {
+    console.error("Sync is not configured — set syncEnabled in config.json.");
+    process.exit(1);
+  }
+
+  console.log(
+    `Sending ${summary.entries} request(s) from ${summary.files} file(s) in ${outbox.getDir()}...`,
+  );
+  const result = await outbox.replay(
+    (entry) => remoteSync.sendOutboxEntry(entry),
+    (progress) => console.log(`  ${progress.files} file(s) sent`),
+  );
+  if (result.error !== undefined) {
+    console.error(
+      `Stopped after ${result.sent} request(s): ${result.error}\nRun import-outbox again to resume.`,
+    );
+    process.exit(1);
+  }
+  console.log(`Sent ${result.sent} request(s); files moved to outbox/sent/.`);
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  const runner = getSyncBackfill();
+
+  switch (command) {
+    case "backfill":
+      await backfill(args);
+      break;
+    case "status": {
+      const progress = runner.getProgress();
+      console.log(
+        progress
+          ? formatBackfillProgress(progress)
+          : "No backfill has run yet.",
+      );
+      break;
+    }
+    case "cancel":
+      console.log(
+        runner.cancel()
+          ? "Cancel requested — the backfill stops after its current batch."
+          : "No backfill is running.",
+      );
+      break;
+    case "import-outbox":
+      await importOutbox();
+      break;
+    default:
+      usage(command ? `unknown command ${command}` : undefined);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
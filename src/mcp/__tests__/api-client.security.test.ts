@@ -138,10 +138,15 @@ describe("isRetryableError", () => {
     expect(isRetryableError(new Error("fetch failed"))).toBe(true);
   });
 
-  test("retries on certificate errors", () => {
+  test("does NOT retry certificate errors", () => {
     expect(
       isRetryableError(new Error("unknown certificate verification error")),
-    ).toBe(true);
+    ).toBe(false);
+    const untrusted = Object.assign(
+      new TypeError("unable to verify the first certificate"),
+      { code: "UNABLE_TO_VERIFY_LEAF_SIGNATURE" },
+    );
+    expect(isRetryableError(untrusted)).toBe(false);
   });
 
   test("retries on TLS/SSL errors", () => {
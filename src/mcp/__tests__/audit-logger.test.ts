@@ -3,7 +3,11 @@
  */
 
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { auditLog } from "../audit-logger";
+import {
+  auditLog,
+  collectIdempotencyKeys,
+  recordIdempotencyKey,
+} from "../audit-logger";
 
 describe("auditLog", () => {
   let stderrOutput: string[];
@@ -65,4 +69,25 @@ describe("auditLog", () => {
     const entry = JSON.parse(stderrOutput[0].replace("[audit] ", ""));
     expect(entry.ts).toMatch(/^\d{4}-\d{2}-\d{2}T/);
   });
+
+  test("records idempotency keys of the call's writes", async () => {
+    const keys: string[] = [];
+    await collectIdempotencyKeys(keys, async () => {
+      recordIdempotencyKey("key-1");
+      await Promise.resolve();
+      recordIdempotencyKey("key-2");
+    });
+    recordIdempotencyKey("outside-a-call");
+    auditLog("mem_handoff", {}, 3, true, undefined, keys);
+
+    const entry = JSON.parse(stderrOutput[0].replace("[audit] ", ""));
+    expect(entry.idempotency_keys).toEqual(["key-1", "key-2"]);
+  });
+
+  test("omits idempotency keys for calls without writes", () => {
+    auditLog("mem_search", {}, 3, true);
+
+    const entry = JSON.parse(stderrOutput[0].replace("[audit] ", ""));
+    expect(entry.idempotency_keys).toBeUndefined();
+  });
 });
@@ -33,6 +33,12 @@ function createObservationsDb(path: string): Database {
       created_at_epoch INTEGER NOT NULL
     )
   `);
+  db.run(
+    "CREATE TABLE sdk_sessions (id INTEGER PRIMARY KEY, content_session_id TEXT, memory_session_id TEXT, project TEXT)",
+  );
+  db.run(
+    "CREATE TABLE session_summaries (id INTEGER PRIMARY KEY, memory_session_id TEXT, project TEXT)",
+  );
   return db;
 }
 
@@ -199,6 +205,60 @@ describe("computePipelineHealth", () => {
     expect(gapB?.message).toContain("70");
   });
 
+  test("Gap B — cursor ahead of claude-mem.db (database reset)", async () => {
+    const db = createObservationsDb(dbPath);
+    for (let i = 1; i <= 5; i++) insertObs(db, i, 60);
+    db.close();
+
+    writeFileSync(watermarkPath, JSON.stringify({ lastObservationId: 900 }));
+
+    const health = await computePipelineHealth({
+      transcriptsDir,
+      dbPath,
+      watermarkPath,
+      windowHours: 24,
+      syncStats: {
+        syncedCount: 0,
+        failedCount: 0,
+        pendingCount: 0,
+        circuitState: "closed",
+      },
+    });
+
+    const gapB = health.gaps.find((g) => g.layer === "B");
+    expect(gapB?.severity).toBe("warning");
+    expect(gapB?.message).toContain("ahead of claude-mem.db");
+  });
+
+  test("Gap B — recent reset reported by the poller", async () => {
+    const db = createObservationsDb(dbPath);
+    insertObs(db, 1, 60);
+    db.close();
+
+    writeFileSync(watermarkPath, JSON.stringify({ lastObservationId: 1 }));
+
+    const health = await computePipelineHealth({
+      transcriptsDir,
+      dbPath,
+      watermarkPath,
+      windowHours: 24,
+      syncStats: {
+        syncedCount: 1,
+        failedCount: 0,
+        pendingCount: 0,
+        circuitState: "closed",
+        lastDbReset: {
+          at: new Date().toISOString(),
+          reason: "claude-mem.db file was replaced or recreated",
+        },
+      },
+    });
+
+    const gapB = health.gaps.find((g) => g.layer === "B");
+    expect(gapB?.message).toContain("reset detected");
+    expect(gapB?.hint).toContain("re-baselined");
+  });
+
   test("Gap C — failed uploads", async () => {
     const db = createObservationsDb(dbPath);
     insertObs(db, 1, 60);
@@ -292,6 +352,37 @@ describe("computePipelineHealth", () => {
     expect(gap?.hint).not.toContain("Install claude-mem");
   });
 
+  test("Gap B — claude-mem schema sync cannot read", async () => {
+    const db = createObservationsDb(dbPath);
+    db.run("DROP TABLE session_summaries");
+    db.run("CREATE TABLE session_summaries (id INTEGER PRIMARY KEY)");
+    db.close();
+
+    const health = await computePipelineHealth({
+      transcriptsDir,
+      dbPath,
+      watermarkPath,
+      windowHours: 24,
+      syncStats: {
+        syncedCount: 0,
+        failedCount: 0,
+        pendingCount: 0,
+        circuitState: "closed",
+      },
+    });
+
+    expect(health.captured.schema?.problems).toHaveLength(1);
+    const gap = health.gaps.find((g) => g.layer === "B");
+    expect(gap?.severity).toBe("critical");
+    expect(gap?.message).toContain("schema not supported");
+    expect(gap?.message).toContain(
+      "session_summaries has no memory_session_id",
+    );
+    expect(renderPipelineHealth(health).join("\n")).toContain(
+      "**Schema:** NOT supported",
+    );
+  });
+
   test("graceful — corrupt watermark file", async () => {
     const db = createObservationsDb(dbPath);
     insertObs(db, 1, 60);
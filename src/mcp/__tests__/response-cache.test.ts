@@ -0,0 +1,176 @@
+/**
+ * Tests for ResponseCache — keys, TTLs, LRU eviction, invalidation (also
+ * across processes) and hit-rate stats.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ResponseCache, cacheKey } from "../response-cache";
+
+function counter(value: unknown = { results: [{ id: 1 }, { id: 2 }] }) {
+  const load = async () => {
+    load.calls++;
+    return value;
+  };
+  load.calls = 0;
+  return load;
+}
+
+describe("cacheKey", () => {
+  test("ignores param order, empty values and ID order", () => {
+    expect(
+      cacheKey("/hybrid", { q: "auth", limit: 10, offset: undefined }),
+    ).toBe(
+      cacheKey("/hybrid", { limit: 10, q: "auth", tz: null, project: "" }),
+    );
+    expect(cacheKey("/api/observations/batch", { ids: [3, 1, 3] })).toBe(
+      cacheKey("/api/observations/batch", { ids: [1, 3] }),
+    );
+    expect(cacheKey("/hybrid", { q: "auth" })).not.toBe(
+      cacheKey("/vector", { q: "auth" }),
+    );
+  });
+});
+
+describe("ResponseCache", () => {
+  test("serves a repeated read from the cache", async () => {
+    const cache = new ResponseCache();
+    const load = counter();
+    await cache.getOrLoad("/hybrid", { q: "auth" }, load);
+    const second = await cache.getOrLoad("/hybrid", { q: "auth" }, load);
+
+    expect(load.calls).toBe(1);
+    expect(second).toEqual({ results: [{ id: 1 }, { id: 2 }] });
+    expect(cache.getStats().endpoints["/hybrid"]).toEqual({
+      hits: 1,
+      misses: 1,
+    });
+  });
+
+  test("expires entries after the endpoint's TTL", async () => {
+    let now = 0;
+    const cache = new ResponseCache({ now: () => now });
+    const load = counter();
+    await cache.getOrLoad("/hybrid", { q: "auth" }, load);
+    now = 2 * 60_000 + 1;
+    await cache.getOrLoad("/hybrid", { q: "auth" }, load);
+    expect(load.calls).toBe(2);
+
+    // Batch fetches by ID live longer
+    now = 0;
+    const batch = counter({ observations: [{ id: 7 }] });
+    await cache.getOrLoad("/api/observations/batch", { ids: [7] }, batch);
+    now = 2 * 60_000 + 1;
+    await cache.getOrLoad("/api/observations/batch", { ids: [7] }, batch);
+    expect(batch.calls).toBe(1);
+  });
+
+  test("does not cache other endpoints or failures", async () => {
+    const cache = new ResponseCache();
+    const load = counter();
+    await cache.getOrLoad("/recent", { limit: 20 }, load);
+    await cache.getOrLoad("/recent", { limit: 20 }, load);
+    expect(load.calls).toBe(2);
+
+    const failing = async () => {
+      throw new Error("Remote API error (503)");
+    };
+    await expect(
+      cache.getOrLoad("/hybrid", { q: "x" }, failing),
+    ).rejects.toThrow("503");
+    expect(cache.getStats().entries).toBe(0);
+  });
+
+  test("evicts the least recently used entry", async () => {
+    const cache = new ResponseCache({ maxEntries: 2 });
+    const load = counter();
+    await cache.getOrLoad("/hybrid", { q: "a" }, load);
+    await cache.getOrLoad("/hybrid", { q: "b" }, load);
+    await cache.getOrLoad("/hybrid", { q: "a" }, load);
+    await cache.getOrLoad("/hybrid", { q: "c" }, load);
+    expect(load.calls).toBe(3);
+
+    await cache.getOrLoad("/hybrid", { q: "a" }, load);
+    expect(load.calls).toBe(3);
+    await cache.getOrLoad("/hybrid", { q: "b" }, load);
+    expect(load.calls).toBe(4);
+  });
+
+  test("drops entries that reference a changed observation", async () => {
+    const cache = new ResponseCache();
+    const search = counter({ results: [{ id: 1 }, { id: 2 }] });
+    const timeline = counter({ anchor: { id: 9 }, before: [{ id: 8 }] });
+    await cache.getOrLoad("/hybrid", { q: "auth" }, search);
+    await cache.getOrLoad("/api/timeline", { anchor: 9 }, timeline);
+
+    cache.invalidateObservations([2]);
+    await cache.getOrLoad("/hybrid", { q: "auth" }, search);
+    await cache.getOrLoad("/api/timeline", { anchor: 9 }, timeline);
+
+    expect(search.calls).toBe(2);
+    expect(timeline.calls).toBe(1);
+    expect(cache.getStats().invalidated).toBe(1);
+  });
+
+  test("does not cache a response loaded across an invalidation", async () => {
+    const cache = new ResponseCache();
+    let answer: (value: unknown) => void = () => {};
+    const stale = cache.getOrLoad(
+      "/api/observations/batch",
+      { ids: [5] },
+      () => new Promise((resolve) => (answer = resolve)),
+    );
+    cache.invalidateObservations([5]);
+    answer({ observations: [{ id: 5, status: "active" }] });
+    await stale;
+
+    const fresh = counter({ observations: [{ id: 5, status: "archived" }] });
+    expect(
+      await cache.getOrLoad("/api/observations/batch", { ids: [5] }, fresh),
+    ).toEqual({ observations: [{ id: 5, status: "archived" }] });
+    expect(fresh.calls).toBe(1);
+  });
+
+  test("drops searches and timelines but keeps ID fetches on a list change", async () => {
+    const cache = new ResponseCache();
+    const search = counter();
+    const batch = counter({ observations: [{ id: 1 }] });
+    await cache.getOrLoad("/search", { q: "auth" }, search);
+    await cache.getOrLoad("/api/observations/batch", { ids: [1] }, batch);
+
+    cache.invalidateLists();
+    await cache.getOrLoad("/search", { q: "auth" }, search);
+    await cache.getOrLoad("/api/observations/batch", { ids: [1] }, batch);
+
+    expect(search.calls).toBe(2);
+    expect(batch.calls).toBe(1);
+  });
+
+  test("drops entries when another process invalidates through the stamp", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "memforge-cache-"));
+    const stamp = join(dir, "response-cache.stamp");
+    try {
+      const follower = new ResponseCache();
+      const leader = new ResponseCache();
+      follower.shareInvalidations(stamp);
+      leader.shareInvalidations(stamp);
+      const search = counter();
+      await follower.getOrLoad("/hybrid", { q: "auth" }, search);
+
+      // Its own invalidation does not make the leader drop entries again
+      const batch = counter({ observations: [{ id: 5 }] });
+      await leader.getOrLoad("/api/observations/batch", { ids: [5] }, batch);
+      leader.invalidateLists();
+      await leader.getOrLoad("/api/observations/batch", { ids: [5] }, batch);
+      expect(batch.calls).toBe(1);
+
+      await follower.getOrLoad("/hybrid", { q: "auth" }, search);
+      await follower.getOrLoad("/hybrid", { q: "auth" }, search);
+      expect(search.calls).toBe(2);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for response schemas and the schema-drift fallback.
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  checkResponse,
+  getSchemaDrift,
+  RecentObservationsSchema,
+  SearchResponseSchema,
+  TimelineResponseSchema,
+} from "../response-schemas";
+
+describe("response schemas", () => {
+  test("accept null for optional fields and keep unknown ones", () => {
+    const checked = checkResponse("GET /test/loose", SearchResponseSchema, {
+      query: "auth",
+      method: null,
+      results: [{ id: 1, title: "Auth fix", subtitle: null, rank: 3 }],
+    });
+
+    expect(checked.ok).toBe(true);
+    if (!checked.ok) return;
+    expect(checked.data.method).toBeUndefined();
+    expect(checked.data.results?.[0].subtitle).toBeUndefined();
+    expect(checked.data.results?.[0]).toMatchObject({ rank: 3 });
+  });
+
+  test("read recent observations from either envelope", () => {
+    const list = [{ id: 5, title: "Deploy" }];
+    expect(RecentObservationsSchema.parse({ data: list })).toEqual(list);
+    expect(RecentObservationsSchema.parse({ observations: list })).toEqual(
+      list,
+    );
+    expect(RecentObservationsSchema.safeParse({ items: list }).success).toBe(
+      false,
+    );
+  });
+});
+
+describe("checkResponse drift", () => {
+  test("falls back to raw JSON with a warning", () => {
+    const raw = { anchor: { id: "42" }, before: [] };
+    const checked = checkResponse(
+      "GET /test/timeline",
+      TimelineResponseSchema,
+      raw,
+    );
+
+    expect(checked.ok).toBe(false);
+    if (checked.ok) return;
+    const text = checked.fallback.content[0].text;
+    expect(checked.fallback.isError).toBeUndefined();
+    expect(text).toContain("**Warning:**");
+    expect(text).toContain("`GET /test/timeline`");
+    expect(text).toContain("anchor.id");
+    expect(text).toContain('"id": "42"');
+  });
+
+  test("counts drift per endpoint", () => {
+    checkResponse("GET /test/counted", SearchResponseSchema, { results: [] });
+    checkResponse("GET /test/counted", SearchResponseSchema, null);
+    checkResponse("GET /test/counted", SearchResponseSchema, { query: "ok" });
+
+    const drift = getSchemaDrift()["GET /test/counted"];
+    expect(drift.count).toBe(2);
+    expect(drift.lastIssue).toContain("(root)");
+    expect(getSchemaDrift()["GET /test/loose"]).toBeUndefined();
+  });
+});
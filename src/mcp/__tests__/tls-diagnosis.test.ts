@@ -0,0 +1,120 @@
+/**
+ * Tests for the TLS diagnosis shown by mem_status.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { createServer } from "net";
+import { loadNetworkSettings } from "../network";
+import {
+  adviceFor,
+  diagnoseTls,
+  renderTlsDiagnosis,
+  type TlsDiagnosis,
+} from "../tls-diagnosis";
+
+const NO_NETWORK = loadNetworkSettings({}, {});
+
+function result(
+  overrides: Partial<TlsDiagnosis> = {},
+): Omit<TlsDiagnosis, "advice"> {
+  return {
+    via: "direct",
+    connected: true,
+    connectError: null,
+    trusted: false,
+    verifyError: "SELF_SIGNED_CERT_IN_CHAIN",
+    hostnameError: null,
+    chain: [
+      {
+        subject: "mem.example.com",
+        issuer: "Corp Inspection CA, Corp",
+        validFrom: "Jan  1 00:00:00 2026 GMT",
+        validTo: "Jan  1 00:00:00 2036 GMT",
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe("adviceFor", () => {
+  test("points an untrusted chain at caFile", () => {
+    const advice = adviceFor(result(), NO_NETWORK);
+    expect(advice[0]).toContain("Corp Inspection CA");
+    expect(advice[0]).toContain("set caFile");
+  });
+
+  test("blames the clock or the server for an expired certificate", () => {
+    const advice = adviceFor(
+      result({ verifyError: "CERT_HAS_EXPIRED" }),
+      NO_NETWORK,
+    );
+    expect(advice[0]).toContain("validity period");
+    expect(advice[0]).toContain("clock");
+  });
+
+  test("reports a name mismatch", () => {
+    const advice = adviceFor(
+      result({
+        trusted: true,
+        verifyError: null,
+        hostnameError: "Hostname/IP does not match certificate's altnames",
+      }),
+      NO_NETWORK,
+    );
+    expect(advice).toHaveLength(1);
+    expect(advice[0]).toContain("does not match the server name");
+  });
+
+  test("suggests a client certificate for a rejected handshake", () => {
+    const advice = adviceFor(
+      result({
+        connected: false,
+        connectError: "sslv3 alert handshake failure",
+        chain: [],
+      }),
+      NO_NETWORK,
+    );
+    expect(advice[0]).toContain("clientCertFile");
+  });
+
+  test("warns about a certificate close to expiry", () => {
+    const now = Date.parse("2035-12-25T00:00:00Z");
+    const advice = adviceFor(
+      result({ trusted: true, verifyError: null }),
+      NO_NETWORK,
+      now,
+    );
+    expect(advice[0]).toContain("expires");
+  });
+});
+
+test("renderTlsDiagnosis lists the chain and advice", () => {
+  const lines = renderTlsDiagnosis({
+    ...result(),
+    advice: ["Do the thing."],
+  });
+  expect(lines).toContain("**Chain:** not trusted (SELF_SIGNED_CERT_IN_CHAIN)");
+  expect(lines.some((line) => line.startsWith("1. mem.example.com"))).toBe(
+    true,
+  );
+  expect(lines.at(-1)).toBe("> Do the thing.");
+});
+
+test("diagnoseTls reports a failed handshake", async () => {
+  // A plain TCP server that hangs up: no TLS handshake is possible
+  const server = createServer((socket) => socket.destroy());
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as { port: number };
+  try {
+    const diagnosis = await diagnoseTls(
+      `https://127.0.0.1:${port}`,
+      NO_NETWORK,
+      2000,
+    );
+    expect(diagnosis.connected).toBe(false);
+    expect(diagnosis.connectError).toBeTruthy();
+    expect(diagnosis.advice).toHaveLength(1);
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,320 @@
+/**
+ * Tests for HttpTransport — allowlist, auth, retries, circuit breaker and
+ * telemetry, against a scripted fetch.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { gunzipSync } from "zlib";
+import { HttpTransport, resolveEndpoint, type FetchFn } from "../transport";
+
+const TARGET = { baseUrl: "https://memclaude.thaicloud.ai", apiKey: "key-123" };
+
+interface Call {
+  url: string;
+  init: RequestInit;
+}
+
+/** A fetch that plays `outcomes` in order (Error = thrown) and records calls */
+function scripted(outcomes: (number | Error)[]): {
+  fetch: FetchFn;
+  calls: Call[];
+} {
+  const calls: Call[] = [];
+  const fetch: FetchFn = async (url, init) => {
+    calls.push({ url, init });
+    const next = outcomes.shift() ?? 200;
+    if (next instanceof Error) throw next;
+    return new Response(JSON.stringify({ ok: true }), { status: next });
+  };
+  return { fetch, calls };
+}
+
+function transportFor(fetch: FetchFn, cooldownMs = 30000): HttpTransport {
+  return new HttpTransport({
+    fetch,
+    network: () => ({}),
+    sleep: async () => {},
+    circuitCooldownMs: cooldownMs,
+  });
+}
+
+describe("resolveEndpoint", () => {
+  test("maps local endpoint names and allows listed paths", () => {
+    expect(resolveEndpoint("/hybrid")).toBe("/api/search/hybrid");
+    expect(resolveEndpoint("/api/sync/push")).toBe("/api/sync/push");
+    expect(resolveEndpoint("/api/auth/me")).toBe("/api/auth/me");
+    expect(resolveEndpoint("/api/observations/42")).toBe(
+      "/api/observations/42",
+    );
+  });
+
+  test("rejects unknown paths and traversal out of an allowed prefix", () => {
+    expect(() => resolveEndpoint("/api/admin")).toThrow("Unknown endpoint");
+    expect(() => resolveEndpoint("/api/entity/../admin")).toThrow(
+      "Unknown endpoint",
+    );
+  });
+});
+
+describe("HttpTransport requests", () => {
+  test("adds the API key and query, leaving out null values", async () => {
+    const { fetch, calls } = scripted([200]);
+    await transportFor(fetch).request(TARGET, {
+      endpoint: "/search",
+      query: { query: "auth", limit: 5, project: null },
+    });
+
+    expect(calls[0].url).toBe(
+      "https://memclaude.thaicloud.ai/api/search?query=auth&limit=5",
+    );
+    const headers = calls[0].init.headers as Record<string, string>;
+    expect(headers["X-API-Key"]).toBe("key-123");
+  });
+
+  test("sends no key when auth is off", async () => {
+    const { fetch, calls } = scripted([200]);
+    await transportFor(fetch).request(TARGET, {
+      endpoint: "/health",
+      auth: false,
+    });
+    const headers = calls[0].init.headers as Record<string, string>;
+    expect(headers["X-API-Key"]).toBeUndefined();
+  });
+
+  test("gzips the JSON body when asked", async () => {
+    const { fetch, calls } = scripted([200]);
+    await transportFor(fetch).request(TARGET, {
+      method: "POST",
+      endpoint: "/api/sync/push",
+      body: { observations: [{ id: 1 }] },
+      compress: true,
+    });
+
+    const headers = calls[0].init.headers as Record<string, string>;
+    expect(headers["Content-Encoding"]).toBe("gzip");
+    const body = gunzipSync(calls[0].init.body as Buffer).toString("utf-8");
+    expect(JSON.parse(body)).toEqual({ observations: [{ id: 1 }] });
+  });
+
+  test("rejects an unknown endpoint without sending", async () => {
+    const { fetch, calls } = scripted([]);
+    await expect(
+      transportFor(fetch).request(TARGET, { endpoint: "/api/admin" }),
+    ).rejects.toThrow("Unknown endpoint");
+    expect(calls).toHaveLength(0);
+  });
+
+  test("rejects a server outside the allowlist without sending", async () => {
+    const { fetch, calls } = scripted([]);
+    const transport = transportFor(fetch);
+    for (const baseUrl of [
+      "https://evil.example.com",
+      "http://memclaude.thaicloud.ai",
+      "https://169.254.169.254",
+    ]) {
+      await expect(
+        transport.request({ baseUrl, apiKey: "k" }, { endpoint: "/recent" }),
+      ).rejects.toThrow("rejected by allowlist");
+    }
+    expect(calls).toHaveLength(0);
+  });
+
+  test("returns non-OK responses for the caller to handle", async () => {
+    const { fetch } = scripted([404]);
+    const response = await transportFor(fetch).request(TARGET, {
+      endpoint: "/api/skills/9",
+    });
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("HttpTransport retries", () => {
+  test("retries a GET after a transient network error", async () => {
+    const { fetch, calls } = scripted([new Error("fetch failed"), 200]);
+    const transport = transportFor(fetch);
+    const response = await transport.request(TARGET, { endpoint: "/recent" });
+
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(2);
+    expect(
+      transport.getStats().endpoints["GET /api/observations"],
+    ).toMatchObject({ requests: 1, retries: 1, failures: 0 });
+  });
+
+  test("retries a POST under the same idempotency key", async () => {
+    const { fetch, calls } = scripted([new Error("ECONNRESET"), 200]);
+    const response = await transportFor(fetch).request(TARGET, {
+      method: "POST",
+      endpoint: "/api/ingest",
+      body: { content: "x" },
+    });
+
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(2);
+    const keys = calls.map(
+      (call) =>
+        (call.init.headers as Record<string, string>)["Idempotency-Key"],
+    );
+    expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(keys[1]).toBe(keys[0]);
+  });
+
+  test("gives each write its own key, or the caller's, and GETs none", async () => {
+    const { fetch, calls } = scripted([200, 200, 200, 200]);
+    const transport = transportFor(fetch);
+    const patch = { method: "PATCH" as const, endpoint: "/api/observations/1" };
+    await transport.request(TARGET, patch);
+    await transport.request(TARGET, patch);
+    await transport.request(TARGET, { ...patch, idempotencyKey: "fixed" });
+    await transport.request(TARGET, { endpoint: "/recent" });
+
+    const keys = calls.map(
+      (call) =>
+        (call.init.headers as Record<string, string>)["Idempotency-Key"],
+    );
+    expect(keys[0]).not.toBe(keys[1]);
+    expect(keys[2]).toBe("fixed");
+    expect(keys[3]).toBeUndefined();
+  });
+
+  test("does not retry timeouts or past maxRetries", async () => {
+    const timeout = new Error("The operation timed out.");
+    timeout.name = "TimeoutError";
+    const timedOut = scripted([timeout, 200]);
+    await expect(
+      transportFor(timedOut.fetch).request(TARGET, { endpoint: "/recent" }),
+    ).rejects.toThrow("timed out");
+    expect(timedOut.calls).toHaveLength(1);
+
+    const hook = scripted([new Error("fetch failed"), 200]);
+    await expect(
+      transportFor(hook.fetch).request(TARGET, {
+        endpoint: "/search",
+        maxRetries: 0,
+      }),
+    ).rejects.toThrow("fetch failed");
+    expect(hook.calls).toHaveLength(1);
+  });
+});
+
+describe("HttpTransport circuit breaker", () => {
+  test("opens after consecutive failures and fails fast", async () => {
+    const { fetch, calls } = scripted([503, 502, new Error("socket hang up")]);
+    const transport = transportFor(fetch);
+    const req = { endpoint: "/recent", maxRetries: 0 };
+
+    await transport.request(TARGET, req);
+    await transport.request(TARGET, req);
+    await expect(transport.request(TARGET, req)).rejects.toThrow("socket");
+    expect(transport.circuitState(TARGET.baseUrl)).toBe("open");
+
+    await expect(transport.request(TARGET, req)).rejects.toThrow(
+      "Circuit open",
+    );
+    expect(calls).toHaveLength(3);
+  });
+
+  test("client errors do not count as outages", async () => {
+    const { fetch } = scripted([404, 401, 422]);
+    const transport = transportFor(fetch);
+    for (let i = 0; i < 3; i++) {
+      await transport.request(TARGET, { endpoint: "/api/skills" });
+    }
+    expect(transport.circuitState(TARGET.baseUrl)).toBe("closed");
+  });
+
+  test("probes go through an open circuit and a success closes it", async () => {
+    const { fetch } = scripted([503, 503, 503, 200]);
+    const transport = transportFor(fetch);
+    for (let i = 0; i < 3; i++) {
+      await transport.request(TARGET, { endpoint: "/recent" });
+    }
+    expect(transport.circuitState(TARGET.baseUrl)).toBe("open");
+
+    await transport.request(TARGET, {
+      endpoint: "/health",
+      auth: false,
+      probe: true,
+    });
+    expect(transport.circuitState(TARGET.baseUrl)).toBe("closed");
+  });
+
+  test("is half-open after the cooldown", async () => {
+    const { fetch } = scripted([503, 503, 503]);
+    const transport = transportFor(fetch, 0);
+    for (let i = 0; i < 3; i++) {
+      await transport.request(TARGET, { endpoint: "/recent" });
+    }
+    expect(transport.circuitState(TARGET.baseUrl)).toBe("half-open");
+    expect(
+      transport.getStats().circuits["https://memclaude.thaicloud.ai"],
+    ).toEqual({
+      state: "half-open",
+      consecutiveFailures: 3,
+    });
+  });
+
+  test("lets one probe through when half-open and fails the rest fast", async () => {
+    let answer: (response: Response) => void = () => {};
+    let calls = 0;
+    const fetch: FetchFn = async () => {
+      calls++;
+      if (calls <= 3) return new Response("", { status: 503 });
+      if (calls > 4) return new Response("{}", { status: 200 });
+      return new Promise<Response>((resolve) => (answer = resolve));
+    };
+    const transport = transportFor(fetch, 0);
+    for (let i = 0; i < 3; i++) {
+      await transport.request(TARGET, { endpoint: "/recent" });
+    }
+    expect(transport.circuitState(TARGET.baseUrl)).toBe("half-open");
+
+    const probe = transport.request(TARGET, { endpoint: "/recent" });
+    await expect(
+      transport.request(TARGET, { endpoint: "/recent" }),
+    ).rejects.toThrow("Circuit half-open");
+    expect(calls).toBe(4);
+
+    answer(new Response("{}", { status: 200 }));
+    expect((await probe).status).toBe(200);
+    expect(transport.circuitState(TARGET.baseUrl)).toBe("closed");
+    await transport.request(TARGET, { endpoint: "/recent" });
+    expect(calls).toBe(5);
+  });
+
+  test("keeps a circuit per server", async () => {
+    const { fetch } = scripted([503, 503, 503, 200]);
+    const transport = transportFor(fetch);
+    for (let i = 0; i < 3; i++) {
+      await transport.request(TARGET, { endpoint: "/recent" });
+    }
+    const other = { baseUrl: "http://localhost:8080", apiKey: "k" };
+    const response = await transport.request(other, { endpoint: "/recent" });
+    expect(response.status).toBe(200);
+  });
+});
+
+describe("HttpTransport telemetry", () => {
+  test("groups requests by method and path with IDs collapsed", async () => {
+    const { fetch } = scripted([200, 500, 200]);
+    const transport = transportFor(fetch);
+    const patch = (id: number) =>
+      transport.request(TARGET, {
+        method: "PATCH",
+        endpoint: `/api/observations/${id}`,
+        body: { status: "archived" },
+      });
+    await patch(1);
+    await patch(2);
+    await transport.request(TARGET, { endpoint: "/api/skills" });
+
+    const { endpoints } = transport.getStats();
+    expect(endpoints["PATCH /api/observations/:id"]).toMatchObject({
+      requests: 2,
+      failures: 1,
+      lastStatus: 500,
+      lastError: "HTTP 500",
+    });
+    expect(endpoints["GET /api/skills"].requests).toBe(1);
+  });
+});
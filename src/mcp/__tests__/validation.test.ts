@@ -342,6 +342,80 @@ describe("validateToolInput", () => {
     });
   });
 
+  describe("mem_sync_failures", () => {
+    test("defaults to list action", () => {
+      const result = validateToolInput("mem_sync_failures", {});
+      expect(result.action).toBe("list");
+      expect(result.limit).toBe(50);
+    });
+
+    test("requires id for show", () => {
+      expect(() =>
+        validateToolInput("mem_sync_failures", { action: "show" }),
+      ).toThrow("id is required");
+    });
+
+    test("requires id or all for retry and discard", () => {
+      expect(() =>
+        validateToolInput("mem_sync_failures", { action: "retry" }),
+      ).toThrow("require id or all");
+      expect(() =>
+        validateToolInput("mem_sync_failures", {
+          action: "discard",
+          all: true,
+        }),
+      ).not.toThrow();
+      expect(() =>
+        validateToolInput("mem_sync_failures", { action: "retry", id: 3 }),
+      ).not.toThrow();
+    });
+
+    test("rejects unknown action", () => {
+      expect(() =>
+        validateToolInput("mem_sync_failures", { action: "purge" }),
+      ).toThrow("Invalid input");
+    });
+  });
+
+  describe("mem_sync_backfill", () => {
+    test("defaults to a dry-run plan of everything", () => {
+      const result = validateToolInput("mem_sync_backfill", {});
+      expect(result.action).toBe("plan");
+      expect(result.kind).toBe("all");
+    });
+
+    test("accepts id, date and project filters", () => {
+      expect(() =>
+        validateToolInput("mem_sync_backfill", {
+          action: "start",
+          from_id: 10,
+          to_id: 20,
+          since: "2026-01-01",
+          until: "2026-02-01",
+          project: "memforge",
+        }),
+      ).not.toThrow();
+    });
+
+    test("rejects inverted ranges", () => {
+      expect(() =>
+        validateToolInput("mem_sync_backfill", { from_id: 20, to_id: 10 }),
+      ).toThrow("from_id must not be greater than to_id");
+      expect(() =>
+        validateToolInput("mem_sync_backfill", {
+          since: "2026-02-01",
+          until: "2026-01-01",
+        }),
+      ).toThrow("since must not be after until");
+    });
+
+    test("rejects malformed dates", () => {
+      expect(() =>
+        validateToolInput("mem_sync_backfill", { since: "01/02/2026" }),
+      ).toThrow("Invalid input");
+    });
+  });
+
   describe("unknown tool", () => {
     test("passes through args for unknown tool", () => {
       const args = { foo: "bar" };
@@ -9,6 +9,17 @@ import { homedir } from "os";
 import { dirname, join } from "path";
 import { fileURLToPath } from "url";
 import type { ToolResponse } from "./types";
+import type { RedactionConfig } from "../privacy/redaction";
+import type { SyncProjectsConfig } from "../sync/sync-filter";
+import type { SyncPrivacyConfig } from "../privacy/field-privacy";
+import { decryptResponse } from "../privacy/field-encryption";
+import {
+  transport,
+  isPrivateHost,
+  isRetryableError,
+  validateServerUrl,
+  type TransportRequest,
+} from "./transport";
 
 // Get plugin root directory
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -20,8 +31,6 @@ const LEGACY_CONFIG = join(PLUGIN_ROOT, "config.local.json");
 
 // API Configuration
 const DEFAULT_REMOTE_URL = "https://memclaude.thaicloud.ai";
-const REMOTE_TIMEOUT_MS = 30000; // 30 seconds - vector search needs ~2-3s for embedding + similarity
-const SEARCH_TIMEOUT_MS = 60000; // 60 seconds for search operations (embedding generation can be slow)
 
 // API Key and URL loading
 let remoteApiKey = process.env.CLAUDE_MEM_API_KEY || "";
@@ -51,6 +60,17 @@ interface PluginConfig {
   promptRelevanceThreshold?: number; // min score to inject (Wave B)
   promptContextTimeoutMs?: number; // per-prompt search timeout (Wave B)
   waveCEnabled?: boolean; // Wave C "/forward" nudge on compact (default: true)
+  redaction?: RedactionConfig; // secret masking before upload (default: enabled)
+  syncProjects?: SyncProjectsConfig; // per-project sync allow/deny rules
+  syncPrivacy?: SyncPrivacyConfig; // per-project field privacy levels (default: full)
+  syncEncryption?: boolean; // encrypt observation narrative/text/facts (default: false)
+  syncMode?: "push" | "export"; // export writes pushes to ~/.memforge/outbox/ (default: push)
+  syncWatch?: boolean; // poll on claude-mem.db changes (default: false)
+  syncPriorityThreshold?: number; // obs quota left that starts priority sync (default: 10% of limit)
+  proxyUrl?: string; // proxy for server requests (default: HTTPS_PROXY / HTTP_PROXY)
+  caFile?: string; // PEM bundle trusted in addition to the system CAs
+  clientCertFile?: string; // PEM client certificate for mutual TLS
+  clientKeyFile?: string; // PEM key for clientCertFile
 }
 
 /**
@@ -154,17 +174,11 @@ export function getQuota(): AccountQuota | null {
 /**
  * Fetch tier + quota from /api/auth/me and cache in memory.
  * Non-blocking: logs on failure, defaults to null.
- * Uses raw fetch (not callRemoteAPI) — /api/auth/me is not in ALLOWED_API_PATHS.
  */
 export async function fetchAndCacheTier(): Promise<void> {
   if (!isRemoteEnabled()) return;
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 10000);
   try {
-    const response = await fetch(`${remoteApiUrl}/api/auth/me`, {
-      headers: { "X-API-Key": remoteApiKey },
-      signal: controller.signal,
-    });
+    const response = await sendRemote({ endpoint: "/api/auth/me" });
     if (response.ok) {
       const data = (await response.json()) as {
         tier?: string;
@@ -177,8 +191,6 @@ export async function fetchAndCacheTier(): Promise<void> {
     }
   } catch {
     // Non-blocking — tier/quota stays null on failure
-  } finally {
-    clearTimeout(timeoutId);
   }
 }
 
@@ -202,168 +214,31 @@ export function getApiKey(): string {
   return remoteApiKey;
 }
 
-/** Allowed server hostnames for SSRF protection */
-const ALLOWED_HOSTS = ["memclaude.thaicloud.ai"];
-
-/** Cloud metadata IPs that must always be blocked */
-const BLOCKED_METADATA_HOSTS = new Set([
-  "169.254.169.254", // AWS/GCP IMDS
-  "metadata.google.internal", // GCP
-  "100.100.100.200", // Alibaba Cloud
-]);
-
 /**
- * Check if a hostname is a private/internal IP.
+ * Send a request to the configured server through the shared transport.
+ * Callers check isRemoteEnabled() first.
  */
-function isPrivateHost(hostname: string): boolean {
-  return (
-    hostname === "0.0.0.0" ||
-    hostname === "[::]" ||
-    /^10\./.test(hostname) ||
-    /^172\.(1[6-9]|2\d|3[01])\./.test(hostname) ||
-    /^192\.168\./.test(hostname) ||
-    /^169\.254\./.test(hostname) ||
-    hostname === "::1" ||
-    /^fc00/i.test(hostname) ||
-    /^fd/i.test(hostname) ||
-    BLOCKED_METADATA_HOSTS.has(hostname)
+export function sendRemote(req: TransportRequest): Promise<Response> {
+  return transport.request(
+    { baseUrl: remoteApiUrl, apiKey: remoteApiKey },
+    req,
   );
 }
 
-/**
- * Validate a server URL against the allowlist.
- * Allows: HTTPS to allowed hosts, or localhost/127.0.0.1 for dev.
- * Set MEMFORGE_ALLOW_CUSTOM_URL=1 to bypass hostname allowlist
- * (still enforces HTTPS and blocks cloud metadata endpoints).
- */
-function validateServerUrl(url: string): boolean {
-  try {
-    const parsed = new URL(url);
-
-    // Always block cloud metadata and private IPs, even with bypass
-    if (isPrivateHost(parsed.hostname)) return false;
-
-    // Bypass mode: skip hostname allowlist but enforce HTTPS
-    if (process.env.MEMFORGE_ALLOW_CUSTOM_URL === "1") {
-      if (parsed.hostname === "localhost" || parsed.hostname === "127.0.0.1") {
-        return parsed.protocol === "http:" || parsed.protocol === "https:";
-      }
-      return parsed.protocol === "https:";
-    }
-
-    // Allow localhost for development (HTTP and HTTPS)
-    if (parsed.hostname === "localhost" || parsed.hostname === "127.0.0.1") {
-      return parsed.protocol === "http:" || parsed.protocol === "https:";
-    }
-
-    // Require HTTPS for remote hosts
-    if (parsed.protocol !== "https:") return false;
-
-    // Check against allowlist
-    return ALLOWED_HOSTS.includes(parsed.hostname);
-  } catch {
-    return false;
-  }
-}
-
-/** Endpoint mapping from local to remote */
-const ENDPOINT_MAP: Record<string, string> = {
-  "/hybrid": "/api/search/hybrid",
-  "/vector": "/api/search/vector",
-  "/search": "/api/search",
-  "/timeline": "/api/timeline",
-  "/recent": "/api/observations",
-  "/observation": "/api/observations/batch",
-  "/context/cross-project": "/api/context/cross-project",
-  "/context/stable": "/api/context/stable",
-};
-
-/** Allowed direct API paths (not in ENDPOINT_MAP) */
-const ALLOWED_API_PATHS = new Set([
-  "/api/timeline",
-  "/api/workflows",
-  "/api/ingest",
-  "/api/entity",
-  "/api/triplets",
-  "/api/stats",
-  "/api/observations",
-  "/api/observations/batch",
-  "/api/search",
-  "/api/search/hybrid",
-  "/api/search/vector",
-  "/api/context/cross-project",
-  "/api/context/stable",
-  "/api/teams",
-  "/api/snapshots",
-  "/api/skills",
-  "/api/search/temporal",
-  "/api/observations/drift-check",
-  "/api/v1/handoff",
-  "/api/v1/resume",
-  "/health",
-]);
-
-/**
- * Resolve endpoint with strict allowlist.
- * Rejects unknown endpoints to prevent URL injection.
- */
-function resolveEndpoint(endpoint: string): string {
-  // Check mapped endpoints first
-  const mapped = ENDPOINT_MAP[endpoint];
-  if (mapped) return mapped;
-
-  // Check direct API paths
-  if (ALLOWED_API_PATHS.has(endpoint)) return endpoint;
-
-  // Normalize to prevent path traversal (e.g., /api/entity/../secret)
-  const normalized = new URL(endpoint, "http://dummy").pathname;
-
-  // Check prefix match for parameterized paths (e.g., /api/entity/foo)
-  for (const allowed of ALLOWED_API_PATHS) {
-    if (normalized.startsWith(allowed + "/")) return normalized;
-  }
-
-  throw new Error(`Unknown endpoint: ${endpoint}`);
-}
-
-/** Max retries for transient network errors */
-const MAX_RETRIES = 2;
-const RETRY_DELAYS_MS = [1000, 2000];
-
-/**
- * Check if an error is retryable (network/TLS errors, not HTTP 4xx).
- */
-function isRetryableError(error: unknown): boolean {
-  if (error instanceof Error) {
-    // Never retry timeout aborts — they are intentional
-    if (error.name === "AbortError") return false;
-
-    const msg = error.message.toLowerCase();
-    return (
-      msg.includes("fetch failed") ||
-      msg.includes("certificate") ||
-      msg.includes("ssl") ||
-      msg.includes("tls") ||
-      msg.includes("econnreset") ||
-      msg.includes("econnrefused") ||
-      msg.includes("socket")
-    );
-  }
-  return false;
-}
-
-/**
- * Sleep for a given number of milliseconds.
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/** Throw the server's `error` message (or the status) for a non-OK response */
+async function throwForStatus(response: Response): Promise<void> {
+  if (response.ok) return;
+  const errorData = (await response.json().catch(() => ({}))) as {
+    error?: string;
+  };
+  throw new Error(errorData.error || `HTTP ${response.status}`);
 }
 
 /** Per-call overrides for callRemoteAPI (all optional, backward-compatible) */
 export interface CallOptions {
   /** Override the request timeout (ms). Default: search endpoints 60s, else 30s. */
   timeoutMs?: number;
-  /** Override the max transient-error retries. Default: MAX_RETRIES (2). Use 0 for hooks. */
+  /** Override the max transient-error retries. Default: 2. Use 0 for hooks. */
   maxRetries?: number;
 }
 
@@ -387,60 +262,19 @@ export async function callRemoteAPI(
     throw new Error("Remote search not configured");
   }
 
-  // Use longer timeout for search endpoints (embedding generation is slow)
-  const isSearchEndpoint =
-    ["/hybrid", "/vector", "/search"].includes(endpoint) ||
-    endpoint.includes("/search");
-  const timeout =
-    opts.timeoutMs ?? (isSearchEndpoint ? SEARCH_TIMEOUT_MS : REMOTE_TIMEOUT_MS);
-  const maxRetries = opts.maxRetries ?? MAX_RETRIES;
-
-  const remoteEndpoint = resolveEndpoint(endpoint);
+  const response = await sendRemote({
+    endpoint,
+    query: params,
+    timeoutMs: opts.timeoutMs,
+    maxRetries: opts.maxRetries,
+  });
 
-  const searchParams = new URLSearchParams();
-  for (const [key, value] of Object.entries(params)) {
-    if (value !== undefined && value !== null) {
-      searchParams.append(key, String(value));
-    }
+  if (!response.ok) {
+    throw new Error(`Remote API error (${response.status})`);
   }
 
-  const url = `${remoteApiUrl}${remoteEndpoint}?${searchParams}`;
-  let lastError: unknown;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    if (attempt > 0) {
-      // Clamp to the last known delay if maxRetries exceeds the delay table.
-      const delay =
-        RETRY_DELAYS_MS[attempt - 1] ??
-        RETRY_DELAYS_MS[RETRY_DELAYS_MS.length - 1];
-      await sleep(delay);
-    }
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    try {
-      const response = await fetch(url, {
-        headers: { "X-API-Key": remoteApiKey },
-        signal: controller.signal,
-      });
-
-      if (!response.ok) {
-        throw new Error(`Remote API error (${response.status})`);
-      }
-
-      return await response.json();
-    } catch (error) {
-      lastError = error;
-      if (!isRetryableError(error) || attempt === maxRetries) {
-        throw error;
-      }
-    } finally {
-      clearTimeout(timeoutId);
-    }
-  }
-
-  throw lastError;
+  // Observation fields pushed with syncEncryption come back encrypted
+  return decryptResponse(await response.json());
 }
 
 /**
@@ -458,32 +292,9 @@ export async function postRemoteAPI(
     throw new Error("Remote search not configured");
   }
 
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), REMOTE_TIMEOUT_MS);
-
-  try {
-    const resolvedEndpoint = resolveEndpoint(endpoint);
-    const response = await fetch(`${remoteApiUrl}${resolvedEndpoint}`, {
-      method: "POST",
-      headers: {
-        "X-API-Key": remoteApiKey,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(body),
-      signal: controller.signal,
-    });
-
-    if (!response.ok) {
-      const errorData = (await response.json().catch(() => ({}))) as {
-        error?: string;
-      };
-      throw new Error(errorData.error || `HTTP ${response.status}`);
-    }
-
-    return await response.json();
-  } finally {
-    clearTimeout(timeoutId);
-  }
+  const response = await sendRemote({ method: "POST", endpoint, body });
+  await throwForStatus(response);
+  return await response.json();
 }
 
 /**
@@ -498,32 +309,9 @@ export async function patchRemoteAPI(
     throw new Error("Remote search not configured");
   }
 
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), REMOTE_TIMEOUT_MS);
-
-  try {
-    const resolvedEndpoint = resolveEndpoint(endpoint);
-    const response = await fetch(`${remoteApiUrl}${resolvedEndpoint}`, {
-      method: "PATCH",
-      headers: {
-        "X-API-Key": remoteApiKey,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(body),
-      signal: controller.signal,
-    });
-
-    if (!response.ok) {
-      const errorData = (await response.json().catch(() => ({}))) as {
-        error?: string;
-      };
-      throw new Error(errorData.error || `HTTP ${response.status}`);
-    }
-
-    return await response.json();
-  } finally {
-    clearTimeout(timeoutId);
-  }
+  const response = await sendRemote({ method: "PATCH", endpoint, body });
+  await throwForStatus(response);
+  return await response.json();
 }
 
 /**
@@ -537,28 +325,9 @@ export async function deleteRemoteAPI(endpoint: string): Promise<unknown> {
     throw new Error("Remote search not configured");
   }
 
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), REMOTE_TIMEOUT_MS);
-
-  try {
-    const resolvedEndpoint = resolveEndpoint(endpoint);
-    const response = await fetch(`${remoteApiUrl}${resolvedEndpoint}`, {
-      method: "DELETE",
-      headers: { "X-API-Key": remoteApiKey },
-      signal: controller.signal,
-    });
-
-    if (!response.ok) {
-      const errorData = (await response.json().catch(() => ({}))) as {
-        error?: string;
-      };
-      throw new Error(errorData.error || `HTTP ${response.status}`);
-    }
-
-    return await response.json();
-  } finally {
-    clearTimeout(timeoutId);
-  }
+  const response = await sendRemote({ method: "DELETE", endpoint });
+  await throwForStatus(response);
+  return await response.json();
 }
 
 /**
@@ -572,28 +341,17 @@ export async function fetchObservationsByIds(ids: number[]): Promise<unknown> {
     throw new Error("Remote search not configured");
   }
 
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), REMOTE_TIMEOUT_MS);
+  const response = await sendRemote({
+    method: "POST",
+    endpoint: "/api/observations/batch",
+    body: { ids },
+  });
 
-  try {
-    const response = await fetch(`${remoteApiUrl}/api/observations/batch`, {
-      method: "POST",
-      headers: {
-        "X-API-Key": remoteApiKey,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ ids }),
-      signal: controller.signal,
-    });
-
-    if (!response.ok) {
-      throw new Error(`Remote API error (${response.status})`);
-    }
-
-    return await response.json();
-  } finally {
-    clearTimeout(timeoutId);
+  if (!response.ok) {
+    throw new Error(`Remote API error (${response.status})`);
   }
+
+  return decryptResponse(await response.json());
 }
 
 /**
@@ -5,8 +5,12 @@
  * Addresses Finding #7 (CWE-778): No structured audit logging.
  *
  * Outputs single-line JSON to stderr (stdout reserved for JSON-RPC).
+ * Entries list the Idempotency-Keys of the writes a tool sent, so a write
+ * can be matched to the server's record of it.
  */
 
+import { AsyncLocalStorage } from "async_hooks";
+
 interface AuditEntry {
   ts: string;
   tool: string;
@@ -14,6 +18,29 @@ interface AuditEntry {
   duration_ms: number;
   success: boolean;
   error?: string;
+  idempotency_keys?: string[];
+}
+
+/** Keys collected for the tool call in progress */
+const callKeys = new AsyncLocalStorage<string[]>();
+
+/**
+ * Run a tool handler, collecting into `keys` the Idempotency-Key of every
+ * write it sends.
+ */
+export function collectIdempotencyKeys<T>(
+  keys: string[],
+  fn: () => Promise<T>,
+): Promise<T> {
+  return callKeys.run(keys, fn);
+}
+
+/**
+ * Note a write's Idempotency-Key against the tool call in progress.
+ * Outside a tool call (sync poller, CLI) this does nothing.
+ */
+export function recordIdempotencyKey(key: string): void {
+  callKeys.getStore()?.push(key);
 }
 
 /**
@@ -25,6 +52,7 @@ export function auditLog(
   durationMs: number,
   success: boolean,
   error?: string,
+  idempotencyKeys: string[] = [],
 ): void {
   const entry: AuditEntry = {
     ts: new Date().toISOString(),
@@ -38,6 +66,9 @@ export function auditLog(
     // Truncate error messages to avoid log bloat
     entry.error = error.length > 200 ? error.slice(0, 200) + "..." : error;
   }
+  if (idempotencyKeys.length > 0) {
+    entry.idempotency_keys = idempotencyKeys;
+  }
 
   try {
     process.stderr.write(`[audit] ${JSON.stringify(entry)}\n`);
@@ -5,8 +5,10 @@
  * stable context retrieval (Phase 6.3).
  */
 
+import { z } from "zod";
 import type { ToolDefinition } from "../types";
 import { callRemoteAPI, wrapError, wrapSuccess } from "../api-client";
+import { checkResponse } from "../response-schemas";
 
 // =============================================================================
 // Cross-Project Knowledge (#326)
@@ -32,6 +34,31 @@ interface CrossProjectResponse {
   totalCandidates: number;
 }
 
+const CrossProjectResponseSchema: z.ZodType<CrossProjectResponse> =
+  z.looseObject({
+    targetProject: z.string(),
+    suggestions: z.array(
+      z.looseObject({
+        id: z.number(),
+        title: z.string(),
+        sourceProject: z.string(),
+        type: z.string(),
+        created_at: z.string(),
+        sharedConceptCount: z.number(),
+        sharedConcepts: z.array(z.string()),
+      }),
+    ),
+    projectOverlaps: z.array(
+      z.looseObject({
+        project: z.string(),
+        sharedConceptCount: z.number(),
+        topSharedConcepts: z.array(z.string()),
+        observationCount: z.number(),
+      }),
+    ),
+    totalCandidates: z.number(),
+  });
+
 /** mem_cross_project tool definition */
 export const memCrossProject: ToolDefinition = {
   name: "mem_cross_project",
@@ -69,10 +96,13 @@ export const memCrossProject: ToolDefinition = {
       if (limit) params.limit = limit;
       if (min_concepts) params.min_concepts = min_concepts;
 
-      const data = (await callRemoteAPI(
-        "/context/cross-project",
-        params,
-      )) as CrossProjectResponse;
+      const checked = checkResponse(
+        "GET /api/context/cross-project",
+        CrossProjectResponseSchema,
+        await callRemoteAPI("/context/cross-project", params),
+      );
+      if (!checked.ok) return checked.fallback;
+      const data = checked.data;
 
       if (!data.suggestions || data.suggestions.length === 0) {
         return wrapSuccess(
@@ -120,6 +150,15 @@ interface StableContextResponse {
   user: string;
 }
 
+const StableContextResponseSchema: z.ZodType<StableContextResponse> =
+  z.looseObject({
+    context: z.string(),
+    entries: z.array(z.record(z.string(), z.unknown())),
+    total_tokens: z.number(),
+    entry_count: z.number(),
+    user: z.string(),
+  });
+
 /** mem_stable_context tool definition */
 export const memStableContext: ToolDefinition = {
   name: "mem_stable_context",
@@ -156,10 +195,13 @@ export const memStableContext: ToolDefinition = {
       if (sdk_session_id) params.sdk_session_id = sdk_session_id;
       if (project) params.project = project;
 
-      const data = (await callRemoteAPI(
-        "/context/stable",
-        params,
-      )) as StableContextResponse;
+      const checked = checkResponse(
+        "GET /api/context/stable",
+        StableContextResponseSchema,
+        await callRemoteAPI("/context/stable", params),
+      );
+      if (!checked.ok) return checked.fallback;
+      const data = checked.data;
 
       if (!data.context || data.entry_count === 0) {
         return wrapSuccess(
@@ -4,12 +4,13 @@
  * Handlers for entity lookup and triplets MCP tools.
  */
 
-import type {
-  ToolDefinition,
-  EntityLookupResponse,
-  TripletsQueryResponse,
-} from "../types";
+import type { ToolDefinition } from "../types";
 import { callRemoteAPI, wrapError, wrapSuccess } from "../api-client";
+import {
+  checkResponse,
+  EntityLookupResponseSchema,
+  TripletsQueryResponseSchema,
+} from "../response-schemas";
 import { formatEntityLookup, formatTripletsQuery } from "../formatters";
 
 /** mem_entity_lookup tool definition */
@@ -33,11 +34,13 @@ export const memEntityLookup: ToolDefinition = {
   handler: async (args) => {
     try {
       const entityName = encodeURIComponent(args.name as string);
-      const data = (await callRemoteAPI(
-        `/api/entity/${entityName}`,
-        {},
-      )) as EntityLookupResponse;
-      return wrapSuccess(formatEntityLookup(data, args.name as string));
+      const checked = checkResponse(
+        "GET /api/entity/:name",
+        EntityLookupResponseSchema,
+        await callRemoteAPI(`/api/entity/${entityName}`, {}),
+      );
+      if (!checked.ok) return checked.fallback;
+      return wrapSuccess(formatEntityLookup(checked.data, args.name as string));
     } catch (error) {
       return wrapError(error);
     }
@@ -83,12 +86,14 @@ export const memTripletsQuery: ToolDefinition = {
       if (args.predicate) params.predicate = args.predicate;
       if (args.object) params.object = args.object;
 
-      const data = (await callRemoteAPI(
-        "/api/triplets",
-        params,
-      )) as TripletsQueryResponse;
+      const checked = checkResponse(
+        "GET /api/triplets",
+        TripletsQueryResponseSchema,
+        await callRemoteAPI("/api/triplets", params),
+      );
+      if (!checked.ok) return checked.fallback;
       return wrapSuccess(
-        formatTripletsQuery(data, {
+        formatTripletsQuery(checked.data, {
           subject: args.subject as string | undefined,
           predicate: args.predicate as string | undefined,
           object: args.object as string | undefined,
@@ -20,6 +20,7 @@ import { teamHandlers } from "./team-handlers";
 import { skillHandlers } from "./skill-handlers";
 import { metadataHandlers } from "./metadata-handlers";
 import { sessionHandlers } from "./session-handlers";
+import { syncHandlers } from "./sync-handlers";
 
 export {
   searchHandlers,
@@ -33,6 +34,7 @@ export {
   skillHandlers,
   metadataHandlers,
   sessionHandlers,
+  syncHandlers,
 };
 
 // Re-export individual handlers for direct imports
@@ -75,6 +77,7 @@ export {
   memDriftCheck,
 } from "./metadata-handlers";
 export { memHandoff, memResume } from "./session-handlers";
+export { memSyncFailures, memSyncBackfill } from "./sync-handlers";
 
 /**
  * Get all tool definitions for MCP server registration.
@@ -94,5 +97,6 @@ export function getAllTools(): ToolDefinition[] {
     ...skillHandlers,
     ...metadataHandlers,
     ...sessionHandlers,
+    ...syncHandlers,
   ];
 }
@@ -4,8 +4,27 @@
  * mem_ingest tool for cross-agent observation ingestion via MCP.
  */
 
+import { z } from "zod";
 import type { ToolDefinition } from "../types";
 import { postRemoteAPI, wrapError, wrapSuccess } from "../api-client";
+import { redactPayload } from "../../privacy/redaction";
+import { responseCache } from "../response-cache";
+import { checkResponse } from "../response-schemas";
+
+/** Response shape from POST /api/ingest */
+interface IngestResponse {
+  provider: string;
+  total: number;
+  created: number;
+  skipped: number;
+}
+
+const IngestResponseSchema: z.ZodType<IngestResponse> = z.looseObject({
+  provider: z.string(),
+  total: z.number(),
+  created: z.number(),
+  skipped: z.number(),
+});
 
 /** mem_ingest tool definition */
 export const memIngest: ToolDefinition = {
@@ -53,13 +72,18 @@ export const memIngest: ToolDefinition = {
   },
   handler: async (args) => {
     try {
-      const data = await postRemoteAPI("/api/ingest", args);
-      const result = data as {
-        provider: string;
-        total: number;
-        created: number;
-        skipped: number;
-      };
+      const data = await postRemoteAPI(
+        "/api/ingest",
+        redactPayload("mem_ingest", args),
+      );
+      responseCache.invalidateLists();
+      const checked = checkResponse(
+        "POST /api/ingest",
+        IngestResponseSchema,
+        data,
+      );
+      if (!checked.ok) return checked.fallback;
+      const result = checked.data;
       return wrapSuccess(
         `Ingested ${result.created}/${result.total} observations via ${result.provider} adapter` +
           (result.skipped > 0 ? ` (${result.skipped} skipped)` : ""),
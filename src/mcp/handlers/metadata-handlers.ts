@@ -5,6 +5,7 @@
  * pin, set_importance, set_event_date, set_status, contradict, drift_check.
  */
 
+import { z } from "zod";
 import type { ToolDefinition } from "../types";
 import {
   callRemoteAPI,
@@ -13,6 +14,8 @@ import {
   wrapError,
   wrapSuccess,
 } from "../api-client";
+import { responseCache } from "../response-cache";
+import { checkResponse, maybe } from "../response-schemas";
 
 interface ObservationUpdate {
   id: number;
@@ -30,18 +33,39 @@ interface ContradictResponse {
   message: string;
 }
 
+const ContradictResponseSchema: z.ZodType<ContradictResponse> = z.looseObject({
+  original_id: z.number(),
+  original_marked_stale: z.boolean(),
+  new_observation_id: z.number(),
+  message: z.string(),
+});
+
 interface DriftCheckResponse {
   observations: Array<{
     id: number;
     title: string;
     type: string;
-    project: string;
-    importance_score: number;
+    project?: string;
+    importance_score?: number;
     created_at: string;
   }>;
   count: number;
 }
 
+const DriftCheckResponseSchema: z.ZodType<DriftCheckResponse> = z.looseObject({
+  observations: z.array(
+    z.looseObject({
+      id: z.number(),
+      title: z.string(),
+      type: z.string(),
+      project: maybe(z.string()),
+      importance_score: maybe(z.number()),
+      created_at: z.string(),
+    }),
+  ),
+  count: z.number(),
+});
+
 /** mem_pin tool definition */
 export const memPin: ToolDefinition = {
   name: "mem_pin",
@@ -72,6 +96,7 @@ export const memPin: ToolDefinition = {
       const pinned = args.pinned !== false;
 
       await patchRemoteAPI(`/api/observations/${id}`, { pinned });
+      responseCache.invalidateObservations([id]);
 
       return wrapSuccess(
         pinned
@@ -124,6 +149,7 @@ export const memSetImportance: ToolDefinition = {
       await patchRemoteAPI(`/api/observations/${id}`, {
         importance_override: score,
       });
+      responseCache.invalidateObservations([id]);
 
       if (score == null) {
         return wrapSuccess(
@@ -176,6 +202,7 @@ export const memSetEventDate: ToolDefinition = {
       await patchRemoteAPI(`/api/observations/${id}`, {
         event_date: eventDate,
       });
+      responseCache.invalidateObservations([id]);
 
       if (eventDate == null) {
         return wrapSuccess(`Event date cleared for observation #${id}.`);
@@ -232,6 +259,9 @@ export const memSetStatus: ToolDefinition = {
       const status = args.status as string;
 
       await patchRemoteAPI(`/api/observations/${id}`, { status });
+      // Status decides what default search returns
+      responseCache.invalidateObservations([id]);
+      responseCache.invalidateLists();
 
       return wrapSuccess(
         `Observation #${id} status set to '${status}'.` +
@@ -290,10 +320,19 @@ export const memContradict: ToolDefinition = {
       const body: Record<string, unknown> = { correction };
       if (args.title) body.title = args.title;
 
-      const data = (await postRemoteAPI(
+      const raw = await postRemoteAPI(
         `/api/observations/${id}/contradict`,
         body,
-      )) as ContradictResponse;
+      );
+      responseCache.invalidateObservations([id]);
+      responseCache.invalidateLists();
+      const checked = checkResponse(
+        "POST /api/observations/:id/contradict",
+        ContradictResponseSchema,
+        raw,
+      );
+      if (!checked.ok) return checked.fallback;
+      const data = checked.data;
 
       return wrapSuccess(
         `Observation #${data.original_id} marked stale.\n` +
@@ -337,10 +376,13 @@ export const memDriftCheck: ToolDefinition = {
       };
       if (args.project) params.project = args.project;
 
-      const data = (await callRemoteAPI(
-        "/api/observations/drift-check",
-        params,
-      )) as DriftCheckResponse;
+      const checked = checkResponse(
+        "GET /api/observations/drift-check",
+        DriftCheckResponseSchema,
+        await callRemoteAPI("/api/observations/drift-check", params),
+      );
+      if (!checked.ok) return checked.fallback;
+      const data = checked.data;
 
       if (!data.observations || data.observations.length === 0) {
         return wrapSuccess(
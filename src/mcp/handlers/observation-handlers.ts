@@ -4,7 +4,7 @@
  * Handlers for observation-related MCP tools.
  */
 
-import type { ToolDefinition, Observation, TimelineResponse } from "../types";
+import type { ToolDefinition } from "../types";
 import {
   callRemoteAPI,
   fetchObservationsByIds,
@@ -12,6 +12,13 @@ import {
   wrapSuccess,
 } from "../api-client";
 import { formatObservations, formatTimeline } from "../formatters";
+import { responseCache } from "../response-cache";
+import {
+  checkResponse,
+  ObservationBatchSchema,
+  RecentObservationsSchema,
+  TimelineResponseSchema,
+} from "../response-schemas";
 
 // Note: callRemoteAPI is used by memTimeline, fetchObservationsByIds is used by memSemanticGet and memGetObservations
 
@@ -34,10 +41,13 @@ export const memSemanticGet: ToolDefinition = {
   },
   handler: async (args) => {
     try {
-      const data = (await fetchObservationsByIds([Number(args.id)])) as {
-        observations?: Observation[];
-      };
-      const observation = data.observations?.[0];
+      const checked = checkResponse(
+        "POST /api/observations/batch",
+        ObservationBatchSchema,
+        await fetchObservationsByIds([Number(args.id)]),
+      );
+      if (!checked.ok) return checked.fallback;
+      const observation = checked.data.observations[0];
       if (!observation) {
         return wrapSuccess(`Observation #${args.id} not found`);
       }
@@ -66,11 +76,13 @@ export const memSemanticRecent: ToolDefinition = {
   },
   handler: async (args) => {
     try {
-      const data = (await callRemoteAPI("/recent", {
-        limit: args.limit || 20,
-      })) as { data?: Observation[]; observations?: Observation[] };
-      const observations = data.data || data.observations || [];
-      return wrapSuccess(formatObservations(observations));
+      const checked = checkResponse(
+        "GET /api/observations",
+        RecentObservationsSchema,
+        await callRemoteAPI("/recent", { limit: args.limit || 20 }),
+      );
+      if (!checked.ok) return checked.fallback;
+      return wrapSuccess(formatObservations(checked.data));
     } catch (error) {
       return wrapError(error);
     }
@@ -131,11 +143,15 @@ export const memTimeline: ToolDefinition = {
         params.db = args.database;
       }
 
-      const data = (await callRemoteAPI(
-        "/api/timeline",
-        params,
-      )) as TimelineResponse;
-      return wrapSuccess(formatTimeline(data, args.anchor as number));
+      const checked = checkResponse(
+        "GET /api/timeline",
+        TimelineResponseSchema,
+        await responseCache.getOrLoad("/api/timeline", params, () =>
+          callRemoteAPI("/api/timeline", params),
+        ),
+      );
+      if (!checked.ok) return checked.fallback;
+      return wrapSuccess(formatTimeline(checked.data, args.anchor as number));
     } catch (error) {
       return wrapError(error);
     }
@@ -165,12 +181,15 @@ export const memGetObservations: ToolDefinition = {
       const ids = Array.isArray(args.ids)
         ? (args.ids as unknown[]).map(Number)
         : [Number(args.ids)];
-      const data = (await fetchObservationsByIds(ids)) as {
-        observations?: Observation[];
-      };
-
-      const observations = data.observations || [];
-      return wrapSuccess(formatObservations(observations));
+      const checked = checkResponse(
+        "POST /api/observations/batch",
+        ObservationBatchSchema,
+        await responseCache.getOrLoad("/api/observations/batch", { ids }, () =>
+          fetchObservationsByIds(ids),
+        ),
+      );
+      if (!checked.ok) return checked.fallback;
+      return wrapSuccess(formatObservations(checked.data.observations));
     } catch (error) {
       return wrapError(error);
     }
@@ -9,7 +9,7 @@
  *      ↓ Gap A — claude-mem PostToolUse hook not running
  *   claude-mem.db observations COUNT(*)
  *      ↓ Gap B — sync poller behind / circuit open
- *   ~/.memforge/.sync-watermark.json lastObservationId
+ *   ~/.memforge/sync-watermarks.json lastObservationId (this target)
  *      ↓ Gap C — server reject / quota exceeded / network
  *   server quota.observations.used
  */
@@ -17,6 +17,9 @@
 import { existsSync, readFileSync, readdirSync, statSync } from "fs";
 import { join } from "path";
 import { Database } from "bun:sqlite";
+import { readWatermarkFile } from "../../sync/watermark";
+import { highWaterId } from "../../sync/db-identity";
+import { describeSchema, detectSchema } from "../../sync/claude-mem-schema";
 
 const SECONDS_PER_HOUR = 3600;
 const GAP_A_RATIO_THRESHOLD = 5; // captured << activity → partial hook failure
@@ -29,12 +32,21 @@ export interface SyncStatsInput {
   failedCount: number;
   pendingCount: number;
   circuitState: CircuitState;
+  /** Last claude-mem.db reset the poller detected */
+  lastDbReset?: DbReset | null;
+}
+
+export interface DbReset {
+  at: string;
+  reason: string;
 }
 
 export interface PipelineHealthInputs {
   transcriptsDir: string;
   dbPath: string;
   watermarkPath: string;
+  /** Target key inside a v2 watermark file (see sync/watermark.ts) */
+  watermarkKey?: string | null;
   windowHours: number;
   syncStats: SyncStatsInput;
   serverLifetimeUsed?: number | null;
@@ -46,12 +58,20 @@ export interface ActivityLayer {
   error?: string;
 }
 
+export interface SchemaReport {
+  /** describeSchema() line — migration, column layout, extras */
+  summary: string;
+  /** Why sync cannot read claude-mem.db; empty when supported */
+  problems: string[];
+}
+
 export interface CapturedLayer {
   obsCount: number;
   latestObsId: number;
   windowHours: number;
   dbPath: string;
   dbExists: boolean;
+  schema?: SchemaReport;
   error?: string;
 }
 
@@ -70,6 +90,7 @@ export interface SyncHealth {
   failedCount: number;
   pendingCount: number;
   circuitState: CircuitState;
+  lastDbReset?: DbReset | null;
 }
 
 export interface Gap {
@@ -149,7 +170,12 @@ function countTranscriptsInWindow(
 
 type DbResult =
   | { kind: "missing" }
-  | { kind: "ok"; obsCount: number; latestObsId: number }
+  | {
+      kind: "ok";
+      obsCount: number;
+      latestObsId: number;
+      schema: SchemaReport;
+    }
   | { kind: "error"; message: string };
 
 function queryClaudeMemStats(dbPath: string, windowSeconds: number): DbResult {
@@ -159,6 +185,11 @@ function queryClaudeMemStats(dbPath: string, windowSeconds: number): DbResult {
   try {
     db = new Database(dbPath, { readonly: true });
     const cutoffEpoch = Math.floor(Date.now() / 1000) - windowSeconds;
+    const detected = detectSchema(db);
+    const schema = {
+      summary: describeSchema(detected),
+      problems: detected.problems,
+    };
 
     const countRow = db
       .query(
@@ -166,14 +197,11 @@ function queryClaudeMemStats(dbPath: string, windowSeconds: number): DbResult {
       )
       .get(cutoffEpoch) as { c: number } | null;
 
-    const maxRow = db.query("SELECT MAX(id) as m FROM observations").get() as {
-      m: number | null;
-    } | null;
-
     return {
       kind: "ok",
       obsCount: countRow?.c ?? 0,
-      latestObsId: maxRow?.m ?? 0,
+      latestObsId: highWaterId(db, "observations"),
+      schema,
     };
   } catch (e) {
     return { kind: "error", message: errorMessage(e) };
@@ -193,12 +221,37 @@ type WatermarkResult =
   | { kind: "ok"; lastObsId: number }
   | { kind: "error"; message: string };
 
-function readWatermark(path: string): WatermarkResult {
+/**
+ * Read the sync cursor. v2 files hold one cursor per target — pick `key`,
+ * or the only target when no key is given. v1 files hold a single cursor.
+ */
+function readWatermark(path: string, key?: string | null): WatermarkResult {
   if (!existsSync(path)) return { kind: "missing" };
   try {
     const raw = readFileSync(path, "utf-8");
-    const parsed = JSON.parse(raw) as { lastObservationId?: number };
-    return { kind: "ok", lastObsId: parsed.lastObservationId ?? 0 };
+    const parsed = JSON.parse(raw) as {
+      version?: number;
+      lastObservationId?: number;
+    };
+    if (parsed.version === undefined) {
+      return { kind: "ok", lastObsId: parsed.lastObservationId ?? 0 };
+    }
+
+    const result = readWatermarkFile(path);
+    if (result.kind !== "ok") {
+      return result.kind === "missing"
+        ? result
+        : { kind: "error", message: result.message };
+    }
+    const entries = Object.entries(result.file.targets);
+    const entry = key
+      ? result.file.targets[key]
+      : entries.length === 1
+        ? entries[0][1]
+        : undefined;
+    return entry
+      ? { kind: "ok", lastObsId: entry.lastObservationId }
+      : { kind: "missing" };
   } catch (e) {
     return { kind: "error", message: errorMessage(e) };
   }
@@ -250,7 +303,22 @@ function detectGapA(
   return null;
 }
 
-function detectGapB(syncCursor: SyncCursorLayer, sync: SyncHealth): Gap | null {
+function detectGapB(
+  captured: CapturedLayer,
+  syncCursor: SyncCursorLayer,
+  sync: SyncHealth,
+  windowHours: number,
+): Gap | null {
+  const problems = captured.schema?.problems ?? [];
+  if (problems.length > 0) {
+    return {
+      layer: "B",
+      severity: "critical",
+      message: `claude-mem schema not supported: ${problems.join("; ")}`,
+      hint: "Sync is stopped for this database. Update memforge-client to a release that knows this claude-mem version.",
+    };
+  }
+
   if (sync.circuitState === "open") {
     return {
       layer: "B",
@@ -260,6 +328,32 @@ function detectGapB(syncCursor: SyncCursorLayer, sync: SyncHealth): Gap | null {
     };
   }
 
+  if (
+    captured.dbExists &&
+    !captured.error &&
+    syncCursor.lastObsId > captured.latestObsId
+  ) {
+    return {
+      layer: "B",
+      severity: "warning",
+      message: `Sync cursor obs #${syncCursor.lastObsId} is ahead of claude-mem.db (latest id=${captured.latestObsId}) — database reset?`,
+      hint: "The sync poller re-baselines on its next poll. If this persists, check that sync is running (Sync line above).",
+    };
+  }
+
+  const reset = sync.lastDbReset;
+  if (
+    reset &&
+    Date.now() - Date.parse(reset.at) < windowHours * SECONDS_PER_HOUR * 1000
+  ) {
+    return {
+      layer: "B",
+      severity: "warning",
+      message: `claude-mem.db reset detected at ${reset.at}: ${reset.reason}`,
+      hint: "Sync cursor was re-baselined to 0 and the new database is being synced from the start. Server copies of the old database's observations are kept.",
+    };
+  }
+
   if (syncCursor.unsyncedCount > GAP_B_LAG_THRESHOLD) {
     return {
       layer: "B",
@@ -313,6 +407,7 @@ function buildCapturedLayer(
       windowHours,
       dbPath,
       dbExists: true,
+      schema: result.schema,
     };
   }
   if (result.kind === "missing") {
@@ -370,7 +465,7 @@ export async function computePipelineHealth(
     windowSeconds,
   );
   const dbStats = queryClaudeMemStats(inputs.dbPath, windowSeconds);
-  const watermark = readWatermark(inputs.watermarkPath);
+  const watermark = readWatermark(inputs.watermarkPath, inputs.watermarkKey);
 
   const activity = buildActivityLayer(transcripts, inputs.windowHours);
   const captured = buildCapturedLayer(
@@ -386,12 +481,13 @@ export async function computePipelineHealth(
     failedCount: inputs.syncStats.failedCount,
     pendingCount: inputs.syncStats.pendingCount,
     circuitState: inputs.syncStats.circuitState,
+    lastDbReset: inputs.syncStats.lastDbReset ?? null,
   };
 
   const gaps: Gap[] = [];
   const gapA = detectGapA(activity, captured);
   if (gapA) gaps.push(gapA);
-  const gapB = detectGapB(syncCursor, sync);
+  const gapB = detectGapB(captured, syncCursor, sync, inputs.windowHours);
   if (gapB) gaps.push(gapB);
   const gapC = detectGapC(sync);
   if (gapC) gaps.push(gapC);
@@ -445,6 +541,12 @@ export function renderPipelineHealth(health: PipelineHealth): string[] {
     lines.push(`**Captured:** query failed (${inlineCode(captured.dbPath)})`);
     lines.push(`   _note: ${inlineCode(captured.error!)}_`);
   }
+  if (captured.schema) {
+    const supported = captured.schema.problems.length === 0;
+    lines.push(
+      `**Schema:** ${supported ? "supported" : "NOT supported"} — ${inlineCode(captured.schema.summary)}`,
+    );
+  }
 
   if (syncCursor.watermarkExists && !syncCursor.error) {
     lines.push(
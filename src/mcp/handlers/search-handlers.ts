@@ -4,8 +4,16 @@
  * Handlers for search-related MCP tools.
  */
 
-import type { ToolDefinition, ToolResponse, SearchResponse } from "../types";
+import { z } from "zod";
+import type { ToolDefinition, ToolResponse } from "../types";
 import { callRemoteAPI, getTier, wrapError, wrapSuccess } from "../api-client";
+import { responseCache } from "../response-cache";
+import { resolveEndpoint } from "../transport";
+import {
+  checkResponse,
+  maybe,
+  SearchResponseSchema,
+} from "../response-schemas";
 
 /** Informational note if search mode may be tier-restricted. */
 function tierSearchNote(mode: string): string {
@@ -22,7 +30,7 @@ import {
 } from "../formatters";
 
 /**
- * Call search API and format results.
+ * Call search API (through the response cache) and format results.
  *
  * @param endpoint - API endpoint to call
  * @param params - Query parameters
@@ -33,7 +41,15 @@ async function callSearchAPI(
   params: Record<string, unknown>,
 ): Promise<ToolResponse> {
   try {
-    const data = (await callRemoteAPI(endpoint, params)) as SearchResponse;
+    const checked = checkResponse(
+      `GET ${resolveEndpoint(endpoint)}`,
+      SearchResponseSchema,
+      await responseCache.getOrLoad(endpoint, params, () =>
+        callRemoteAPI(endpoint, params),
+      ),
+    );
+    if (!checked.ok) return checked.fallback;
+    const data = checked.data;
     const offset =
       typeof params.offset === "number" ? params.offset : undefined;
 
@@ -374,6 +390,50 @@ export const memSearch: ToolDefinition = {
   },
 };
 
+/** Response shape from GET /api/search/temporal */
+interface TemporalSearchResponse {
+  results: Array<{
+    id: number;
+    title: string;
+    type: string;
+    narrative?: string;
+    created_at: string;
+  }>;
+  temporal?: {
+    resolved?: {
+      dateStart?: string;
+      dateEnd?: string;
+    };
+    source?: string;
+  };
+  result_count: number;
+}
+
+const TemporalSearchResponseSchema: z.ZodType<TemporalSearchResponse> =
+  z.looseObject({
+    results: z.array(
+      z.looseObject({
+        id: z.number(),
+        title: z.string(),
+        type: z.string(),
+        narrative: maybe(z.string()),
+        created_at: z.string(),
+      }),
+    ),
+    temporal: maybe(
+      z.looseObject({
+        resolved: maybe(
+          z.looseObject({
+            dateStart: maybe(z.string()),
+            dateEnd: maybe(z.string()),
+          }),
+        ),
+        source: maybe(z.string()),
+      }),
+    ),
+    result_count: z.number(),
+  });
+
 /** mem_temporal_query tool definition */
 export const memTemporalQuery: ToolDefinition = {
   name: "mem_temporal_query",
@@ -430,23 +490,13 @@ export const memTemporalQuery: ToolDefinition = {
       if (args.during) params.during = args.during;
       if (args.tz) params.tz = args.tz;
 
-      const data = (await callRemoteAPI("/api/search/temporal", params)) as {
-        results: Array<{
-          id: number;
-          title: string;
-          type: string;
-          narrative?: string;
-          created_at: string;
-        }>;
-        temporal?: {
-          resolved?: {
-            dateStart?: string;
-            dateEnd?: string;
-          };
-          source?: string;
-        };
-        result_count: number;
-      };
+      const checked = checkResponse(
+        "GET /api/search/temporal",
+        TemporalSearchResponseSchema,
+        await callRemoteAPI("/api/search/temporal", params),
+      );
+      if (!checked.ok) return checked.fallback;
+      const data = checked.data;
 
       if (!data.results || data.results.length === 0) {
         const resolved = data.temporal?.resolved;
@@ -7,8 +7,11 @@
  * start of the next one.
  */
 
+import { z } from "zod";
 import type { ToolDefinition } from "../types";
 import { callRemoteAPI, postRemoteAPI, wrapError, wrapSuccess } from "../api-client";
+import { redactPayload } from "../../privacy/redaction";
+import { checkResponse, maybe } from "../response-schemas";
 
 /** Response shape from POST /api/v1/handoff */
 interface HandoffCreateResponse {
@@ -51,6 +54,39 @@ export interface ResumeResponse {
   guidance?: string;
 }
 
+const HandoffCreateResponseSchema: z.ZodType<HandoffCreateResponse> = z.looseObject({
+  id: z.number(),
+  project: maybe(z.string()),
+  created_at: maybe(z.string()),
+});
+
+const HandoffRecordSchema: z.ZodType<HandoffRecord> = z.looseObject({
+  id: z.number(),
+  project: z.string(),
+  next_steps: maybe(z.array(z.string())),
+  context: maybe(z.string()),
+  open_loops: maybe(z.array(z.string())),
+  agent_id: maybe(z.string()),
+  agent_type: maybe(z.string()),
+  created_at: maybe(z.string()),
+});
+
+const ResumeResponseSchema: z.ZodType<ResumeResponse> = z.looseObject({
+  latest_handoff: HandoffRecordSchema.nullable(),
+  prior_handoffs: z.array(HandoffRecordSchema),
+  latest_retrospective: z
+    .looseObject({
+      id: maybe(z.number()),
+      title: maybe(z.string()),
+      narrative: maybe(z.string()),
+      created_at: maybe(z.string()),
+    })
+    .nullable(),
+  open_loops: z.array(z.string()),
+  empty: z.boolean(),
+  guidance: maybe(z.string()),
+});
+
 /** Truncate long text for compact rendering, appending an ellipsis marker */
 function excerpt(text: string, maxLen = 500): string {
   return text.length > maxLen ? `${text.slice(0, maxLen)}...` : text;
@@ -114,10 +150,13 @@ export const memHandoff: ToolDefinition = {
     }
 
     try {
-      const data = (await postRemoteAPI(
-        "/api/v1/handoff",
-        args,
-      )) as HandoffCreateResponse;
+      const checked = checkResponse(
+        "POST /api/v1/handoff",
+        HandoffCreateResponseSchema,
+        await postRemoteAPI("/api/v1/handoff", redactPayload("mem_handoff", args)),
+      );
+      if (!checked.ok) return checked.fallback;
+      const data = checked.data;
 
       const openLoops = args.open_loops as string[] | undefined;
       return wrapSuccess(
@@ -252,12 +291,13 @@ export const memResume: ToolDefinition = {
         : 3;
 
     try {
-      const data = (await callRemoteAPI("/api/v1/resume", {
-        project,
-        limit,
-      })) as ResumeResponse;
-
-      return wrapSuccess(formatResume(project, data));
+      const checked = checkResponse(
+        "GET /api/v1/resume",
+        ResumeResponseSchema,
+        await callRemoteAPI("/api/v1/resume", { project, limit }),
+      );
+      if (!checked.ok) return checked.fallback;
+      return wrapSuccess(formatResume(project, checked.data));
     } catch (error) {
       return wrapError(error);
     }
@@ -4,6 +4,7 @@
  * 5 tools for discovering, retrieving, and creating reusable skill patterns.
  */
 
+import { z } from "zod";
 import type { ToolDefinition } from "../types";
 import {
   callRemoteAPI,
@@ -11,6 +12,7 @@ import {
   wrapError,
   wrapSuccess,
 } from "../api-client";
+import { checkResponse, maybe } from "../response-schemas";
 
 interface SkillResponse {
   skills: Array<{
@@ -63,6 +65,135 @@ interface SingleSkillResponse {
   updated_at?: string;
 }
 
+/** Response shape from GET /api/skills/:id/related */
+interface RelatedSkillsResponse {
+  id: number;
+  related: Array<{
+    id: number;
+    title: string;
+    category?: string;
+    relation: string;
+    score?: number;
+    distance: number;
+  }>;
+}
+
+/** Response shape from POST /api/skills/extract */
+interface SkillExtractResponse {
+  skill_id: number;
+  title: string;
+  steps_count: number;
+  source_count: number;
+}
+
+/** Response shape from GET /api/skills/catalog */
+interface SkillCatalogResponse {
+  skills: Array<{
+    skill_observation_id: number;
+    owner_schema: string;
+    title?: string;
+    category?: string;
+    tags?: string[];
+    avg_rating?: number;
+    rating_count?: number;
+    fork_count?: number;
+  }>;
+  total: number;
+}
+
+const skillMetadataShape = {
+  version: z.string(),
+  category: z.string(),
+  tags: z.array(z.string()),
+  steps: z.array(z.string()),
+  prerequisites: maybe(z.array(z.string())),
+  estimated_tokens: maybe(z.number()),
+  source_type: z.string(),
+};
+
+const SkillResponseSchema: z.ZodType<SkillResponse> = z.looseObject({
+  skills: z.array(
+    z.looseObject({
+      id: z.number(),
+      title: z.string(),
+      narrative: z.string(),
+      metadata: z.looseObject(skillMetadataShape),
+      importance_score: maybe(z.number()),
+      created_at: z.string(),
+    }),
+  ),
+  total: z.number(),
+});
+
+const SingleSkillResponseSchema: z.ZodType<SingleSkillResponse> = z.looseObject(
+  {
+    id: z.number(),
+    title: z.string(),
+    narrative: z.string(),
+    metadata: z.looseObject({
+      ...skillMetadataShape,
+      source_ids: maybe(z.array(z.number())),
+      input_schema: maybe(z.record(z.string(), z.unknown())),
+      output_schema: maybe(z.record(z.string(), z.unknown())),
+      evaluation: maybe(
+        z.looseObject({
+          safety: z.number(),
+          completeness: z.number(),
+          executability: z.number(),
+          maintainability: z.number(),
+          cost_awareness: z.number(),
+          overall: z.number(),
+          method: z.string(),
+        }),
+      ),
+    }),
+    project: maybe(z.string()),
+    importance_score: maybe(z.number()),
+    created_at: z.string(),
+    updated_at: maybe(z.string()),
+  },
+);
+
+const RelatedSkillsResponseSchema: z.ZodType<RelatedSkillsResponse> =
+  z.looseObject({
+    id: z.number(),
+    related: z.array(
+      z.looseObject({
+        id: z.number(),
+        title: z.string(),
+        category: maybe(z.string()),
+        relation: z.string(),
+        score: maybe(z.number()),
+        distance: z.number(),
+      }),
+    ),
+  });
+
+const SkillExtractResponseSchema: z.ZodType<SkillExtractResponse> =
+  z.looseObject({
+    skill_id: z.number(),
+    title: z.string(),
+    steps_count: z.number(),
+    source_count: z.number(),
+  });
+
+const SkillCatalogResponseSchema: z.ZodType<SkillCatalogResponse> =
+  z.looseObject({
+    skills: z.array(
+      z.looseObject({
+        skill_observation_id: z.number(),
+        owner_schema: z.string(),
+        title: maybe(z.string()),
+        category: maybe(z.string()),
+        tags: maybe(z.array(z.string())),
+        avg_rating: maybe(z.number()),
+        rating_count: maybe(z.number()),
+        fork_count: maybe(z.number()),
+      }),
+    ),
+    total: z.number(),
+  });
+
 /** Format a skill as markdown */
 function formatSkill(s: SingleSkillResponse, index?: number): string {
   const prefix = index !== undefined ? `### ${index + 1}. ` : "## ";
@@ -138,10 +269,13 @@ export const memSkillSearch: ToolDefinition = {
       if (args.category) params.category = args.category;
       if (args.tags) params.tags = args.tags;
 
-      const data = (await callRemoteAPI(
-        "/api/skills",
-        params,
-      )) as SkillResponse;
+      const checked = checkResponse(
+        "GET /api/skills",
+        SkillResponseSchema,
+        await callRemoteAPI("/api/skills", params),
+      );
+      if (!checked.ok) return checked.fallback;
+      const data = checked.data;
 
       if (!data.skills || data.skills.length === 0) {
         return wrapSuccess(
@@ -181,16 +315,21 @@ export const memSkillGet: ToolDefinition = {
   },
   handler: async (args) => {
     try {
-      const data = (await callRemoteAPI(
-        `/api/skills/${args.id}`,
-        {},
-      )) as SingleSkillResponse;
+      const raw = (await callRemoteAPI(`/api/skills/${args.id}`, {})) as {
+        id?: unknown;
+      } | null;
 
-      if (!data || !data.id) {
+      if (!raw || !raw.id) {
         return wrapSuccess(`Skill #${args.id} not found.`);
       }
 
-      return wrapSuccess(formatSkill(data));
+      const checked = checkResponse(
+        "GET /api/skills/:id",
+        SingleSkillResponseSchema,
+        raw,
+      );
+      if (!checked.ok) return checked.fallback;
+      return wrapSuccess(formatSkill(checked.data));
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
       if (msg.includes("404"))
@@ -227,20 +366,16 @@ export const memSkillRelated: ToolDefinition = {
   },
   handler: async (args) => {
     try {
-      const data = (await callRemoteAPI(`/api/skills/${args.id}/related`, {
-        depth: args.depth ?? 2,
-        limit: args.limit ?? 10,
-      })) as {
-        id: number;
-        related: Array<{
-          id: number;
-          title: string;
-          category: string;
-          relation: string;
-          score?: number;
-          distance: number;
-        }>;
-      };
+      const checked = checkResponse(
+        "GET /api/skills/:id/related",
+        RelatedSkillsResponseSchema,
+        await callRemoteAPI(`/api/skills/${args.id}/related`, {
+          depth: args.depth ?? 2,
+          limit: args.limit ?? 10,
+        }),
+      );
+      if (!checked.ok) return checked.fallback;
+      const data = checked.data;
 
       if (!data.related || data.related.length === 0) {
         return wrapSuccess(
@@ -308,12 +443,13 @@ export const memSkillCreate: ToolDefinition = {
       if (args.observation_ids) body.observation_ids = args.observation_ids;
       if (args.project) body.project = args.project;
 
-      const data = (await postRemoteAPI("/api/skills/extract", body)) as {
-        skill_id: number;
-        title: string;
-        steps_count: number;
-        source_count: number;
-      };
+      const checked = checkResponse(
+        "POST /api/skills/extract",
+        SkillExtractResponseSchema,
+        await postRemoteAPI("/api/skills/extract", body),
+      );
+      if (!checked.ok) return checked.fallback;
+      const data = checked.data;
 
       return wrapSuccess(
         `Skill extracted successfully!\n\n` +
@@ -361,19 +497,13 @@ export const memSkillDiscover: ToolDefinition = {
       if (args.query) params.q = args.query;
       if (args.category) params.category = args.category;
 
-      const data = (await callRemoteAPI("/api/skills/catalog", params)) as {
-        skills: Array<{
-          skill_observation_id: number;
-          owner_schema: string;
-          title: string;
-          category: string;
-          tags: string[];
-          avg_rating: number;
-          rating_count: number;
-          fork_count: number;
-        }>;
-        total: number;
-      };
+      const checked = checkResponse(
+        "GET /api/skills/catalog",
+        SkillCatalogResponseSchema,
+        await callRemoteAPI("/api/skills/catalog", params),
+      );
+      if (!checked.ok) return checked.fallback;
+      const data = checked.data;
 
       if (!data.skills || data.skills.length === 0) {
         return wrapSuccess(
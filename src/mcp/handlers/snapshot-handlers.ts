@@ -4,9 +4,22 @@
  * Handlers for memory snapshot MCP tools (time-travel debugging).
  */
 
-import type { ToolDefinition, SnapshotCreateResponse, SnapshotListResponse, SnapshotRestoreResponse } from '../types';
-import { postRemoteAPI, deleteRemoteAPI, getRemoteUrl, getApiKey, wrapError, wrapSuccess } from '../api-client';
+import { z } from 'zod';
+import type { ToolDefinition } from '../types';
+import { callRemoteAPI, postRemoteAPI, deleteRemoteAPI, wrapError, wrapSuccess } from '../api-client';
 import { formatSnapshotCreate, formatSnapshotList, formatSnapshotRestore, formatSnapshotDelete } from '../formatters';
+import { checkResponse, SnapshotCreateResponseSchema, SnapshotListResponseSchema, SnapshotRestoreResponseSchema } from '../response-schemas';
+
+/** Response shape from DELETE /api/snapshots/:id */
+interface SnapshotDeleteResponse {
+  snapshot_name: string;
+  snapshot_id: number;
+}
+
+const SnapshotDeleteResponseSchema: z.ZodType<SnapshotDeleteResponse> = z.looseObject({
+  snapshot_name: z.string(),
+  snapshot_id: z.number(),
+});
 
 /** mem_snapshot_create tool definition */
 export const memSnapshotCreate: ToolDefinition = {
@@ -28,12 +41,13 @@ export const memSnapshotCreate: ToolDefinition = {
   },
   handler: async (args) => {
     try {
-      const data = await postRemoteAPI('/api/snapshots', {
+      const checked = checkResponse('POST /api/snapshots', SnapshotCreateResponseSchema, await postRemoteAPI('/api/snapshots', {
         snapshot_name: args.snapshot_name,
         description: args.description,
-      }) as SnapshotCreateResponse;
+      }));
+      if (!checked.ok) return checked.fallback;
 
-      return wrapSuccess(formatSnapshotCreate(data));
+      return wrapSuccess(formatSnapshotCreate(checked.data));
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       if (message.toLowerCase().includes('too many observations') || message.toLowerCase().includes('too large')) {
@@ -67,20 +81,12 @@ export const memSnapshotList: ToolDefinition = {
   },
   handler: async (args) => {
     try {
-      const params = new URLSearchParams();
-      params.append('limit', String(args.limit || 20));
-      if (args.include_deleted) params.append('include_deleted', 'true');
-
-      const response = await fetch(`${getRemoteUrl()}/api/snapshots?${params}`, {
-        headers: { 'X-API-Key': getApiKey() },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Remote API error (${response.status})`);
-      }
-
-      const data = await response.json() as SnapshotListResponse;
-      return wrapSuccess(formatSnapshotList(data));
+      const checked = checkResponse('GET /api/snapshots', SnapshotListResponseSchema, await callRemoteAPI('/api/snapshots', {
+        limit: args.limit || 20,
+        include_deleted: args.include_deleted ? 'true' : undefined,
+      }));
+      if (!checked.ok) return checked.fallback;
+      return wrapSuccess(formatSnapshotList(checked.data));
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return wrapError(new Error(`Error listing snapshots: ${message}`));
@@ -114,12 +120,13 @@ export const memSnapshotRestore: ToolDefinition = {
     }
 
     try {
-      const data = await postRemoteAPI(
+      const checked = checkResponse('POST /api/snapshots/:id/restore', SnapshotRestoreResponseSchema, await postRemoteAPI(
         `/api/snapshots/${args.snapshot_id}/restore`,
         { confirm: true }
-      ) as SnapshotRestoreResponse;
+      ));
+      if (!checked.ok) return checked.fallback;
 
-      return wrapSuccess(formatSnapshotRestore(data));
+      return wrapSuccess(formatSnapshotRestore(checked.data));
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return wrapError(new Error(`Error restoring snapshot: ${message}`));
@@ -143,10 +150,9 @@ export const memSnapshotDelete: ToolDefinition = {
   },
   handler: async (args) => {
     try {
-      const data = await deleteRemoteAPI(`/api/snapshots/${args.snapshot_id}`) as {
-        snapshot_name: string;
-        snapshot_id: number;
-      };
+      const checked = checkResponse('DELETE /api/snapshots/:id', SnapshotDeleteResponseSchema, await deleteRemoteAPI(`/api/snapshots/${args.snapshot_id}`));
+      if (!checked.ok) return checked.fallback;
+      const data = checked.data;
 
       return wrapSuccess(formatSnapshotDelete(data.snapshot_name, data.snapshot_id));
     } catch (error) {
@@ -15,10 +15,30 @@ import {
   getRole,
   getTier,
   getQuota,
+  getPluginConfig,
   fetchAndCacheTier,
+  sendRemote,
   wrapSuccess,
 } from "../api-client";
-import { syncPoller } from "../mcp-server";
+import { transport } from "../transport";
+import { responseCache } from "../response-cache";
+import { getSchemaDrift } from "../response-schemas";
+import {
+  describeNetwork,
+  getNetworkSettings,
+  isCertificateError,
+} from "../network";
+import { diagnoseTls, renderTlsDiagnosis } from "../tls-diagnosis";
+import { syncLeader, syncPoller } from "../mcp-server";
+import type { SyncStats } from "../../sync/sync-poller";
+import { getRedactor } from "../../privacy/redaction";
+import { getPrivacyPolicy } from "../../privacy/field-privacy";
+import { getFieldCipher } from "../../privacy/field-encryption";
+import { WATERMARK_PATH } from "../../sync/watermark";
+import { getSyncBackfill } from "../../sync/backfill";
+import { getDeviceId } from "../../sync/device-identity";
+import { outbox } from "../../sync/outbox";
+import { formatBackfillProgress } from "./sync-handlers";
 import {
   computePipelineHealth,
   renderPipelineHealth,
@@ -27,8 +47,8 @@ import {
 
 const TRANSCRIPTS_DIR = join(homedir(), ".claude", "projects");
 const CLAUDE_MEM_DB = join(homedir(), ".claude-mem", "claude-mem.db");
-const SYNC_WATERMARK = join(homedir(), ".memforge", ".sync-watermark.json");
 const PIPELINE_WINDOW_HOURS = 24;
+const BACKFILL_SHOW_MS = 24 * 60 * 60 * 1000; // finished jobs stay visible 24h
 
 const ZERO_SYNC_STATS: SyncStatsInput = {
   syncedCount: 0,
@@ -37,6 +57,163 @@ const ZERO_SYNC_STATS: SyncStatsInput = {
   circuitState: "closed",
 };
 
+/**
+ * Render sync counters (this process's poller, or the leader's snapshot)
+ * and return the pipeline-health input derived from them.
+ */
+function appendSyncStats(
+  lines: string[],
+  label: string,
+  stats: SyncStats,
+): SyncStatsInput {
+  lines.push(
+    `${label} ${stats.syncedCount} synced, ${stats.failedCount} failed, pending: ${stats.pendingCount}, dead-letter: ${stats.deadLetterCount}, batch size: ${stats.batchSize}`,
+  );
+  lines.push(
+    `   observations: ${stats.observations.synced} synced, ${stats.observations.failed} failed, ${stats.observations.pending} pending | ` +
+      `summaries: ${stats.summaries.synced} synced, ${stats.summaries.failed} failed, ${stats.summaries.pending} pending`,
+  );
+  // Absent in snapshots from a leader that predates session sync
+  if (stats.sessions && stats.prompts) {
+    lines.push(
+      `   sessions: ${stats.sessions.synced} synced, ${stats.sessions.failed} failed, ${stats.sessions.pending} pending | ` +
+        `prompts: ${stats.prompts.synced} synced, ${stats.prompts.failed} failed, ${stats.prompts.pending} pending`,
+    );
+  }
+  if (stats.watching) {
+    lines.push(
+      "   mode: watching claude-mem.db for changes (timer polling as safety net)",
+    );
+  }
+  if (stats.parkedCount > 0) {
+    lines.push(
+      `   parked: ${stats.parkedCount} row(s) waiting for their session to sync`,
+    );
+  }
+  if (stats.quotaRemaining != null) {
+    lines.push(
+      `   priority sync: ${stats.quotaRemaining} observation(s) of quota left — pushing highest-value first, ${stats.heldCount} held`,
+    );
+  } else if (stats.heldCount > 0) {
+    lines.push(
+      `   held: ${stats.heldCount} observation(s) from priority sync, releasing`,
+    );
+  }
+  if (stats.updatedCount > 0 || stats.deletedCount > 0) {
+    lines.push(
+      `   changes: ${stats.updatedCount} edited row(s) re-pushed, ${stats.deletedCount} deleted observation(s) archived`,
+    );
+  }
+  if (stats.filteredCount > 0) {
+    const rules = Object.entries(stats.filteredByRule)
+      .map(([rule, count]) => `${rule} ×${count}`)
+      .join(", ");
+    lines.push(
+      `   filtered: ${stats.filteredCount} row(s) not synced by syncProjects rules (${rules})`,
+    );
+  }
+  if (stats.deadLetterCount > 0) {
+    lines.push(
+      `> ${stats.deadLetterCount} item(s) gave up after max retries — inspect with \`mem_sync_failures\`.`,
+    );
+  }
+  if (stats.dbResetCount > 0 && stats.lastDbReset) {
+    lines.push(
+      `   db resets: ${stats.dbResetCount} (last ${stats.lastDbReset.at}: ${stats.lastDbReset.reason})`,
+    );
+  }
+  if (stats.circuitState !== "closed") {
+    lines.push(`**Circuit:** ${stats.circuitState}`);
+  }
+  // Absent in snapshots from a leader that predates sync pauses
+  if (stats.paused) {
+    const seconds = Math.max(
+      0,
+      Math.ceil((Date.parse(stats.paused.until) - Date.now()) / 1000),
+    );
+    const wait =
+      seconds >= 120 ? `${Math.ceil(seconds / 60)} min` : `${seconds}s`;
+    lines.push(
+      `**Sync paused:** ${stats.paused.detail} — resumes at ${stats.paused.until} (in ${wait})`,
+    );
+  }
+  return {
+    syncedCount: stats.syncedCount,
+    failedCount: stats.failedCount,
+    pendingCount: stats.pendingCount,
+    circuitState: stats.circuitState,
+    lastDbReset: stats.lastDbReset ?? null,
+  };
+}
+
+/**
+ * Render this process's request telemetry and any server circuit that is
+ * not closed.
+ */
+function appendTransportStats(lines: string[]): void {
+  const stats = transport.getStats();
+  for (const [origin, circuit] of Object.entries(stats.circuits)) {
+    if (circuit.state !== "closed") {
+      lines.push(
+        `**Server circuit:** ${circuit.state} for ${origin} (${circuit.consecutiveFailures} consecutive failures)`,
+      );
+    }
+  }
+  const endpoints = Object.entries(stats.endpoints);
+  if (endpoints.length === 0) return;
+  lines.push("");
+  lines.push("### Requests (this process)");
+  for (const [key, endpoint] of endpoints.sort(
+    (a, b) => b[1].requests - a[1].requests,
+  )) {
+    const avg = Math.round(endpoint.totalMs / endpoint.requests);
+    const last =
+      endpoint.failures > 0 && endpoint.lastError
+        ? ` — last error: ${endpoint.lastError.slice(0, 120)}`
+        : "";
+    lines.push(
+      `- \`${key}\`: ${endpoint.requests} request(s), ${endpoint.failures} failed, ${endpoint.retries} retried, avg ${avg}ms${last}`,
+    );
+  }
+}
+
+function appendCacheStats(lines: string[]): void {
+  const stats = responseCache.getStats();
+  const endpoints = Object.entries(stats.endpoints);
+  if (endpoints.length === 0) return;
+  let hits = 0;
+  let lookups = 0;
+  lines.push("");
+  lines.push("### Response cache (this process)");
+  for (const [endpoint, { hits: h, misses }] of endpoints) {
+    hits += h;
+    lookups += h + misses;
+    lines.push(
+      `- \`${endpoint}\`: ${h}/${h + misses} hit(s) (${Math.round((h / (h + misses)) * 100)}%)`,
+    );
+  }
+  lines.push(
+    `**Overall:** ${Math.round((hits / lookups) * 100)}% hit rate, ${stats.entries} cached, ${stats.invalidated} invalidated by changes`,
+  );
+}
+
+function appendSchemaDrift(lines: string[]): void {
+  const drift = Object.entries(getSchemaDrift());
+  if (drift.length === 0) return;
+  lines.push("");
+  lines.push("### Response schema drift (this process)");
+  for (const [endpoint, entry] of drift.sort(
+    (a, b) => b[1].count - a[1].count,
+  )) {
+    lines.push(
+      `- \`${endpoint}\`: ${entry.count} response(s) shown unformatted — last: ${entry.lastIssue}`,
+    );
+  }
+  lines.push(
+    "> The server's response shape differs from what this client expects — update memforge-client.",
+  );
+}
+
 async function appendPipelineHealth(
   lines: string[],
   syncStats: SyncStatsInput,
@@ -46,7 +223,8 @@ async function appendPipelineHealth(
     const health = await computePipelineHealth({
       transcriptsDir: TRANSCRIPTS_DIR,
       dbPath: CLAUDE_MEM_DB,
-      watermarkPath: SYNC_WATERMARK,
+      watermarkPath: WATERMARK_PATH,
+      watermarkKey: syncPoller?.getWatermarkKey() ?? null,
       windowHours: PIPELINE_WINDOW_HOURS,
       syncStats,
       serverLifetimeUsed: quota?.observations.used ?? null,
@@ -89,6 +267,13 @@ export const memStatus: ToolDefinition = {
     lines.push(`**Tier:** ${tier || "unknown (legacy key)"}`);
     lines.push(`**API Key:** ${maskKey(getApiKey())}`);
     lines.push(`**Server:** ${getRemoteUrl()}`);
+    lines.push(`**Device:** ${getDeviceId()}`);
+    const network = getNetworkSettings();
+    const networkSummary = describeNetwork(network);
+    if (networkSummary) lines.push(`**Network:** ${networkSummary}`);
+    for (const problem of network.problems) {
+      lines.push(`> **Network config:** ${problem}`);
+    }
     lines.push("");
 
     if (!isRemoteEnabled()) {
@@ -101,16 +286,13 @@ export const memStatus: ToolDefinition = {
       return wrapSuccess(lines.join("\n"));
     }
 
-    // Connectivity check
-    const serverUrl = getRemoteUrl();
-    const apiKey = getApiKey();
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
-
+    // Connectivity check — probes go out even while the circuit is open
     try {
       const start = Date.now();
-      const healthResponse = await fetch(`${serverUrl}/health`, {
-        signal: controller.signal,
+      const healthResponse = await sendRemote({
+        endpoint: "/health",
+        auth: false,
+        probe: true,
       });
       const latency = Date.now() - start;
 
@@ -126,25 +308,29 @@ export const memStatus: ToolDefinition = {
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       lines.push(`**Connectivity:** Failed - ${message}`);
+      // Show the chain this machine is given and why it does not verify
+      const serverUrl = getRemoteUrl();
+      if (
+        serverUrl.startsWith("https:") &&
+        (isCertificateError(error) || /tls|ssl|handshake/i.test(message))
+      ) {
+        lines.push(
+          ...renderTlsDiagnosis(await diagnoseTls(serverUrl, network)),
+        );
+      }
       lines.push("");
       lines.push("Check your network or server URL.");
-      clearTimeout(timeoutId);
       return wrapSuccess(lines.join("\n"));
-    } finally {
-      clearTimeout(timeoutId);
     }
 
     // Refresh tier + quota from server
     await fetchAndCacheTier();
 
     // Auth + quota check via /api/auth/me
-    const authController = new AbortController();
-    const authTimeoutId = setTimeout(() => authController.abort(), 10000);
-
     try {
-      const authResponse = await fetch(`${serverUrl}/api/auth/me`, {
-        headers: { "X-API-Key": apiKey },
-        signal: authController.signal,
+      const authResponse = await sendRemote({
+        endpoint: "/api/auth/me",
+        probe: true,
       });
 
       if (authResponse.ok) {
@@ -204,33 +390,90 @@ export const memStatus: ToolDefinition = {
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       lines.push(`**Auth:** Check failed - ${message}`);
-    } finally {
-      clearTimeout(authTimeoutId);
     }
 
     // Sync stats — capture for pipeline-health input regardless of branch
     lines.push("");
     let pipelineSyncStats: SyncStatsInput = ZERO_SYNC_STATS;
+    const leader =
+      syncLeader && !syncLeader.isLeader() ? syncLeader.getLeader() : null;
     if (syncPoller?.isActive()) {
-      const stats = syncPoller.getStats();
+      pipelineSyncStats = appendSyncStats(
+        lines,
+        "**Sync:**",
+        syncPoller.getStats(),
+      );
+    } else if (leader) {
+      // Follower: another MCP server process holds the sync lease
+      const age = Math.max(
+        0,
+        Math.round((Date.now() - Date.parse(leader.heartbeatAt)) / 1000),
+      );
       lines.push(
-        `**Sync:** ${stats.syncedCount} synced, ${stats.failedCount} failed, pending: ${stats.pendingCount}`,
+        `**Sync:** follower — leader is PID ${leader.pid} (heartbeat ${age}s ago)`,
       );
-      if (stats.circuitState !== "closed") {
-        lines.push(`**Circuit:** ${stats.circuitState}`);
+      if (leader.stats) {
+        pipelineSyncStats = appendSyncStats(
+          lines,
+          "**Leader sync:**",
+          leader.stats,
+        );
       }
-      pipelineSyncStats = {
-        syncedCount: stats.syncedCount,
-        failedCount: stats.failedCount,
-        pendingCount: stats.pendingCount,
-        circuitState: stats.circuitState,
-      };
     } else if (syncPoller) {
       lines.push("**Sync:** starting...");
     } else {
       lines.push("**Sync:** not running");
     }
 
+    // Backfill (mem_sync_backfill / `bun run sync -- backfill`), any process
+    const backfill = getSyncBackfill().getProgress();
+    if (
+      backfill &&
+      (backfill.state === "running" ||
+        Date.now() - Date.parse(backfill.updatedAt) < BACKFILL_SHOW_MS)
+    ) {
+      lines.push(`**Backfill:** ${formatBackfillProgress(backfill)}`);
+    }
+
+    // Secret redaction applies to sync pushes, mem_ingest and mem_handoff
+    const redactor = getRedactor();
+    lines.push(
+      redactor.isEnabled()
+        ? `**Redaction:** on (${redactor.getMaskedCount()} value(s) masked this session` +
+            (redactor.getMaskedCount() > 0
+              ? ` — see ${redactor.getReportPath()})`
+              : ")")
+        : "**Redaction:** off (redaction.enabled = false in config)",
+    );
+    const privacy = getPrivacyPolicy();
+    if (privacy.isActive()) {
+      lines.push(`**Privacy:** ${privacy.describe().join(", ")}`);
+    }
+    if (getPluginConfig()?.syncEncryption) {
+      const keyId = getFieldCipher().activeKeyId();
+      lines.push(
+        keyId
+          ? `**Encryption:** on (observation narrative/text/facts, key ${keyId})`
+          : "**Encryption:** on but no key — observations are held (run `bun run setup encryption generate`)",
+      );
+    }
+
+    // Export mode writes pushes to the outbox; show what is waiting there
+    const box = outbox.summary();
+    if (getPluginConfig()?.syncMode === "export") {
+      lines.push(
+        `**Sync mode:** export — ${box.entries} request(s) in ${box.files} file(s) at ${outbox.getDir()}, nothing sent`,
+      );
+    } else if (box.entries > 0) {
+      lines.push(
+        `**Outbox:** ${box.entries} exported request(s) not yet sent — run \`bun run sync -- import-outbox\``,
+      );
+    }
+
+    appendTransportStats(lines);
+    appendCacheStats(lines);
+    appendSchemaDrift(lines);
+
     // Pipeline Health — runs unconditionally so Gap A (claude-mem.db missing)
     // is visible even when poller is inactive. See handlers/pipeline-health.ts.
     await appendPipelineHealth(lines, pipelineSyncStats);
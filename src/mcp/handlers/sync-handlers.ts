@@ -0,0 +1,385 @@
+/**
+ * Sync Tool Handlers
+ *
+ * mem_sync_failures tool for inspecting the sync dead-letter store —
+ * sessions, prompts, observations and summaries that exhausted their
+ * retries — and
+ * retrying or discarding them one at a time or in bulk.
+ *
+ * mem_sync_backfill tool for re-pushing an ID range, date range or project
+ * from claude-mem.db (dry-run plan, start, status, cancel).
+ */
+
+import type { ToolDefinition } from "../types";
+import { wrapError, wrapSuccess } from "../api-client";
+import { remoteSync } from "../../sync/remote-sync";
+import type { DeadLetterItem, SyncItemKind } from "../../sync/pending-queue";
+import {
+  describeFilter,
+  describePlan,
+  getSyncBackfill,
+  planTotal,
+  type BackfillFilter,
+  type BackfillPlan,
+  type BackfillProgress,
+} from "../../sync/backfill";
+
+const MAX_PAYLOAD_CHARS = 4000;
+
+/** Display title of a dead-letter payload, by kind */
+function deadLetterTitle(item: DeadLetterItem): string {
+  switch (item.kind) {
+    case "session":
+      return (item.payload.project as string | null) || "(no project)";
+    case "prompt":
+      return (
+        ((item.payload.prompt_text as string | null) || "").slice(0, 80) ||
+        "(empty prompt)"
+      );
+    case "summary":
+      return (item.payload.request as string | null) || "(no request)";
+    case "observation":
+      return (item.payload.title as string | null) || "(untitled)";
+  }
+}
+
+/** One-line summary of a dead-letter item for list output */
+function formatDeadLetterLine(item: DeadLetterItem): string {
+  const title = deadLetterTitle(item);
+  const status =
+    item.lastStatus !== null ? `HTTP ${item.lastStatus}` : "no response";
+  const error = item.lastError
+    ? ` — ${item.lastError.replace(/[\r\n]+/g, " ")}`
+    : "";
+  const when = item.retiredAt
+    ? `Retired: ${item.retiredAt} (claude-mem.db reset, not retried)`
+    : `Failed: ${item.failedAt}`;
+  return (
+    `- **${item.kind} #${item.id}** ${title}\n` +
+    `   ${when} after ${item.retryCount} attempt(s) | ${status}${error}`
+  );
+}
+
+/**
+ * Format dead-letter items as a markdown list.
+ */
+export function formatDeadLetters(
+  items: DeadLetterItem[],
+  total: number,
+): string {
+  if (items.length === 0) {
+    return "No sync failures — the dead-letter store is empty.";
+  }
+
+  const shown = items.length < total ? ` (showing ${items.length})` : "";
+  return (
+    `## Sync Failures: ${total}${shown}\n\n` +
+    items.map(formatDeadLetterLine).join("\n") +
+    '\n\nUse `mem_sync_failures(action: "show", id: N)` to see a payload, ' +
+    "or `retry` / `discard` with an `id` or `all: true`."
+  );
+}
+
+/**
+ * Format a single dead-letter item with its full payload.
+ */
+export function formatDeadLetterDetail(item: DeadLetterItem): string {
+  let payload = JSON.stringify(item.payload, null, 2);
+  if (payload.length > MAX_PAYLOAD_CHARS) {
+    payload = `${payload.slice(0, MAX_PAYLOAD_CHARS)}\n... (truncated)`;
+  }
+  return (
+    `## Sync Failure: ${item.kind} #${item.id}\n\n` +
+    `**Queued:** ${item.addedAt}\n` +
+    (item.retiredAt
+      ? `**Retired:** ${item.retiredAt} (claude-mem.db reset — not retried)\n`
+      : `**Dead-lettered:** ${item.failedAt}\n`) +
+    `**Attempts:** ${item.retryCount}\n` +
+    `**Last status:** ${item.lastStatus ?? "no response"}\n` +
+    `**Last error:** ${item.lastError ?? "—"}\n\n` +
+    "```json\n" +
+    payload +
+    "\n```"
+  );
+}
+
+/** mem_sync_failures tool definition */
+export const memSyncFailures: ToolDefinition = {
+  name: "mem_sync_failures",
+  description:
+    "Inspect sessions, prompts, observations and summaries that failed to sync after all retries (dead-letter store). " +
+    "Actions: list (default), show (payload + last error), retry (requeue for the sync poller), discard. " +
+    "retry/discard take an id or all: true. Use mem_status FIRST to see the dead-letter count.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["list", "show", "retry", "discard"],
+        description: "list | show | retry | discard (default: list)",
+      },
+      id: {
+        type: "number",
+        description:
+          "Local claude-mem row ID (required for show; retry/discard one item)",
+      },
+      kind: {
+        type: "string",
+        enum: ["observation", "summary", "session", "prompt"],
+        description: "Which table the id refers to (default: observation)",
+      },
+      all: {
+        type: "boolean",
+        description: "Apply retry/discard to every dead-letter item",
+      },
+      limit: {
+        type: "number",
+        description: "Max items to list (default: 50)",
+      },
+    },
+  },
+  handler: async (args) => {
+    try {
+      const action = (args.action as string | undefined) ?? "list";
+      const id = args.id as number | undefined;
+      const kind = (args.kind as SyncItemKind | undefined) ?? "observation";
+
+      if (action === "list") {
+        const items = remoteSync.listDeadLetters(
+          (args.limit as number | undefined) ?? 50,
+        );
+        return wrapSuccess(
+          formatDeadLetters(items, remoteSync.getDeadLetterCount()),
+        );
+      }
+
+      if (action === "show") {
+        if (id === undefined) {
+          return wrapError(new Error("id is required for action 'show'."));
+        }
+        const item = remoteSync.getDeadLetter(kind, id);
+        if (!item) {
+          return wrapSuccess(`No sync failure recorded for ${kind} #${id}.`);
+        }
+        return wrapSuccess(formatDeadLetterDetail(item));
+      }
+
+      if (id === undefined && args.all !== true) {
+        return wrapError(
+          new Error(`Specify id or all: true for action '${action}'.`),
+        );
+      }
+      const target =
+        args.all === true || id === undefined ? undefined : { kind, id };
+
+      if (action === "retry") {
+        const count = remoteSync.retryDeadLetter(target);
+        if (count === 0 && target !== undefined) {
+          const item = remoteSync.getDeadLetter(target.kind, target.id);
+          if (item?.retiredAt) {
+            return wrapSuccess(
+              `${target.kind} #${target.id} was queued before claude-mem.db was reset and cannot be retried — its ID may now belong to another row. Use \`discard\` to remove it.`,
+            );
+          }
+        }
+        if (count === 0) {
+          return wrapSuccess(
+            target === undefined
+              ? "No sync failures to retry."
+              : `No sync failure recorded for ${target.kind} #${target.id}.`,
+          );
+        }
+        return wrapSuccess(
+          `Requeued ${count} item(s) with a fresh retry budget — the sync poller retries them on its next cycle.`,
+        );
+      }
+
+      const count = remoteSync.discardDeadLetter(target);
+      if (count === 0) {
+        return wrapSuccess(
+          target === undefined
+            ? "No sync failures to discard."
+            : `No sync failure recorded for ${target.kind} #${target.id}.`,
+        );
+      }
+      return wrapSuccess(
+        `Discarded ${count} item(s) from the dead-letter store.`,
+      );
+    } catch (error) {
+      return wrapError(error);
+    }
+  },
+};
+
+/** "~2m 05s" style duration */
+function formatEta(seconds: number): string {
+  if (seconds < 60) return `~${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `~${minutes}m ${String(seconds % 60).padStart(2, "0")}s`;
+  }
+  return `~${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+/**
+ * Format a backfill dry-run as markdown.
+ */
+export function formatBackfillPlan(
+  plan: BackfillPlan,
+  filter: BackfillFilter,
+): string {
+  const total = planTotal(plan);
+  const excluded =
+    plan.excluded > 0
+      ? `\n${plan.excluded} matching row(s) are excluded by syncProjects rules and will not be pushed.`
+      : "";
+  const orphans =
+    plan.orphans > 0
+      ? `\n${plan.orphans} matching row(s) have no session in claude-mem.db and will be skipped.`
+      : "";
+  return (
+    `## Backfill Plan (dry run)\n\n` +
+    `**Filter:** ${describeFilter(filter)}\n` +
+    `**Would push:** ${describePlan(plan)} — ${total} row(s)` +
+    excluded +
+    orphans +
+    (total > 0
+      ? '\n\nRun again with `action: "start"` and the same filter to push them.'
+      : "")
+  );
+}
+
+/**
+ * One-line backfill status, e.g. for mem_status.
+ */
+export function formatBackfillProgress(progress: BackfillProgress): string {
+  const counts = `${progress.pushed}/${progress.total} pushed, ${progress.failed} failed (queued for retry), ${progress.remaining} remaining`;
+  const filter = describeFilter(progress.filter);
+  if (progress.state === "running") {
+    const eta =
+      progress.etaSeconds !== null
+        ? `, ETA ${formatEta(progress.etaSeconds)}`
+        : "";
+    const cancelling = progress.cancelRequested ? " (cancelling)" : "";
+    return `running${cancelling} — ${counts}${eta} [${filter}]`;
+  }
+  const error = progress.error ? `: ${progress.error}` : "";
+  return `${progress.state}${error} at ${progress.finishedAt ?? progress.updatedAt} — ${counts} [${filter}]`;
+}
+
+/** mem_sync_backfill tool definition */
+export const memSyncBackfill: ToolDefinition = {
+  name: "mem_sync_backfill",
+  description:
+    "Re-push existing claude-mem sessions/prompts/observations/summaries to the server without resetting the sync watermark. " +
+    "Filter by ID range, date range (YYYY-MM-DD) and/or project. " +
+    "Actions: plan (default, dry-run count), start (run in the background), status, cancel. " +
+    "Always run plan first; progress also shows in mem_status.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["plan", "start", "status", "cancel"],
+        description: "plan | start | status | cancel (default: plan)",
+      },
+      kind: {
+        type: "string",
+        enum: ["session", "prompt", "observation", "summary", "all"],
+        description: "Which rows to push (default: all)",
+      },
+      from_id: {
+        type: "number",
+        description: "First local row ID (inclusive)",
+      },
+      to_id: {
+        type: "number",
+        description: "Last local row ID (inclusive)",
+      },
+      since: {
+        type: "string",
+        description:
+          "Only rows created on or after this date (YYYY-MM-DD, UTC)",
+      },
+      until: {
+        type: "string",
+        description:
+          "Only rows created on or before this date (YYYY-MM-DD, UTC)",
+      },
+      project: {
+        type: "string",
+        description: "Only rows from this project",
+      },
+    },
+  },
+  handler: async (args) => {
+    try {
+      const action = (args.action as string | undefined) ?? "plan";
+      const backfill = getSyncBackfill();
+
+      if (action === "status") {
+        const progress = backfill.getProgress();
+        return wrapSuccess(
+          progress
+            ? `**Backfill:** ${formatBackfillProgress(progress)}`
+            : "No backfill has run yet.",
+        );
+      }
+
+      if (action === "cancel") {
+        return wrapSuccess(
+          backfill.cancel()
+            ? "Cancel requested — the backfill stops after its current batch."
+            : "No backfill is running.",
+        );
+      }
+
+      const filter: BackfillFilter = {
+        kind: (args.kind as BackfillFilter["kind"]) ?? "all",
+        fromId: args.from_id as number | undefined,
+        toId: args.to_id as number | undefined,
+        since: args.since as string | undefined,
+        until: args.until as string | undefined,
+        project: args.project as string | undefined,
+      };
+      const plan = backfill.plan(filter);
+      if (action === "plan") {
+        return wrapSuccess(formatBackfillPlan(plan, filter));
+      }
+
+      if (!remoteSync.isConfigured()) {
+        return wrapError(
+          new Error("Sync is not configured — set syncEnabled in config.json."),
+        );
+      }
+      const active = backfill.getProgress();
+      if (active?.state === "running") {
+        return wrapError(
+          new Error(
+            `A backfill is already running: ${formatBackfillProgress(active)}`,
+          ),
+        );
+      }
+      const total = planTotal(plan);
+      if (total === 0) {
+        return wrapSuccess("Nothing to backfill — no rows match the filter.");
+      }
+
+      void backfill.run(filter).catch((error) => {
+        console.error("[Backfill] Failed:", error);
+      });
+      return wrapSuccess(
+        `Backfill started: ${total} row(s) (${describeFilter(filter)}). ` +
+          'Track it with `mem_status` or `mem_sync_backfill(action: "status")`; stop it with `action: "cancel"`.',
+      );
+    } catch (error) {
+      return wrapError(error);
+    }
+  },
+};
+
+/** All sync handlers */
+export const syncHandlers: ToolDefinition[] = [
+  memSyncFailures,
+  memSyncBackfill,
+];
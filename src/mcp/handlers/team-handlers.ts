@@ -5,8 +5,10 @@
  * observations from team members across projects.
  */
 
+import { z } from "zod";
 import type { ToolDefinition } from "../types";
 import { callRemoteAPI, wrapError, wrapSuccess } from "../api-client";
+import { checkResponse } from "../response-schemas";
 
 interface TeamKnowledgeResponse {
   team_id: number;
@@ -25,6 +27,26 @@ interface TeamKnowledgeResponse {
   query: string | null;
 }
 
+const TeamKnowledgeResponseSchema: z.ZodType<TeamKnowledgeResponse> =
+  z.looseObject({
+    team_id: z.number(),
+    observations: z.array(
+      z.looseObject({
+        id: z.number(),
+        title: z.string().nullable(),
+        narrative: z.string().nullable(),
+        type: z.string().nullable(),
+        project: z.string().nullable(),
+        created_at: z.string().nullable(),
+        owner_user: z.string(),
+        owner_schema: z.string(),
+        permission: z.string(),
+      }),
+    ),
+    total: z.number(),
+    query: z.string().nullable(),
+  });
+
 /** mem_team_knowledge tool definition */
 export const memTeamKnowledge: ToolDefinition = {
   name: "mem_team_knowledge",
@@ -61,10 +83,13 @@ export const memTeamKnowledge: ToolDefinition = {
       if (query) params.q = query;
       if (limit) params.limit = limit;
 
-      const data = (await callRemoteAPI(
-        `/api/teams/${teamId}/knowledge`,
-        params,
-      )) as TeamKnowledgeResponse;
+      const checked = checkResponse(
+        "GET /api/teams/:id/knowledge",
+        TeamKnowledgeResponseSchema,
+        await callRemoteAPI(`/api/teams/${teamId}/knowledge`, params),
+      );
+      if (!checked.ok) return checked.fallback;
+      const data = checked.data;
 
       if (!data.observations || data.observations.length === 0) {
         const msg = query
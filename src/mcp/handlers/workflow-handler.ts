@@ -4,8 +4,33 @@
  * mem_workflow_suggest tool for discovering recurring workflow patterns.
  */
 
+import { z } from "zod";
 import type { ToolDefinition } from "../types";
 import { callRemoteAPI, wrapError, wrapSuccess } from "../api-client";
+import { checkResponse } from "../response-schemas";
+
+/** Response shape from GET /api/workflows */
+interface WorkflowsResponse {
+  workflows: Array<{
+    name: string;
+    trigger_pattern: string;
+    steps: string[];
+    success_rate: number;
+    invocation_count: number;
+  }>;
+}
+
+const WorkflowsResponseSchema: z.ZodType<WorkflowsResponse> = z.looseObject({
+  workflows: z.array(
+    z.looseObject({
+      name: z.string(),
+      trigger_pattern: z.string(),
+      steps: z.array(z.string()),
+      success_rate: z.number(),
+      invocation_count: z.number(),
+    }),
+  ),
+});
 
 /** mem_workflow_suggest tool definition */
 export const memWorkflowSuggest: ToolDefinition = {
@@ -31,18 +56,16 @@ export const memWorkflowSuggest: ToolDefinition = {
   },
   handler: async (args) => {
     try {
-      const data = (await callRemoteAPI("/api/workflows", {
-        q: args.query || "",
-        limit: args.limit || 5,
-      })) as {
-        workflows: Array<{
-          name: string;
-          trigger_pattern: string;
-          steps: string[];
-          success_rate: number;
-          invocation_count: number;
-        }>;
-      };
+      const checked = checkResponse(
+        "GET /api/workflows",
+        WorkflowsResponseSchema,
+        await callRemoteAPI("/api/workflows", {
+          q: args.query || "",
+          limit: args.limit || 5,
+        }),
+      );
+      if (!checked.ok) return checked.fallback;
+      const data = checked.data;
 
       if (!data.workflows || data.workflows.length === 0) {
         return wrapSuccess(
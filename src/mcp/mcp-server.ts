@@ -34,8 +34,10 @@ import {
 } from "./api-client";
 import { getAllTools } from "./handlers";
 import { validateToolInput } from "./validation";
-import { auditLog } from "./audit-logger";
+import { auditLog, collectIdempotencyKeys } from "./audit-logger";
+import { CACHE_STAMP_PATH, responseCache } from "./response-cache";
 import { SyncPoller } from "../sync/sync-poller";
+import { SyncLeader } from "../sync/sync-leader";
 import { createSyncLogger } from "../sync/sync-logger";
 import pkg from "../../package.json";
 
@@ -104,13 +106,30 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     };
   }
 
+  const idempotencyKeys: string[] = [];
   try {
-    const result = await tool.handler(validatedArgs);
-    auditLog(request.params.name, rawArgs, Date.now() - start, true);
+    const result = await collectIdempotencyKeys(idempotencyKeys, () =>
+      tool.handler(validatedArgs),
+    );
+    auditLog(
+      request.params.name,
+      rawArgs,
+      Date.now() - start,
+      true,
+      undefined,
+      idempotencyKeys,
+    );
     return result;
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    auditLog(request.params.name, rawArgs, Date.now() - start, false, message);
+    auditLog(
+      request.params.name,
+      rawArgs,
+      Date.now() - start,
+      false,
+      message,
+      idempotencyKeys,
+    );
     return {
       content: [
         { type: "text" as const, text: `Tool execution failed: ${message}` },
@@ -124,6 +143,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 // Exported for status-handler to read sync stats
 export let syncPoller: SyncPoller | null = null;
 
+// Leader election — only the leader's poller runs; exported so
+// status-handler can report the leader when this process is a follower
+export let syncLeader: SyncLeader | null = null;
+
 async function initSync(): Promise<void> {
   const configPath = resolveConfigPath();
   if (!configPath) return;
@@ -132,22 +155,32 @@ async function initSync(): Promise<void> {
     const config = JSON.parse(readFileSync(configPath, "utf-8"));
     if (!config.syncEnabled) return;
 
-    syncPoller = new SyncPoller({
+    const logger = createSyncLogger();
+    const poller = new SyncPoller({
       pollInterval: config.pollInterval || 2000,
-      logger: createSyncLogger(),
+      logger,
+    });
+    syncPoller = poller;
+    syncLeader = new SyncLeader({
+      logger,
+      onAcquire: () => poller.start(),
+      onRelease: () => poller.stop(),
+      getStats: () => (poller.isActive() ? poller.getStats() : null),
     });
-    await syncPoller.start();
+    await syncLeader.start();
   } catch (error) {
     console.error("[Sync] Failed to initialize:", error);
   }
 }
 
-// Graceful shutdown
-process.on("SIGTERM", () => syncPoller?.stop());
-process.on("SIGINT", () => syncPoller?.stop());
+// Graceful shutdown — releasing the lease lets a follower take over at once
+process.on("SIGTERM", () => syncLeader?.stop());
+process.on("SIGINT", () => syncLeader?.stop());
+process.on("exit", () => syncLeader?.stop());
 
 // Start the server
 async function main() {
+  responseCache.shareInvalidations(CACHE_STAMP_PATH);
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.log("MemForge Client MCP server started");
@@ -0,0 +1,254 @@
+/**
+ * Network Settings
+ *
+ * Proxy, CA and client-certificate settings the transport applies to every
+ * request, from ~/.memforge/config.json:
+ *
+ *   "proxyUrl": "http://proxy.corp.example:3128",
+ *   "caFile": "~/certs/corp-root.pem",
+ *   "clientCertFile": "~/certs/me.pem",
+ *   "clientKeyFile": "~/certs/me.key"
+ *
+ * - proxyUrl       defaults to HTTPS_PROXY / HTTP_PROXY (by the server's
+ *                  scheme); hosts matching NO_PROXY go direct
+ * - caFile         PEM bundle trusted in addition to the system CAs — the
+ *                  root of an HTTPS-intercepting proxy goes here
+ * - clientCert/KeyFile  PEM certificate and key for mutual TLS
+ *
+ * A file that cannot be read is reported (stderr and mem_status) and left
+ * out, so requests fail with the server's TLS error rather than silently.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { rootCertificates } from "tls";
+import { getPluginConfig } from "./api-client";
+
+/** Network fields of config.json */
+export interface NetworkConfig {
+  proxyUrl?: string;
+  caFile?: string;
+  clientCertFile?: string;
+  clientKeyFile?: string;
+}
+
+/** Resolved settings, files read */
+export interface NetworkSettings {
+  /** Proxy for every host not in noProxy (config, else environment) */
+  proxyUrl: string | null;
+  /** Where proxyUrl came from, for mem_status */
+  proxySource: "config" | "environment" | null;
+  /** HTTP(S)_PROXY by scheme, when not configured */
+  envProxies: { "http:": string | null; "https:": string | null };
+  noProxy: string[];
+  caFile: string | null;
+  /** PEM text of caFile */
+  extraCa: string | null;
+  clientCert: string | null;
+  clientKey: string | null;
+  /** Files that could not be read */
+  problems: string[];
+}
+
+/** The fetch options the transport adds for one request */
+export interface NetworkFetchOptions {
+  proxy?: string;
+  tls?: { ca?: string[]; cert?: string; key?: string };
+}
+
+/** Certificate verification failures — retrying cannot fix these */
+const CERTIFICATE_ERROR_CODES = new Set([
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+  "UNABLE_TO_GET_ISSUER_CERT",
+  "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "CERT_HAS_EXPIRED",
+  "CERT_NOT_YET_VALID",
+  "CERT_UNTRUSTED",
+  "CERT_REVOKED",
+  "CERT_SIGNATURE_FAILURE",
+  "HOSTNAME_MISMATCH",
+  "ERR_TLS_CERT_ALTNAME_INVALID",
+]);
+
+/**
+ * True for a failed certificate check (untrusted, expired or wrong-name
+ * certificate), as opposed to a dropped connection.
+ */
+export function isCertificateError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const code = (error as Error & { code?: unknown }).code;
+  if (typeof code === "string" && CERTIFICATE_ERROR_CODES.has(code)) {
+    return true;
+  }
+  const msg = error.message.toLowerCase();
+  return (
+    msg.includes("certificate") ||
+    msg.includes("self signed") ||
+    msg.includes("self-signed") ||
+    msg.includes("altnames")
+  );
+}
+
+function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/")
+    ? homedir() + path.slice(1)
+    : path;
+}
+
+function readPem(
+  path: string | undefined,
+  label: string,
+  problems: string[],
+): string | null {
+  if (!path) return null;
+  const file = expandHome(path);
+  try {
+    if (!existsSync(file)) throw new Error("not found");
+    const pem = readFileSync(file, "utf-8");
+    if (!pem.includes("-----BEGIN ")) throw new Error("not a PEM file");
+    return pem;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    problems.push(`${label} ${path}: ${message}`);
+    return null;
+  }
+}
+
+/**
+ * Resolve network settings from config and environment, reading the
+ * certificate files.
+ */
+export function loadNetworkSettings(
+  config: NetworkConfig = {},
+  env: Record<string, string | undefined> = process.env,
+): NetworkSettings {
+  const problems: string[] = [];
+  const envProxies = {
+    "http:": env.HTTP_PROXY || env.http_proxy || null,
+    "https:": env.HTTPS_PROXY || env.https_proxy || null,
+  };
+  const noProxy = (env.NO_PROXY || env.no_proxy || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry) => entry !== "");
+
+  const clientCert = readPem(config.clientCertFile, "clientCertFile", problems);
+  const clientKey = readPem(config.clientKeyFile, "clientKeyFile", problems);
+  if (!!config.clientCertFile !== !!config.clientKeyFile) {
+    problems.push(
+      "clientCertFile and clientKeyFile must be set together — mutual TLS is off",
+    );
+  }
+
+  return {
+    proxyUrl: config.proxyUrl || null,
+    proxySource: config.proxyUrl
+      ? "config"
+      : envProxies["https:"] || envProxies["http:"]
+        ? "environment"
+        : null,
+    envProxies,
+    noProxy,
+    caFile: config.caFile ?? null,
+    extraCa: readPem(config.caFile, "caFile", problems),
+    clientCert: clientCert && clientKey ? clientCert : null,
+    clientKey: clientCert && clientKey ? clientKey : null,
+    problems,
+  };
+}
+
+/** True if NO_PROXY sends this host direct */
+function bypassesProxy(hostname: string, noProxy: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  return noProxy.some((entry) => {
+    if (entry === "*") return true;
+    const domain = entry.replace(/:\d+$/, "").replace(/^\*?\./, "");
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Proxy to use for a URL, or null to connect directly.
+ */
+export function proxyFor(
+  settings: NetworkSettings,
+  url: string,
+): string | null {
+  const target = new URL(url);
+  if (bypassesProxy(target.hostname, settings.noProxy)) return null;
+  if (settings.proxyUrl) return settings.proxyUrl;
+  return settings.envProxies[target.protocol as "http:" | "https:"] ?? null;
+}
+
+/**
+ * Proxy and TLS options for one request. Extra CAs are added to the system
+ * roots, since a `ca` list replaces them.
+ */
+export function fetchOptionsFor(
+  settings: NetworkSettings,
+  url: string,
+): NetworkFetchOptions {
+  const options: NetworkFetchOptions = {};
+  const proxy = proxyFor(settings, url);
+  if (proxy) options.proxy = proxy;
+  if (settings.extraCa || settings.clientCert) {
+    options.tls = {};
+    if (settings.extraCa) {
+      options.tls.ca = [...rootCertificates, settings.extraCa];
+    }
+    if (settings.clientCert && settings.clientKey) {
+      options.tls.cert = settings.clientCert;
+      options.tls.key = settings.clientKey;
+    }
+  }
+  return options;
+}
+
+/**
+ * One-line summary of non-default settings for mem_status, or null.
+ */
+export function describeNetwork(settings: NetworkSettings): string | null {
+  const parts: string[] = [];
+  if (settings.proxyUrl || settings.proxySource === "environment") {
+    const proxy =
+      settings.proxyUrl ??
+      settings.envProxies["https:"] ??
+      settings.envProxies["http:"];
+    parts.push(`proxy ${redactProxy(proxy!)} (${settings.proxySource})`);
+    if (settings.noProxy.length > 0) {
+      parts.push(`NO_PROXY ${settings.noProxy.join(",")}`);
+    }
+  }
+  if (settings.extraCa) parts.push(`extra CA ${settings.caFile}`);
+  if (settings.clientCert) parts.push("client certificate (mutual TLS)");
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+/** Proxy URL without its password */
+export function redactProxy(proxy: string): string {
+  try {
+    const url = new URL(proxy);
+    if (url.password) url.password = "***";
+    return url.toString().replace(/\/$/, "");
+  } catch {
+    return proxy;
+  }
+}
+
+let shared: NetworkSettings | null = null;
+
+/**
+ * Proxy and CA settings from config.json, read once; unreadable certificate
+ * files are reported on stderr the first time.
+ */
+export function getNetworkSettings(): NetworkSettings {
+  if (!shared) {
+    shared = loadNetworkSettings(getPluginConfig() ?? {});
+    for (const problem of shared.problems) {
+      process.stderr.write(`[Network] ${problem}\n`);
+    }
+  }
+  return shared;
+}
@@ -0,0 +1,266 @@
+/**
+ * Response Cache
+ *
+ * The model often repeats a read — the same search, timeline or batch
+ * fetch — within a session, and each search pays the embedding round-trip
+ * on the server. Read tools keep successful responses here, keyed by
+ * endpoint and normalized params, for a per-endpoint TTL; past
+ * CACHE_MAX_ENTRIES the least recently used entry goes.
+ *
+ * Each entry remembers the observation IDs in its response:
+ * - a tool that changes an observation (mem_pin, mem_set_status, …) drops
+ *   the entries that reference it
+ * - anything that adds observations or changes which ones a search can
+ *   return (mem_ingest, mem_contradict, a status change, a sync push) also
+ *   drops every cached search and timeline, whose result sets it can change
+ *
+ * Each Claude Code window runs its own MCP server, and only the sync leader
+ * pushes. The MCP server shares invalidations through a stamp file
+ * (~/.memforge/response-cache.stamp): every invalidation rewrites it, and a
+ * process that finds it changed drops its whole cache before the next read.
+ */
+
+import { randomUUID } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+
+export const CACHE_STAMP_PATH = join(
+  homedir(),
+  ".memforge",
+  "response-cache.stamp",
+);
+const CACHE_MAX_ENTRIES = 200;
+
+interface EndpointPolicy {
+  ttlMs: number;
+  /** Results depend on which observations exist, not just on given IDs */
+  list: boolean;
+}
+
+/** Cached endpoints; anything else is always fetched */
+const ENDPOINT_POLICY: Record<string, EndpointPolicy> = {
+  "/hybrid": { ttlMs: 2 * 60_000, list: true },
+  "/vector": { ttlMs: 2 * 60_000, list: true },
+  "/search": { ttlMs: 2 * 60_000, list: true },
+  "/api/timeline": { ttlMs: 2 * 60_000, list: true },
+  "/api/observations/batch": { ttlMs: 5 * 60_000, list: false },
+};
+
+interface CacheEntry {
+  endpoint: string;
+  value: unknown;
+  expiresAt: number;
+  /** Observation IDs anywhere in the response */
+  ids: Set<number>;
+}
+
+export interface CacheEndpointStats {
+  hits: number;
+  misses: number;
+}
+
+export interface ResponseCacheStats {
+  endpoints: Record<string, CacheEndpointStats>;
+  entries: number;
+  /** Entries dropped because an observation changed */
+  invalidated: number;
+}
+
+export interface ResponseCacheOptions {
+  maxEntries?: number;
+  now?: () => number;
+}
+
+/**
+ * Cache key for a request: params without empty values, keys sorted, and
+ * numeric arrays (ID lists) sorted and de-duplicated.
+ */
+export function cacheKey(
+  endpoint: string,
+  params: Record<string, unknown>,
+): string {
+  const normalized = Object.keys(params)
+    .filter((key) => params[key] !== undefined && params[key] !== null)
+    .filter((key) => params[key] !== "")
+    .sort()
+    .map((key) => {
+      const value = params[key];
+      if (
+        Array.isArray(value) &&
+        value.every((item) => typeof item === "number")
+      ) {
+        return [key, [...new Set(value)].sort((a, b) => a - b)];
+      }
+      return [key, value];
+    });
+  return `${endpoint} ${JSON.stringify(normalized)}`;
+}
+
+/** Every numeric `id` in a response, at any depth */
+function referencedIds(value: unknown, ids = new Set<number>()): Set<number> {
+  if (Array.isArray(value)) {
+    for (const item of value) referencedIds(item, ids);
+  } else if (value && typeof value === "object") {
+    for (const [key, field] of Object.entries(value)) {
+      if (key === "id" && typeof field === "number") ids.add(field);
+      else if (field && typeof field === "object") referencedIds(field, ids);
+    }
+  }
+  return ids;
+}
+
+function readStamp(path: string): string | null {
+  try {
+    return readFileSync(path, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * In-process LRU cache for read-tool responses.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private stats = new Map<string, CacheEndpointStats>();
+  private invalidated = 0;
+  /** Bumped by every invalidation, so a load that overlapped one is not cached */
+  private generation = 0;
+  private maxEntries: number;
+  private now: () => number;
+  private stampPath: string | null = null;
+  private seenStamp: string | null = null;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? CACHE_MAX_ENTRIES;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Return the cached response for endpoint + params, or call `load` and
+   * cache what it returns. Errors are not cached, nor is a response that
+   * an invalidation may have made stale while it loaded.
+   */
+  async getOrLoad<T>(
+    endpoint: string,
+    params: Record<string, unknown>,
+    load: () => Promise<T>,
+  ): Promise<T> {
+    const policy = ENDPOINT_POLICY[endpoint];
+    if (!policy) return load();
+    this.followStamp();
+
+    const key = cacheKey(endpoint, params);
+    const stats = this.endpointStats(endpoint);
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > this.now()) {
+      // Re-insert so Map order stays least recently used first
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      stats.hits++;
+      return entry.value as T;
+    }
+
+    stats.misses++;
+    const generation = this.generation;
+    const value = await load();
+    if (generation !== this.generation) return value;
+    this.entries.delete(key);
+    this.entries.set(key, {
+      endpoint,
+      value,
+      expiresAt: this.now() + policy.ttlMs,
+      ids: referencedIds(value),
+    });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return value;
+  }
+
+  /**
+   * Drop entries whose response includes any of these observations.
+   */
+  invalidateObservations(ids: number[]): void {
+    this.dropWhere((entry) => ids.some((id) => entry.ids.has(id)));
+    this.publishStamp();
+  }
+
+  /**
+   * Drop cached searches and timelines — after observations are added, or
+   * a change that affects which ones a search returns.
+   */
+  invalidateLists(): void {
+    this.dropWhere((entry) => ENDPOINT_POLICY[entry.endpoint].list);
+    this.publishStamp();
+  }
+
+  clear(): void {
+    this.dropWhere(() => true);
+    this.publishStamp();
+  }
+
+  /**
+   * Share invalidations with other processes through a stamp file. Until
+   * this is called the cache only sees this process's own changes.
+   */
+  shareInvalidations(path: string): void {
+    this.stampPath = path;
+    this.seenStamp = readStamp(path);
+  }
+
+  getStats(): ResponseCacheStats {
+    return {
+      endpoints: Object.fromEntries(
+        [...this.stats].map(([endpoint, stats]) => [endpoint, { ...stats }]),
+      ),
+      entries: this.entries.size,
+      invalidated: this.invalidated,
+    };
+  }
+
+  /** Drop everything if another process invalidated since we last looked */
+  private followStamp(): void {
+    if (!this.stampPath) return;
+    const stamp = readStamp(this.stampPath);
+    if (stamp === this.seenStamp) return;
+    this.seenStamp = stamp;
+    this.dropWhere(() => true);
+  }
+
+  /** Tell other processes this one invalidated something */
+  private publishStamp(): void {
+    if (!this.stampPath) return;
+    const stamp = randomUUID();
+    try {
+      const dir = dirname(this.stampPath);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      writeFileSync(this.stampPath, stamp);
+      this.seenStamp = stamp;
+    } catch {
+      // Other processes fall back to their TTLs
+    }
+  }
+
+  private dropWhere(match: (entry: CacheEntry) => boolean): void {
+    this.generation++;
+    for (const [key, entry] of this.entries) {
+      if (!match(entry)) continue;
+      this.entries.delete(key);
+      if (entry.expiresAt > this.now()) this.invalidated++;
+    }
+  }
+
+  private endpointStats(endpoint: string): CacheEndpointStats {
+    let stats = this.stats.get(endpoint);
+    if (!stats) {
+      stats = { hits: 0, misses: 0 };
+      this.stats.set(endpoint, stats);
+    }
+    return stats;
+  }
+}
+
+// Singleton instance
+export const responseCache = new ResponseCache();
@@ -0,0 +1,239 @@
+/**
+ * Response Schemas
+ *
+ * Zod schemas for the server responses described in types.ts (handler-local
+ * response types keep their schemas next to their interfaces). Each schema
+ * is annotated with its interface, so the two cannot drift apart unnoticed.
+ *
+ * Handlers check a response before formatting it. A response that does not
+ * match is counted as schema drift for its endpoint (shown in mem_status),
+ * logged once per endpoint, and returned as raw JSON under a warning rather
+ * than formatted into `undefined`s or a crash.
+ *
+ * Objects are loose — fields the client does not know about are kept — and
+ * optional fields may also be null.
+ */
+
+import { z } from "zod";
+import { wrapSuccess } from "./api-client";
+import type {
+  EntityLookupResponse,
+  Observation,
+  SearchResponse,
+  SearchResult,
+  Snapshot,
+  SnapshotListResponse,
+  SnapshotRestoreResponse,
+  TimelineResponse,
+  ToolResponse,
+  Triplet,
+  TripletsQueryResponse,
+} from "./types";
+
+/** Optional field that the server may also send as null */
+export function maybe<T extends z.ZodType>(schema: T) {
+  return schema.nullish().transform((value) => value ?? undefined);
+}
+
+export const SearchResultSchema: z.ZodType<SearchResult> = z.looseObject({
+  id: z.number(),
+  title: maybe(z.string()),
+  subtitle: maybe(z.string()),
+  narrative: maybe(z.string()),
+  type: maybe(z.string()),
+  score: maybe(z.number()),
+  combined_score: maybe(z.number()),
+  vector_score: maybe(z.number()),
+  fts_score: maybe(z.number()),
+});
+
+export const SearchResponseSchema: z.ZodType<SearchResponse> = z.looseObject({
+  query: z.string(),
+  expanded_query: maybe(z.string()),
+  method: maybe(z.string()),
+  vector_weight: maybe(z.number()),
+  fts_weight: maybe(z.number()),
+  candidates_count: maybe(z.number()),
+  results_count: maybe(z.number()),
+  embeddings_count: maybe(z.number()),
+  duration_ms: maybe(z.number()),
+  results: maybe(z.array(SearchResultSchema)),
+});
+
+const TimelineItemSchema = z.looseObject({
+  id: z.number(),
+  title: maybe(z.string()),
+  type: maybe(z.string()),
+});
+
+export const TimelineResponseSchema: z.ZodType<TimelineResponse> =
+  z.looseObject({
+    anchor: maybe(
+      z.looseObject({
+        id: z.number(),
+        title: maybe(z.string()),
+        narrative: maybe(z.string()),
+        type: maybe(z.string()),
+      }),
+    ),
+    before: maybe(z.array(TimelineItemSchema)),
+    after: maybe(z.array(TimelineItemSchema)),
+  });
+
+export const ObservationSchema: z.ZodType<Observation> = z.looseObject({
+  id: z.number(),
+  title: maybe(z.string()),
+  subtitle: maybe(z.string()),
+  narrative: maybe(z.string()),
+  type: maybe(z.string()),
+  project: maybe(z.string()),
+  created_at: maybe(z.string()),
+  concepts: maybe(z.union([z.string(), z.array(z.string())])),
+});
+
+/** POST /api/observations/batch */
+export const ObservationBatchSchema: z.ZodType<{
+  observations: Observation[];
+}> = z.looseObject({ observations: z.array(ObservationSchema) });
+
+/**
+ * GET /api/observations (mem_semantic_recent). Servers have sent the list
+ * as `data` or as `observations`; either is accepted.
+ */
+export const RecentObservationsSchema: z.ZodType<Observation[]> = z
+  .union([
+    z.object({ data: z.array(ObservationSchema) }),
+    z.object({ observations: z.array(ObservationSchema) }),
+  ])
+  .transform((body) => ("data" in body ? body.data : body.observations));
+
+export const TripletSchema: z.ZodType<Triplet> = z.looseObject({
+  subject: maybe(z.string()),
+  predicate: maybe(z.string()),
+  object: maybe(z.string()),
+  observation_id: maybe(z.number()),
+  confidence: maybe(z.number()),
+});
+
+export const EntityLookupResponseSchema: z.ZodType<EntityLookupResponse> =
+  z.looseObject({
+    as_subject: maybe(z.array(TripletSchema)),
+    as_object: maybe(z.array(TripletSchema)),
+    related_observations: maybe(z.array(ObservationSchema)),
+    total_triplets: maybe(z.number()),
+  });
+
+export const TripletsQueryResponseSchema: z.ZodType<TripletsQueryResponse> =
+  z.looseObject({ triplets: maybe(z.array(TripletSchema)) });
+
+export const SnapshotSchema: z.ZodType<Snapshot> = z.looseObject({
+  id: z.number(),
+  snapshot_name: z.string(),
+  description: maybe(z.string()),
+  created_at: maybe(z.string()),
+  observation_count: maybe(z.number()),
+  embedding_count: maybe(z.number()),
+  session_count: maybe(z.number()),
+  triplet_count: maybe(z.number()),
+  file_size_bytes: maybe(z.number()),
+  compressed_size_bytes: maybe(z.number()),
+  compression_ratio: maybe(z.number()),
+  status: maybe(z.string()),
+  restoration_count: maybe(z.number()),
+  last_restored_at: maybe(z.string()),
+});
+
+/** SnapshotCreateResponse has exactly the Snapshot fields */
+export const SnapshotCreateResponseSchema = SnapshotSchema;
+
+export const SnapshotListResponseSchema: z.ZodType<SnapshotListResponse> =
+  z.looseObject({
+    total: z.number(),
+    snapshots: maybe(z.array(SnapshotSchema)),
+  });
+
+export const SnapshotRestoreResponseSchema: z.ZodType<SnapshotRestoreResponse> =
+  z.looseObject({
+    snapshot_name: z.string(),
+    snapshot_id: z.number(),
+    timestamp: z.string(),
+    duration_ms: z.number(),
+    restored: z.looseObject({
+      observations: maybe(z.number()),
+      embeddings: maybe(z.number()),
+      sessions: maybe(z.number()),
+      summaries: maybe(z.number()),
+      triplets: maybe(z.number()),
+    }),
+  });
+
+/** Mismatches seen for one endpoint */
+export interface SchemaDrift {
+  count: number;
+  /** First issue of the latest mismatch, e.g. "results.0.id: expected number" */
+  lastIssue: string;
+  lastAt: string;
+}
+
+export type CheckedResponse<T> =
+  { ok: true; data: T } | { ok: false; fallback: ToolResponse };
+
+const drift = new Map<string, SchemaDrift>();
+
+function describeIssues(error: z.ZodError): string {
+  const [first] = error.issues;
+  const path = first.path.length > 0 ? first.path.join(".") : "(root)";
+  const more = error.issues.length - 1;
+  return `${path}: ${first.message}${more > 0 ? ` (+${more} more)` : ""}`;
+}
+
+/**
+ * Check a response against its schema. On a mismatch, records drift for
+ * `endpoint` and returns a fallback tool response showing the raw JSON.
+ *
+ * @param endpoint - Method and path, IDs as `:id`, e.g. "GET /api/skills/:id"
+ */
+export function checkResponse<T>(
+  endpoint: string,
+  schema: z.ZodType<T>,
+  data: unknown,
+): CheckedResponse<T> {
+  const result = schema.safeParse(data);
+  if (result.success) return { ok: true, data: result.data };
+
+  const issue = describeIssues(result.error);
+  const entry = drift.get(endpoint);
+  if (entry) {
+    entry.count++;
+    entry.lastIssue = issue;
+    entry.lastAt = new Date().toISOString();
+  } else {
+    drift.set(endpoint, {
+      count: 1,
+      lastIssue: issue,
+      lastAt: new Date().toISOString(),
+    });
+    console.error(
+      `[Schema] ${endpoint} response does not match the expected shape: ${issue}`,
+    );
+  }
+
+  return {
+    ok: false,
+    fallback: wrapSuccess(
+      `> **Warning:** the server's \`${endpoint}\` response has an unexpected shape (${issue}). Showing it unformatted.\n\n` +
+        "```json\n" +
+        JSON.stringify(data, null, 2) +
+        "\n```",
+    ),
+  };
+}
+
+/**
+ * Schema drift per endpoint since the process started.
+ */
+export function getSchemaDrift(): Record<string, SchemaDrift> {
+  return Object.fromEntries(
+    [...drift].map(([endpoint, entry]) => [endpoint, { ...entry }]),
+  );
+}
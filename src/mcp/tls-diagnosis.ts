@@ -0,0 +1,311 @@
+/**
+ * TLS Diagnosis
+ *
+ * When mem_status cannot reach the server because of a TLS failure, it
+ * connects once more without verification — through the configured proxy,
+ * if any — and reports the certificate chain the client is actually shown,
+ * why it does not verify, and what to change. An HTTPS-intercepting proxy
+ * shows up as a chain issued by the company's own CA.
+ */
+
+import { connect as netConnect, type Socket } from "net";
+import {
+  checkServerIdentity,
+  connect as tlsConnect,
+  rootCertificates,
+  type DetailedPeerCertificate,
+  type TLSSocket,
+} from "tls";
+import { proxyFor, redactProxy, type NetworkSettings } from "./network";
+
+const DIAGNOSIS_TIMEOUT_MS = 10000;
+
+/** One certificate of the presented chain */
+export interface ChainCertificate {
+  subject: string;
+  issuer: string;
+  validFrom: string;
+  validTo: string;
+}
+
+export interface TlsDiagnosis {
+  /** "direct" or the proxy (password hidden) */
+  via: string;
+  /** The handshake completed (verification aside) */
+  connected: boolean;
+  /** Connection or handshake failure, when not connected */
+  connectError: string | null;
+  /** The chain verifies against the system CAs plus caFile */
+  trusted: boolean;
+  /** OpenSSL verification code, e.g. SELF_SIGNED_CERT_IN_CHAIN */
+  verifyError: string | null;
+  /** Certificate does not name the server's host */
+  hostnameError: string | null;
+  /** Leaf first */
+  chain: ChainCertificate[];
+  advice: string[];
+}
+
+function describeName(name: Record<string, unknown> | undefined): string {
+  if (!name) return "(unknown)";
+  const cn = name.CN ? String(name.CN) : null;
+  const org = name.O ? String(name.O) : null;
+  return [cn, org].filter(Boolean).join(", ") || "(unnamed)";
+}
+
+/** Leaf-first chain, stopping at a self-issued certificate */
+function chainOf(leaf: DetailedPeerCertificate): ChainCertificate[] {
+  const chain: ChainCertificate[] = [];
+  const seen = new Set<string>();
+  let cert: DetailedPeerCertificate | undefined = leaf;
+  while (cert && cert.subject && !seen.has(cert.fingerprint256)) {
+    seen.add(cert.fingerprint256);
+    chain.push({
+      subject: describeName(cert.subject as unknown as Record<string, unknown>),
+      issuer: describeName(cert.issuer as unknown as Record<string, unknown>),
+      validFrom: cert.valid_from,
+      validTo: cert.valid_to,
+    });
+    cert = cert.issuerCertificate;
+  }
+  return chain;
+}
+
+/**
+ * What to do about a verification result. Exported for tests.
+ */
+export function adviceFor(
+  diagnosis: Omit<TlsDiagnosis, "advice">,
+  settings: NetworkSettings,
+  now: number = Date.now(),
+): string[] {
+  const advice: string[] = [];
+  if (!diagnosis.connected) {
+    const error = diagnosis.connectError ?? "";
+    if (/handshake|alert|certificate required/i.test(error)) {
+      advice.push(
+        settings.clientCert
+          ? "The server or proxy rejected the handshake — check that clientCertFile/clientKeyFile are the certificate it expects."
+          : "The server or proxy rejected the handshake — it may require a client certificate (set clientCertFile and clientKeyFile).",
+      );
+    } else if (/proxy/i.test(error)) {
+      advice.push(
+        "The proxy refused the tunnel — check proxyUrl (or HTTPS_PROXY) and its credentials.",
+      );
+    } else {
+      advice.push(
+        "No TLS connection could be made — check the server URL, proxy and network.",
+      );
+    }
+    return advice;
+  }
+
+  const top = diagnosis.chain[diagnosis.chain.length - 1];
+  switch (diagnosis.verifyError) {
+    case null:
+      break;
+    case "CERT_HAS_EXPIRED":
+    case "CERT_NOT_YET_VALID": {
+      const leaf = diagnosis.chain[0];
+      advice.push(
+        `A certificate is outside its validity period${leaf ? ` (leaf valid ${leaf.validFrom} – ${leaf.validTo})` : ""}. Check this machine's clock; if it is right, the server's certificate needs renewing.`,
+      );
+      break;
+    }
+    default:
+      advice.push(
+        `The chain ends at "${top?.issuer ?? "an unknown issuer"}", which this machine does not trust.` +
+          (settings.extraCa
+            ? ` caFile (${settings.caFile}) does not contain it.`
+            : " If that is your company's HTTPS-inspecting proxy, save its root certificate as PEM and set caFile in ~/.memforge/config.json."),
+      );
+  }
+  if (diagnosis.hostnameError) {
+    advice.push(
+      `The certificate does not match the server name (${diagnosis.hostnameError}). Check serverUrl.`,
+    );
+  }
+  const leaf = diagnosis.chain[0];
+  if (
+    !diagnosis.verifyError &&
+    leaf &&
+    Date.parse(leaf.validTo) - now < 14 * 86400_000
+  ) {
+    advice.push(`The server certificate expires ${leaf.validTo}.`);
+  }
+  if (diagnosis.trusted && !diagnosis.hostnameError) {
+    advice.push(
+      settings.clientCert
+        ? "The chain verifies from here — the failure may be intermittent or specific to the proxy path."
+        : "The chain verifies from here. If the server or proxy requires a client certificate, set clientCertFile and clientKeyFile; otherwise the failure may be intermittent.",
+    );
+  }
+  return advice;
+}
+
+/** Open a tunnel to host:port through an http:// proxy */
+function tunnel(
+  proxy: URL,
+  host: string,
+  port: number,
+  timeoutMs: number,
+): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = netConnect(Number(proxy.port) || 80, proxy.hostname);
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error("proxy CONNECT timed out"));
+    }, timeoutMs);
+    const fail = (error: Error) => {
+      clearTimeout(timer);
+      reject(error);
+    };
+    socket.once("error", fail);
+    socket.once("connect", () => {
+      const auth = proxy.username
+        ? `Proxy-Authorization: Basic ${Buffer.from(
+            `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`,
+          ).toString("base64")}\r\n`
+        : "";
+      socket.write(
+        `CONNECT ${host}:${port} HTTP/1.1\r\nHost: ${host}:${port}\r\n${auth}\r\n`,
+      );
+    });
+    let head = "";
+    const onData = (chunk: Buffer) => {
+      head += chunk.toString("latin1");
+      const end = head.indexOf("\r\n\r\n");
+      if (end < 0) return;
+      socket.off("data", onData);
+      socket.off("error", fail);
+      clearTimeout(timer);
+      const status = head.slice(0, head.indexOf("\r\n"));
+      if (/^HTTP\/1\.[01] 200/.test(status)) {
+        resolve(socket);
+      } else {
+        socket.destroy();
+        reject(new Error(`proxy refused CONNECT: ${status}`));
+      }
+    };
+    socket.on("data", onData);
+  });
+}
+
+/** TLS handshake without verification; resolves once it completes */
+function handshake(
+  options: Parameters<typeof tlsConnect>[0],
+  timeoutMs: number,
+): Promise<TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = tlsConnect({ ...options, rejectUnauthorized: false });
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error("TLS handshake timed out"));
+    }, timeoutMs);
+    socket.once("secureConnect", () => {
+      clearTimeout(timer);
+      resolve(socket);
+    });
+    socket.once("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Connect to the server the way requests do (proxy, CAs, client
+ * certificate) and report on the certificate chain.
+ */
+export async function diagnoseTls(
+  serverUrl: string,
+  settings: NetworkSettings,
+  timeoutMs: number = DIAGNOSIS_TIMEOUT_MS,
+): Promise<TlsDiagnosis> {
+  const target = new URL(serverUrl);
+  const host = target.hostname;
+  const port = Number(target.port) || 443;
+  const proxy = proxyFor(settings, serverUrl);
+  const result: Omit<TlsDiagnosis, "advice"> = {
+    via: proxy ? redactProxy(proxy) : "direct",
+    connected: false,
+    connectError: null,
+    trusted: false,
+    verifyError: null,
+    hostnameError: null,
+    chain: [],
+  };
+
+  let socket: TLSSocket | null = null;
+  try {
+    let tunnelSocket: Socket | undefined;
+    if (proxy) {
+      const proxyUrl = new URL(proxy);
+      if (proxyUrl.protocol !== "http:") {
+        throw new Error(
+          `cannot diagnose through a ${proxyUrl.protocol} proxy — only http:// proxies`,
+        );
+      }
+      tunnelSocket = await tunnel(proxyUrl, host, port, timeoutMs);
+    }
+    socket = await handshake(
+      {
+        host,
+        port,
+        socket: tunnelSocket,
+        servername: host,
+        ca: settings.extraCa
+          ? [...rootCertificates, settings.extraCa]
+          : undefined,
+        cert: settings.clientCert ?? undefined,
+        key: settings.clientKey ?? undefined,
+      },
+      timeoutMs,
+    );
+    result.connected = true;
+    result.trusted = socket.authorized;
+    const verifyError = socket.authorizationError;
+    result.verifyError = verifyError
+      ? typeof verifyError === "string"
+        ? verifyError
+        : ((verifyError as Error & { code?: string }).code ??
+          verifyError.message)
+      : null;
+    const leaf = socket.getPeerCertificate(true);
+    if (leaf && leaf.subject) {
+      result.chain = chainOf(leaf);
+      const mismatch = checkServerIdentity(host, leaf);
+      result.hostnameError = mismatch ? mismatch.message : null;
+    }
+  } catch (error) {
+    result.connectError =
+      error instanceof Error ? error.message : String(error);
+  } finally {
+    socket?.destroy();
+  }
+
+  return { ...result, advice: adviceFor(result, settings) };
+}
+
+/**
+ * Markdown lines for mem_status.
+ */
+export function renderTlsDiagnosis(diagnosis: TlsDiagnosis): string[] {
+  const lines = ["", "### TLS diagnosis", `**Via:** ${diagnosis.via}`];
+  if (!diagnosis.connected) {
+    lines.push(`**Handshake:** failed — ${diagnosis.connectError}`);
+  } else {
+    lines.push(
+      diagnosis.trusted
+        ? "**Chain:** trusted"
+        : `**Chain:** not trusted (${diagnosis.verifyError ?? "unknown"})`,
+    );
+    diagnosis.chain.forEach((cert, i) => {
+      lines.push(
+        `${i + 1}. ${cert.subject} — issued by ${cert.issuer}, valid ${cert.validFrom} – ${cert.validTo}`,
+      );
+    });
+  }
+  for (const line of diagnosis.advice) lines.push(`> ${line}`);
+  return lines;
+}
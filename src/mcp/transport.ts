@@ -0,0 +1,519 @@
+/**
+ * HTTP Transport
+ *
+ * Every request to the MemForge server — MCP tools, the sync poller, usage
+ * push, mem_status — goes through one transport, so all of them get the
+ * same:
+ *
+ * - endpoint allowlist (local endpoint names map to server paths; anything
+ *   else is rejected before a request is made)
+ * - server allowlist (HTTPS to known hosts, or localhost; private and
+ *   cloud-metadata addresses never), whichever config built the target
+ * - timeouts: 60s for search, 10s for /health and /api/auth/me, else 30s,
+ *   unless the caller sets one
+ * - retries for transient network errors, for every method: each POST,
+ *   PATCH and DELETE carries a client-generated Idempotency-Key header,
+ *   the same on every attempt, so the server applies a retried write once
+ *   (the key is recorded in the MCP audit log)
+ * - circuit breaker per server: 3 consecutive failures (network errors,
+ *   timeouts, 502/503/504) fail requests fast for 30s, then let one probe
+ *   request through; others keep failing fast until it answers
+ * - X-API-Key header
+ * - proxy, extra CAs and client certificate (see network.ts)
+ * - per-endpoint telemetry (requests, failures, retries, latency), shown
+ *   in mem_status
+ *
+ * Callers get the Response for any HTTP status and decide what it means;
+ * network errors, timeouts and an open circuit throw.
+ */
+
+import { randomUUID } from "crypto";
+import { gzipSync } from "zlib";
+import { recordIdempotencyKey } from "./audit-logger";
+import {
+  fetchOptionsFor,
+  getNetworkSettings,
+  isCertificateError,
+  type NetworkFetchOptions,
+} from "./network";
+
+export type HttpMethod = "GET" | "POST" | "PATCH" | "DELETE";
+export type CircuitState = "closed" | "open" | "half-open";
+
+/** Server and key a request is sent to */
+export interface TransportTarget {
+  baseUrl: string;
+  /** Sent as X-API-Key; empty sends no key */
+  apiKey: string;
+}
+
+export interface TransportRequest {
+  method?: HttpMethod;
+  /** Local endpoint name (e.g. '/search') or allowlisted server path */
+  endpoint: string;
+  /** Query parameters; undefined and null values are left out */
+  query?: Record<string, unknown>;
+  /** JSON-encoded as the request body */
+  body?: unknown;
+  /** gzip the body (Content-Encoding: gzip) */
+  compress?: boolean;
+  /** Override the timeout (ms) for the endpoint */
+  timeoutMs?: number;
+  /** Override the max transient-error retries. Use 0 for hooks. */
+  maxRetries?: number;
+  /**
+   * Idempotency-Key for a POST, PATCH or DELETE (default: a fresh UUID).
+   * Pass the same key to make a later re-send of the same write a no-op.
+   */
+  idempotencyKey?: string;
+  /** Send X-API-Key (default: true) */
+  auth?: boolean;
+  /** Send even while the circuit is open (connectivity checks) */
+  probe?: boolean;
+}
+
+/** Counters for one `METHOD /path` (numeric path segments as :id) */
+export interface EndpointStats {
+  requests: number;
+  /** Requests that ended in a network error, timeout or HTTP error status */
+  failures: number;
+  retries: number;
+  totalMs: number;
+  lastStatus: number | null;
+  lastError: string | null;
+}
+
+export interface CircuitStats {
+  state: CircuitState;
+  consecutiveFailures: number;
+}
+
+export interface TransportStats {
+  endpoints: Record<string, EndpointStats>;
+  /** Keyed by server origin */
+  circuits: Record<string, CircuitStats>;
+}
+
+/** The part of fetch the transport uses (injectable for tests) */
+export type FetchFn = (
+  url: string,
+  init: BunFetchRequestInit,
+) => Promise<Response>;
+
+export interface TransportOptions {
+  fetch?: FetchFn;
+  /** Proxy and TLS options per URL (default: from config.json) */
+  network?: (url: string) => NetworkFetchOptions;
+  sleep?: (ms: number) => Promise<void>;
+  retryDelaysMs?: number[];
+  circuitThreshold?: number;
+  circuitCooldownMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000; // 30 seconds - vector search needs ~2-3s for embedding + similarity
+const SEARCH_TIMEOUT_MS = 60000; // 60 seconds for search operations (embedding generation can be slow)
+const PROBE_TIMEOUT_MS = 10000; // health and auth checks
+
+/** Max retries for transient network errors */
+const MAX_RETRIES = 2;
+const RETRY_DELAYS_MS = [1000, 2000];
+
+// Circuit breaker constants
+const CIRCUIT_THRESHOLD = 3; // open after 3 consecutive failures
+const CIRCUIT_COOLDOWN = 30000; // 30s cooldown before retry probe
+
+/** Responses that mean the server is down rather than refusing the request */
+const OUTAGE_STATUSES = new Set([502, 503, 504]);
+
+/** Endpoint mapping from local to remote */
+const ENDPOINT_MAP: Record<string, string> = {
+  "/hybrid": "/api/search/hybrid",
+  "/vector": "/api/search/vector",
+  "/search": "/api/search",
+  "/timeline": "/api/timeline",
+  "/recent": "/api/observations",
+  "/observation": "/api/observations/batch",
+  "/context/cross-project": "/api/context/cross-project",
+  "/context/stable": "/api/context/stable",
+};
+
+/** Allowed direct API paths (not in ENDPOINT_MAP) */
+const ALLOWED_API_PATHS = new Set([
+  "/api/timeline",
+  "/api/workflows",
+  "/api/ingest",
+  "/api/entity",
+  "/api/triplets",
+  "/api/stats",
+  "/api/observations",
+  "/api/observations/batch",
+  "/api/search",
+  "/api/search/hybrid",
+  "/api/search/vector",
+  "/api/context/cross-project",
+  "/api/context/stable",
+  "/api/teams",
+  "/api/snapshots",
+  "/api/skills",
+  "/api/search/temporal",
+  "/api/observations/drift-check",
+  "/api/v1/handoff",
+  "/api/v1/resume",
+  "/api/auth/me",
+  "/api/sync/push",
+  "/api/usage/tokens",
+  "/health",
+]);
+
+/** Allowed server hostnames for SSRF protection */
+const ALLOWED_HOSTS = ["memclaude.thaicloud.ai"];
+
+/** Cloud metadata IPs that must always be blocked */
+const BLOCKED_METADATA_HOSTS = new Set([
+  "169.254.169.254", // AWS/GCP IMDS
+  "metadata.google.internal", // GCP
+  "100.100.100.200", // Alibaba Cloud
+]);
+
+/**
+ * Check if a hostname is a private/internal IP.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  return (
+    hostname === "0.0.0.0" ||
+    hostname === "[::]" ||
+    /^10\./.test(hostname) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(hostname) ||
+    /^192\.168\./.test(hostname) ||
+    /^169\.254\./.test(hostname) ||
+    hostname === "::1" ||
+    /^fc00/i.test(hostname) ||
+    /^fd/i.test(hostname) ||
+    BLOCKED_METADATA_HOSTS.has(hostname)
+  );
+}
+
+/**
+ * Validate a server URL against the allowlist.
+ * Allows: HTTPS to allowed hosts, or localhost/127.0.0.1 for dev.
+ * Set MEMFORGE_ALLOW_CUSTOM_URL=1 to bypass hostname allowlist
+ * (still enforces HTTPS and blocks cloud metadata endpoints).
+ */
+export function validateServerUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+
+    // Always block cloud metadata and private IPs, even with bypass
+    if (isPrivateHost(parsed.hostname)) return false;
+
+    // Bypass mode: skip hostname allowlist but enforce HTTPS
+    if (process.env.MEMFORGE_ALLOW_CUSTOM_URL === "1") {
+      if (parsed.hostname === "localhost" || parsed.hostname === "127.0.0.1") {
+        return parsed.protocol === "http:" || parsed.protocol === "https:";
+      }
+      return parsed.protocol === "https:";
+    }
+
+    // Allow localhost for development (HTTP and HTTPS)
+    if (parsed.hostname === "localhost" || parsed.hostname === "127.0.0.1") {
+      return parsed.protocol === "http:" || parsed.protocol === "https:";
+    }
+
+    // Require HTTPS for remote hosts
+    if (parsed.protocol !== "https:") return false;
+
+    // Check against allowlist
+    return ALLOWED_HOSTS.includes(parsed.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve endpoint with strict allowlist.
+ * Rejects unknown endpoints to prevent URL injection.
+ */
+export function resolveEndpoint(endpoint: string): string {
+  // Check mapped endpoints first
+  const mapped = ENDPOINT_MAP[endpoint];
+  if (mapped) return mapped;
+
+  // Check direct API paths
+  if (ALLOWED_API_PATHS.has(endpoint)) return endpoint;
+
+  // Normalize to prevent path traversal (e.g., /api/entity/../secret)
+  const normalized = new URL(endpoint, "http://dummy").pathname;
+
+  // Check prefix match for parameterized paths (e.g., /api/entity/foo)
+  for (const allowed of ALLOWED_API_PATHS) {
+    if (normalized.startsWith(allowed + "/")) return normalized;
+  }
+
+  throw new Error(`Unknown endpoint: ${endpoint}`);
+}
+
+/** Default timeout for a resolved server path */
+function timeoutFor(path: string): number {
+  if (path.startsWith("/api/search")) return SEARCH_TIMEOUT_MS;
+  if (path === "/health" || path === "/api/auth/me") return PROBE_TIMEOUT_MS;
+  return DEFAULT_TIMEOUT_MS;
+}
+
+/**
+ * Check if an error is retryable (network/TLS errors, not HTTP 4xx, and not
+ * certificate failures, which fail the same way every time).
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof Error) {
+    // Never retry timeout aborts — they are intentional
+    if (error.name === "AbortError") return false;
+    if (isCertificateError(error)) return false;
+
+    const msg = error.message.toLowerCase();
+    return (
+      msg.includes("fetch failed") ||
+      msg.includes("ssl") ||
+      msg.includes("tls") ||
+      msg.includes("econnreset") ||
+      msg.includes("econnrefused") ||
+      msg.includes("socket")
+    );
+  }
+  return false;
+}
+
+/** Telemetry key: method plus path with numeric segments collapsed */
+function statsKey(method: HttpMethod, path: string): string {
+  return `${method} ${path.replace(/\/\d+(?=\/|$)/g, "/:id")}`;
+}
+
+/** Circuit key for a base URL; an unparseable URL is its own key */
+function originOf(baseUrl: string): string {
+  try {
+    return new URL(baseUrl).origin;
+  } catch {
+    return baseUrl;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Breaker state for one server */
+interface Circuit {
+  failures: number;
+  openUntil: number;
+  /** A half-open probe request is in flight */
+  probing: boolean;
+}
+
+/**
+ * Sends requests to the MemForge server with the shared allowlist, timeouts,
+ * retry policy, circuit breaker, auth header and telemetry.
+ */
+export class HttpTransport {
+  private fetchImpl: FetchFn;
+  private network: (url: string) => NetworkFetchOptions;
+  private sleep: (ms: number) => Promise<void>;
+  private retryDelaysMs: number[];
+  private circuitThreshold: number;
+  private circuitCooldownMs: number;
+  private endpoints = new Map<string, EndpointStats>();
+  private circuits = new Map<string, Circuit>();
+
+  constructor(options: TransportOptions = {}) {
+    this.fetchImpl = options.fetch ?? ((url, init) => fetch(url, init));
+    this.network =
+      options.network ?? ((url) => fetchOptionsFor(getNetworkSettings(), url));
+    this.sleep = options.sleep ?? sleep;
+    this.retryDelaysMs = options.retryDelaysMs ?? RETRY_DELAYS_MS;
+    this.circuitThreshold = options.circuitThreshold ?? CIRCUIT_THRESHOLD;
+    this.circuitCooldownMs = options.circuitCooldownMs ?? CIRCUIT_COOLDOWN;
+  }
+
+  /**
+   * Send a request, retrying transient network errors.
+   *
+   * @throws Error for an unknown endpoint, a server URL outside the
+   *   allowlist, an open circuit, or a network
+   *   error or timeout that outlasted the retries
+   */
+  async request(
+    target: TransportTarget,
+    req: TransportRequest,
+  ): Promise<Response> {
+    const method = req.method ?? "GET";
+    const path = resolveEndpoint(req.endpoint);
+    if (!validateServerUrl(target.baseUrl)) {
+      throw new Error(`Server URL rejected by allowlist: ${target.baseUrl}`);
+    }
+    const origin = originOf(target.baseUrl);
+
+    const state = req.probe ? "closed" : this.circuitState(origin);
+    if (state === "open") {
+      const seconds = Math.ceil(
+        (this.circuit(origin).openUntil - Date.now()) / 1000,
+      );
+      throw new Error(
+        `Circuit open — ${origin} unreachable, retrying in ${seconds}s`,
+      );
+    }
+    if (state === "half-open" && this.circuit(origin).probing) {
+      throw new Error(
+        `Circuit half-open — ${origin} unreachable, waiting for the probe request`,
+      );
+    }
+
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(req.query ?? {})) {
+      if (value !== undefined && value !== null) {
+        search.append(key, String(value));
+      }
+    }
+    const query = search.toString();
+    const url = `${target.baseUrl}${path}${query ? `?${query}` : ""}`;
+
+    const headers: Record<string, string> = {};
+    if (req.auth !== false && target.apiKey) {
+      headers["X-API-Key"] = target.apiKey;
+    }
+    let body: BunFetchRequestInit["body"];
+    if (req.body !== undefined) {
+      const json = JSON.stringify(req.body);
+      headers["Content-Type"] = "application/json";
+      if (req.compress) headers["Content-Encoding"] = "gzip";
+      body = req.compress ? gzipSync(json) : json;
+    }
+
+    // One key for every attempt, so a write the server got before the
+    // connection dropped is not applied again
+    if (method !== "GET") {
+      const key = req.idempotencyKey ?? randomUUID();
+      headers["Idempotency-Key"] = key;
+      recordIdempotencyKey(key);
+    }
+
+    const timeout = req.timeoutMs ?? timeoutFor(path);
+    const maxRetries = req.maxRetries ?? MAX_RETRIES;
+    const network = this.network(url);
+    const stats = this.endpointStats(statsKey(method, path));
+    stats.requests++;
+    const start = Date.now();
+
+    // The first request after the cooldown is the probe; it alone goes out
+    const probe = state === "half-open" ? this.circuit(origin) : null;
+    if (probe) probe.probing = true;
+    try {
+      for (let attempt = 0; ; attempt++) {
+        if (attempt > 0) {
+          stats.retries++;
+          // Clamp to the last known delay if maxRetries exceeds the delay table.
+          await this.sleep(
+            this.retryDelaysMs[attempt - 1] ??
+              this.retryDelaysMs[this.retryDelaysMs.length - 1],
+          );
+        }
+
+        try {
+          const response = await this.fetchImpl(url, {
+            ...network,
+            method,
+            headers,
+            body,
+            signal: AbortSignal.timeout(timeout),
+          });
+          stats.totalMs += Date.now() - start;
+          stats.lastStatus = response.status;
+          if (!response.ok) {
+            stats.failures++;
+            stats.lastError = `HTTP ${response.status}`;
+          }
+          this.recordOutcome(origin, !OUTAGE_STATUSES.has(response.status));
+          return response;
+        } catch (error) {
+          if (!isRetryableError(error) || attempt >= maxRetries) {
+            stats.totalMs += Date.now() - start;
+            stats.failures++;
+            stats.lastStatus = null;
+            stats.lastError =
+              error instanceof Error ? error.message : String(error);
+            this.recordOutcome(origin, false);
+            throw error;
+          }
+        }
+      }
+    } finally {
+      if (probe) probe.probing = false;
+    }
+  }
+
+  /**
+   * Circuit state for a server. Accepts a base URL or origin.
+   */
+  circuitState(baseUrl: string): CircuitState {
+    const circuit = this.circuits.get(originOf(baseUrl));
+    if (!circuit || circuit.failures < this.circuitThreshold) return "closed";
+    if (Date.now() >= circuit.openUntil) return "half-open";
+    return "open";
+  }
+
+  getStats(): TransportStats {
+    const endpoints: Record<string, EndpointStats> = {};
+    for (const [key, stats] of this.endpoints) endpoints[key] = { ...stats };
+    const circuits: Record<string, CircuitStats> = {};
+    for (const [origin, circuit] of this.circuits) {
+      circuits[origin] = {
+        state: this.circuitState(origin),
+        consecutiveFailures: circuit.failures,
+      };
+    }
+    return { endpoints, circuits };
+  }
+
+  private circuit(origin: string): Circuit {
+    let circuit = this.circuits.get(origin);
+    if (!circuit) {
+      circuit = { failures: 0, openUntil: 0, probing: false };
+      this.circuits.set(origin, circuit);
+    }
+    return circuit;
+  }
+
+  private recordOutcome(origin: string, reachable: boolean): void {
+    const circuit = this.circuit(origin);
+    if (reachable) {
+      if (circuit.failures >= this.circuitThreshold) {
+        process.stderr.write(`[Transport] ${origin} reachable again\n`);
+      }
+      circuit.failures = 0;
+      return;
+    }
+    circuit.failures++;
+    if (circuit.failures >= this.circuitThreshold) {
+      circuit.openUntil = Date.now() + this.circuitCooldownMs;
+      process.stderr.write(
+        `[Transport] Circuit OPEN — ${origin} unreachable (${circuit.failures} failures), retry in ${this.circuitCooldownMs / 1000}s\n`,
+      );
+    }
+  }
+
+  private endpointStats(key: string): EndpointStats {
+    let stats = this.endpoints.get(key);
+    if (!stats) {
+      stats = {
+        requests: 0,
+        failures: 0,
+        retries: 0,
+        totalMs: 0,
+        lastStatus: null,
+        lastError: null,
+      };
+      this.endpoints.set(key, stats);
+    }
+    return stats;
+  }
+}
+
+// Singleton instance
+export const transport = new HttpTransport();
@@ -295,6 +295,59 @@ const schemas: Record<string, z.ZodType> = {
     project: z.string().min(1).max(200),
     limit: limitField(50, 3),
   }),
+
+  // Sync dead-letter inspection
+  mem_sync_failures: z
+    .object({
+      action: z
+        .enum(["list", "show", "retry", "discard"])
+        .optional()
+        .default("list"),
+      id: z.coerce.number().int().min(1).optional(),
+      kind: z.enum(["observation", "summary", "session", "prompt"]).optional(),
+      all: z.boolean().optional(),
+      limit: limitField(200, 50),
+    })
+    .refine((d) => d.action !== "show" || d.id !== undefined, {
+      message: "id is required for action 'show'",
+    })
+    .refine(
+      (d) =>
+        (d.action !== "retry" && d.action !== "discard") ||
+        d.id !== undefined ||
+        d.all === true,
+      { message: "retry and discard require id or all: true" },
+    ),
+
+  // Sync backfill (re-push a slice of claude-mem.db)
+  mem_sync_backfill: z
+    .object({
+      action: z
+        .enum(["plan", "start", "status", "cancel"])
+        .optional()
+        .default("plan"),
+      kind: z
+        .enum(["session", "prompt", "observation", "summary", "all"])
+        .optional()
+        .default("all"),
+      from_id: z.coerce.number().int().min(1).optional(),
+      to_id: z.coerce.number().int().min(1).optional(),
+      since: dateField,
+      until: dateField,
+      project: z.string().min(1).max(200).optional(),
+    })
+    .refine(
+      (d) =>
+        d.from_id === undefined ||
+        d.to_id === undefined ||
+        d.from_id <= d.to_id,
+      { message: "from_id must not be greater than to_id" },
+    )
+    .refine(
+      (d) =>
+        d.since === undefined || d.until === undefined || d.since <= d.until,
+      { message: "since must not be after until" },
+    ),
 };
 
 /**
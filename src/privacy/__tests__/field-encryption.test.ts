@@ -0,0 +1,134 @@
+/**
+ * Tests for field encryption — observation fields sealed with the active
+ * key, decrypted on the way back, and key rotation.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ENCRYPTED_PREFIX,
+  FieldCipher,
+  generateKeyFile,
+  getFieldCipher,
+  mergeKeyFiles,
+  parseKeyFile,
+  rotateKeyFile,
+  writeKeyFile,
+} from "../field-encryption";
+import { BUILTIN_DETECTORS, redactText } from "../redaction";
+
+const observation = {
+  id: 1,
+  title: "Switch to WAL",
+  concepts: '["sqlite"]',
+  narrative: "Readers no longer block the writer.",
+  text: "Full text",
+  facts: '["wal on","busy_timeout 5000"]',
+};
+
+describe("FieldCipher", () => {
+  const cipher = new FieldCipher(generateKeyFile());
+
+  test("encrypts narrative, text and each fact; title and concepts stay", () => {
+    const sealed = cipher.encryptObservation(observation);
+    expect(sealed.title).toBe(observation.title);
+    expect(sealed.concepts).toBe(observation.concepts);
+    expect(sealed.narrative).toStartWith(ENCRYPTED_PREFIX);
+    expect(sealed.text).toStartWith(ENCRYPTED_PREFIX);
+    const facts = JSON.parse(sealed.facts as string) as string[];
+    expect(facts).toHaveLength(2);
+    expect(facts.every((f) => f.startsWith(ENCRYPTED_PREFIX))).toBe(true);
+    expect(cipher.encryptObservation(sealed)).toEqual(sealed);
+  });
+
+  test("encrypts text in extras and keeps other values", () => {
+    const withExtras = {
+      ...observation,
+      extras: { reasoning: "Chose WAL over rollback", priority: 2, note: "" },
+    };
+    const sealed = cipher.encryptObservation(withExtras);
+    const extras = sealed.extras as Record<string, unknown>;
+    expect(extras.reasoning).toStartWith(ENCRYPTED_PREFIX);
+    expect(extras.priority).toBe(2);
+    expect(extras.note).toBe("");
+    expect(withExtras.extras.reasoning).toBe("Chose WAL over rollback");
+    expect(cipher.decryptDeep(sealed)).toEqual(withExtras);
+  });
+
+  test("decryptDeep restores a response, facts as string or array", () => {
+    const sealed = cipher.encryptObservation(observation);
+    const response = {
+      observations: [
+        sealed,
+        { ...sealed, facts: JSON.parse(sealed.facts as string) },
+      ],
+    };
+    const opened = cipher.decryptDeep(response);
+    expect(opened.observations[0]).toEqual(observation);
+    expect(opened.observations[1].facts).toEqual([
+      "wal on",
+      "busy_timeout 5000",
+    ]);
+  });
+
+  test("old values still decrypt after rotation", () => {
+    const keys = generateKeyFile();
+    const before = new FieldCipher(keys).encrypt("secret plan");
+    const rotated = new FieldCipher(rotateKeyFile(keys));
+    expect(rotated.activeKeyId()).not.toBe(keys.active);
+    expect(rotated.decrypt(before)).toBe("secret plan");
+  });
+
+  test("a value from an unknown key reads as a placeholder", () => {
+    const other = new FieldCipher(generateKeyFile()).encrypt("elsewhere");
+    expect(cipher.decrypt(other)).toContain("not on this machine");
+    expect(new FieldCipher(null).activeKeyId()).toBeNull();
+  });
+
+  test("redaction leaves encrypted values alone", () => {
+    const token = cipher.encrypt("x".repeat(200));
+    expect(redactText(`note ${token}`, BUILTIN_DETECTORS).text).toBe(
+      `note ${token}`,
+    );
+  });
+});
+
+describe("key files", () => {
+  test("import merges keys and adopts the imported active key", () => {
+    const local = generateKeyFile();
+    const team = generateKeyFile();
+    const merged = mergeKeyFiles(local, team);
+    expect(merged.active).toBe(team.active);
+    expect(Object.keys(merged.keys).sort()).toEqual(
+      [local.active, team.active].sort(),
+    );
+  });
+
+  test("parseKeyFile rejects malformed files", () => {
+    expect(() => parseKeyFile("{}")).toThrow();
+    const keys = generateKeyFile();
+    keys.keys[keys.active].key = "c2hvcnQ=";
+    expect(() => parseKeyFile(JSON.stringify(keys))).toThrow();
+  });
+
+  test("getFieldCipher picks up a generated, then rotated, key file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "memforge-keys-"));
+    const path = join(dir, "encryption-keys.json");
+    try {
+      expect(getFieldCipher(path).activeKeyId()).toBeNull();
+
+      const generated = generateKeyFile();
+      writeKeyFile(generated, path);
+      expect(getFieldCipher(path).activeKeyId()).toBe(generated.active);
+
+      const rotated = rotateKeyFile(generated);
+      writeKeyFile(rotated, path);
+      expect(getFieldCipher(path).activeKeyId()).toBe(rotated.active);
+      expect(getFieldCipher(path)).toBe(getFieldCipher(path));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for field privacy — per-project levels and how each reduces a
+ * push payload.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { PrivacyPolicy, reducePath } from "../field-privacy";
+
+const observation = {
+  id: 4,
+  sdk_session_id: 1,
+  type: "decision",
+  title: "Keep WAL mode",
+  subtitle: "db",
+  narrative: "Readers stop blocking the writer.",
+  project: "client-acme",
+  text: "full text",
+  facts: '["fact"]',
+  concepts: '["sqlite"]',
+  files_read: '["/home/dev/work/client-acme/src/db.ts"]',
+  files_modified: '["/etc/hosts", "src/index.ts"]',
+  extras: { importance: 3 },
+};
+
+describe("PrivacyPolicy", () => {
+  const policy = new PrivacyPolicy({
+    "client-*": "metadata-only",
+    "oss-*": "hashed-paths",
+  });
+
+  test("first matching glob sets the level, full otherwise", () => {
+    expect(policy.levelFor("client-acme")).toBe("metadata-only");
+    expect(policy.levelFor("oss-tool")).toBe("hashed-paths");
+    expect(policy.levelFor("personal")).toBe("full");
+    expect(policy.levelFor(null)).toBe("full");
+  });
+
+  test("full sends the payload unchanged", () => {
+    const payload = { ...observation, project: "personal" };
+    expect(policy.apply("observation", payload)).toBe(payload);
+  });
+
+  test("metadata-only keeps type, title, subtitle and concepts", () => {
+    const reduced = policy.apply("observation", observation);
+    expect(reduced).toMatchObject({
+      type: "decision",
+      title: "Keep WAL mode",
+      subtitle: "db",
+      concepts: '["sqlite"]',
+      narrative: null,
+      text: null,
+      facts: "[]",
+      files_read: "[]",
+      files_modified: "[]",
+    });
+    expect("extras" in reduced).toBe(false);
+    expect(
+      policy.apply("summary", { project: "client-acme", learned: "x" }).learned,
+    ).toBeNull();
+  });
+
+  test("hashed-paths reduces file lists and is idempotent", () => {
+    const payload = {
+      ...observation,
+      project: "client-acme",
+    };
+    const paths = new PrivacyPolicy({ "*": "hashed-paths" });
+    const reduced = paths.apply("observation", payload);
+    expect(JSON.parse(reduced.files_read as string)).toEqual(["src/db.ts"]);
+    const modified = JSON.parse(reduced.files_modified as string);
+    expect(modified[0]).toMatch(/^sha256:[0-9a-f]{16}$/);
+    expect(modified[1]).toBe("src/index.ts");
+    expect(reduced.narrative).toBe(observation.narrative);
+    expect(paths.apply("observation", reduced)).toEqual(reduced);
+  });
+
+  test("an unknown level falls back to metadata-only", () => {
+    const odd = new PrivacyPolicy({ "*": "secret" });
+    expect(odd.levelFor("anything")).toBe("metadata-only");
+    expect(odd.isActive()).toBe(true);
+  });
+});
+
+describe("reducePath", () => {
+  test("keeps what follows the project directory", () => {
+    expect(reducePath("C:\\work\\app\\src\\main.ts", "app")).toBe(
+      "src/main.ts",
+    );
+  });
+
+  test("hashes paths outside the project the same way every time", () => {
+    expect(reducePath("/etc/hosts", "app")).toBe(
+      reducePath("/etc/hosts", null),
+    );
+    expect(reducePath("/etc/hosts", "app")).not.toBe(
+      reducePath("/etc/passwd", "app"),
+    );
+  });
+});
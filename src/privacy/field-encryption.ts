@@ -0,0 +1,308 @@
+/**
+ * Field Encryption
+ *
+ * Opt-in client-side encryption (config `syncEncryption: true`) of the
+ * observation fields that carry the substance — `narrative`, `text`, each
+ * entry of `facts` and text in `extras` — before RemoteSync pushes them. Titles, subtitles,
+ * types and concepts stay plaintext so server search still works.
+ *
+ * Values become `mfenc:v1:<keyId>:<base64(iv | tag | ciphertext)>`
+ * (AES-256-GCM). Keys live in ~/.memforge/encryption-keys.json (mode 0600):
+ * one active key for new pushes, older keys kept so rotated-out values still
+ * decrypt. `bun run setup encryption generate|rotate|export|import` manages
+ * the file; machines that share an account share it via export/import.
+ *
+ * Responses are decrypted on the way back (observation fetches, mem_resume).
+ * A value whose key is not on this machine reads as a placeholder rather
+ * than failing the call.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+
+export const KEY_FILE_PATH = join(
+  homedir(),
+  ".memforge",
+  "encryption-keys.json",
+);
+
+export const ENCRYPTED_PREFIX = "mfenc:v1:";
+/** One encrypted value anywhere in a string */
+export const ENCRYPTED_TOKEN = /mfenc:v1:[0-9a-f]+:[A-Za-z0-9+/]+=*/g;
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/** A key as stored in the key file */
+export interface StoredKey {
+  /** base64, 32 bytes */
+  key: string;
+  created_at: string;
+}
+
+/** ~/.memforge/encryption-keys.json */
+export interface KeyFile {
+  version: 1;
+  /** Key ID used for new values */
+  active: string;
+  keys: Record<string, StoredKey>;
+}
+
+function newKey(): [string, StoredKey] {
+  return [
+    randomBytes(4).toString("hex"),
+    {
+      key: randomBytes(KEY_BYTES).toString("base64"),
+      created_at: new Date().toISOString(),
+    },
+  ];
+}
+
+/** A key file with one fresh active key */
+export function generateKeyFile(): KeyFile {
+  const [id, key] = newKey();
+  return { version: 1, active: id, keys: { [id]: key } };
+}
+
+/** Add a fresh key and make it active; older keys stay for decryption */
+export function rotateKeyFile(file: KeyFile): KeyFile {
+  const [id, key] = newKey();
+  return { version: 1, active: id, keys: { ...file.keys, [id]: key } };
+}
+
+/** Merge an exported key file in, adopting its active key */
+export function mergeKeyFiles(into: KeyFile | null, from: KeyFile): KeyFile {
+  return {
+    version: 1,
+    active: from.active,
+    keys: { ...into?.keys, ...from.keys },
+  };
+}
+
+/** Parse and check a key file; throws on anything malformed */
+export function parseKeyFile(json: string): KeyFile {
+  const file = JSON.parse(json) as Partial<KeyFile>;
+  const keys = file.keys ?? {};
+  if (file.version !== 1 || !file.active || !keys[file.active]) {
+    throw new Error("not a MemForge encryption key file");
+  }
+  for (const [id, stored] of Object.entries(keys)) {
+    if (Buffer.from(stored.key, "base64").length !== KEY_BYTES) {
+      throw new Error(`key ${id} is not ${KEY_BYTES} bytes`);
+    }
+  }
+  return file as KeyFile;
+}
+
+/** Read the key file, or null when there is none */
+export function readKeyFile(path: string = KEY_FILE_PATH): KeyFile | null {
+  if (!existsSync(path)) return null;
+  return parseKeyFile(readFileSync(path, "utf-8"));
+}
+
+/** Write the key file owner-only (temp file + rename) */
+export function writeKeyFile(
+  file: KeyFile,
+  path: string = KEY_FILE_PATH,
+): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(file, null, 2) + "\n", { mode: 0o600 });
+  chmodSync(tmp, 0o600);
+  renameSync(tmp, path);
+}
+
+/**
+ * Encrypts and decrypts field values with the keys of one key file.
+ */
+export class FieldCipher {
+  private keys = new Map<string, Buffer>();
+  private active: string | null;
+
+  constructor(file: KeyFile | null) {
+    this.active = file?.active ?? null;
+    for (const [id, stored] of Object.entries(file?.keys ?? {})) {
+      this.keys.set(id, Buffer.from(stored.key, "base64"));
+    }
+  }
+
+  /** ID of the key new values are encrypted with, null without a key file */
+  activeKeyId(): string | null {
+    return this.active;
+  }
+
+  /** Encrypt one value with the active key. Encrypted values pass through. */
+  encrypt(value: string): string {
+    if (value.startsWith(ENCRYPTED_PREFIX)) return value;
+    const key = this.active ? this.keys.get(this.active) : undefined;
+    if (!this.active || !key) throw new Error("No encryption key");
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(value, "utf-8"),
+      cipher.final(),
+    ]);
+    const sealed = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+    return `${ENCRYPTED_PREFIX}${this.active}:${sealed.toString("base64")}`;
+  }
+
+  /**
+   * Decrypt one `mfenc:` token. Unknown keys and tampered values give a
+   * placeholder; anything else passes through.
+   */
+  decrypt(token: string): string {
+    if (!token.startsWith(ENCRYPTED_PREFIX)) return token;
+    const [id, data] = token.slice(ENCRYPTED_PREFIX.length).split(":");
+    const key = this.keys.get(id);
+    if (!key) return `[encrypted with key ${id} — not on this machine]`;
+    try {
+      const sealed = Buffer.from(data, "base64");
+      const decipher = createDecipheriv(
+        ALGORITHM,
+        key,
+        sealed.subarray(0, IV_BYTES),
+      );
+      decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+      return Buffer.concat([
+        decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)),
+        decipher.final(),
+      ]).toString("utf-8");
+    } catch {
+      return `[encrypted with key ${id} — cannot be decrypted]`;
+    }
+  }
+
+  /**
+   * Encrypt `narrative`, `text`, each `facts` entry and the string values
+   * of `extras` (columns this client does not map, so their content is
+   * unknown) of an observation payload. Returns a copy; already-encrypted
+   * values are kept.
+   */
+  encryptObservation(
+    payload: Record<string, unknown>,
+  ): Record<string, unknown> {
+    const out = { ...payload };
+    for (const field of ["narrative", "text"]) {
+      const value = out[field];
+      if (typeof value === "string" && value !== "") {
+        out[field] = this.encrypt(value);
+      }
+    }
+    if (typeof out.facts === "string") {
+      out.facts = this.mapJsonList(out.facts, (v) => this.encrypt(v));
+    }
+    if (out.extras !== null && typeof out.extras === "object") {
+      const extras: Record<string, unknown> = {};
+      for (const [column, value] of Object.entries(out.extras)) {
+        extras[column] =
+          typeof value === "string" && value !== ""
+            ? this.encrypt(value)
+            : value;
+      }
+      out.extras = extras;
+    }
+    return out;
+  }
+
+  /**
+   * Deep copy of a response with every encrypted value decrypted: whole
+   * strings, JSON-array strings (facts) and tokens embedded in text.
+   */
+  decryptDeep<T>(value: T): T {
+    const walk = (v: unknown): unknown => {
+      if (typeof v === "string") return this.decryptString(v);
+      if (Array.isArray(v)) return v.map(walk);
+      if (v !== null && typeof v === "object") {
+        const out: Record<string, unknown> = {};
+        for (const [key, inner] of Object.entries(v)) out[key] = walk(inner);
+        return out;
+      }
+      return v;
+    };
+    return walk(value) as T;
+  }
+
+  private decryptString(value: string): string {
+    if (!value.includes(ENCRYPTED_PREFIX)) return value;
+    if (value.startsWith("[")) {
+      const mapped = this.mapJsonList(value, (v) => this.decrypt(v));
+      if (mapped !== value) return mapped;
+    }
+    return value.replace(ENCRYPTED_TOKEN, (token) => this.decrypt(token));
+  }
+
+  /** Apply `fn` to each string of a JSON-array string; non-arrays unchanged */
+  private mapJsonList(value: string, fn: (v: string) => string): string {
+    try {
+      const parsed: unknown = JSON.parse(value);
+      if (!Array.isArray(parsed)) return value;
+      return JSON.stringify(
+        parsed.map((v) => (typeof v === "string" ? fn(v) : v)),
+      );
+    } catch {
+      return value;
+    }
+  }
+}
+
+/** The cipher last loaded, and which version of which key file it holds */
+interface LoadedCipher {
+  path: string;
+  stamp: string | null;
+  cipher: FieldCipher;
+}
+
+let shared: LoadedCipher | null = null;
+
+/** Changes whenever the key file is rewritten (writeKeyFile renames over it) */
+function keyFileStamp(path: string): string | null {
+  try {
+    const stat = statSync(path);
+    return `${stat.ino}:${stat.mtimeMs}:${stat.size}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Cipher over the key file, re-read whenever the file changes so that
+ * `setup encryption generate|rotate|import` reaches a running MCP server
+ * without a restart. A malformed key file is reported and treated as
+ * missing.
+ */
+export function getFieldCipher(path: string = KEY_FILE_PATH): FieldCipher {
+  const stamp = keyFileStamp(path);
+  if (!shared || shared.path !== path || shared.stamp !== stamp) {
+    let file: KeyFile | null = null;
+    try {
+      file = readKeyFile(path);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      process.stderr.write(
+        `[Encryption] Cannot read ${path} (${message}) — no encryption key\n`,
+      );
+    }
+    shared = { path, stamp, cipher: new FieldCipher(file) };
+  }
+  return shared.cipher;
+}
+
+/**
+ * Decrypt any encrypted values in an API response.
+ */
+export function decryptResponse<T>(value: T): T {
+  return getFieldCipher().decryptDeep(value);
+}
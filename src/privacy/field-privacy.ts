@@ -0,0 +1,183 @@
+/**
+ * Field Privacy
+ *
+ * Per-project privacy levels for synced rows, configured under
+ * `syncPrivacy` in ~/.memforge/config.json as project glob → level:
+ *
+ *   "syncPrivacy": {
+ *     "client-*": "metadata-only",
+ *     "oss-*": "hashed-paths"
+ *   }
+ *
+ * - full           everything is sent (the default)
+ * - metadata-only  observations keep type, title, subtitle and concepts;
+ *                  narrative, text, facts, file lists, summary and prompt
+ *                  text and `extras` are blanked
+ * - hashed-paths   file lists are reduced to repo-relative paths (the part
+ *                  after the project's directory) or, failing that, hashes
+ *
+ * The first matching glob wins. An unknown level is treated as
+ * metadata-only. Applied when the sync poller and backfill build push
+ * payloads, before secret redaction.
+ */
+
+import { createHash } from "crypto";
+import { getPluginConfig } from "../mcp/api-client";
+import { globToRegExp } from "../sync/sync-filter";
+import type { SyncItemKind } from "../sync/pending-queue";
+
+export type PrivacyLevel = "full" | "metadata-only" | "hashed-paths";
+
+/** `syncPrivacy` section of config.json: project glob → level */
+export type SyncPrivacyConfig = Record<string, string>;
+
+const LEVELS = new Set<string>(["full", "metadata-only", "hashed-paths"]);
+
+/** File-list columns across kinds */
+const PATH_FIELDS = ["files_read", "files_modified", "files_edited"];
+
+/** Fields blanked by metadata-only, with their empty value, per kind */
+const CONTENT_FIELDS: Record<SyncItemKind, Record<string, unknown>> = {
+  session: { user_prompt: null },
+  prompt: { prompt_text: null },
+  observation: {
+    narrative: null,
+    text: null,
+    facts: "[]",
+    files_read: "[]",
+    files_modified: "[]",
+  },
+  summary: {
+    request: null,
+    investigated: null,
+    learned: null,
+    completed: null,
+    next_steps: null,
+    notes: null,
+    files_read: "[]",
+    files_edited: "[]",
+  },
+};
+
+const ABSOLUTE_PATH = /^(\/|~|[A-Za-z]:[\\/])/;
+
+/**
+ * Reduce a file path to what follows the project's directory, or to a hash
+ * when the project does not appear in it. Relative paths are kept.
+ */
+export function reducePath(path: string, project: string | null): string {
+  if (!ABSOLUTE_PATH.test(path)) return path;
+  const segments = path.split(/[\\/]/);
+  const at = project ? segments.lastIndexOf(project) : -1;
+  if (at >= 0 && at < segments.length - 1) {
+    return segments.slice(at + 1).join("/");
+  }
+  const digest = createHash("sha256").update(path).digest("hex");
+  return `sha256:${digest.slice(0, 16)}`;
+}
+
+/** Map a JSON-array file column through reducePath; non-JSON is hashed whole */
+function reducePathList(value: unknown, project: string | null): unknown {
+  if (typeof value !== "string" || value === "") return value;
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (Array.isArray(parsed)) {
+      return JSON.stringify(
+        parsed.map((v) => (typeof v === "string" ? reducePath(v, project) : v)),
+      );
+    }
+  } catch {
+    /* not JSON — a single path */
+  }
+  return reducePath(value, project);
+}
+
+/**
+ * Resolves a project's privacy level and applies it to push payloads.
+ */
+export class PrivacyPolicy {
+  private rules: { glob: string; re: RegExp; level: PrivacyLevel }[];
+
+  constructor(config: SyncPrivacyConfig = {}) {
+    this.rules = Object.entries(config).map(([glob, level]) => {
+      if (!LEVELS.has(level)) {
+        process.stderr.write(
+          `[Privacy] Unknown syncPrivacy level "${level}" for "${glob}" — using metadata-only\n`,
+        );
+      }
+      return {
+        glob,
+        re: globToRegExp(glob),
+        level: LEVELS.has(level) ? (level as PrivacyLevel) : "metadata-only",
+      };
+    });
+  }
+
+  /** True if any project is below `full` */
+  isActive(): boolean {
+    return this.rules.some((rule) => rule.level !== "full");
+  }
+
+  /** Configured rules as `glob: level`, for mem_status */
+  describe(): string[] {
+    return this.rules.map((rule) => `${rule.glob}: ${rule.level}`);
+  }
+
+  /** Level for a project (first matching glob), `full` when none match */
+  levelFor(project: string | null): PrivacyLevel {
+    const name = project ?? "";
+    return this.rules.find((rule) => rule.re.test(name))?.level ?? "full";
+  }
+
+  /**
+   * Apply the payload's project level. Returns the payload itself at `full`,
+   * else a reduced copy. Applying twice gives the same result.
+   */
+  apply(
+    kind: SyncItemKind,
+    payload: Record<string, unknown>,
+  ): Record<string, unknown> {
+    const project =
+      typeof payload.project === "string" ? payload.project : null;
+    const level = this.levelFor(project);
+    if (level === "full") return payload;
+
+    const reduced = { ...payload };
+    if (level === "metadata-only") {
+      for (const [field, empty] of Object.entries(CONTENT_FIELDS[kind])) {
+        if (field in reduced) reduced[field] = empty;
+      }
+      delete reduced.extras;
+    } else {
+      for (const field of PATH_FIELDS) {
+        if (field in reduced) {
+          reduced[field] = reducePathList(reduced[field], project);
+        }
+      }
+    }
+    return reduced;
+  }
+}
+
+let shared: PrivacyPolicy | null = null;
+
+/**
+ * The `syncPrivacy` policy from config.json. Config edits take effect on
+ * the next MCP server start.
+ */
+export function getPrivacyPolicy(): PrivacyPolicy {
+  if (!shared) {
+    shared = new PrivacyPolicy(getPluginConfig()?.syncPrivacy ?? {});
+  }
+  return shared;
+}
+
+/**
+ * Apply the `syncPrivacy` policy to a push payload.
+ */
+export function applyPrivacy(
+  kind: SyncItemKind,
+  payload: Record<string, unknown>,
+): Record<string, unknown> {
+  return getPrivacyPolicy().apply(kind, payload);
+}
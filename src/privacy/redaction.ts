@@ -0,0 +1,334 @@
+/**
+ * Secret Redaction
+ *
+ * Masks credentials in payloads before they leave the machine: observations
+ * and summaries pushed by RemoteSync, and mem_ingest / mem_handoff bodies
+ * sent via postRemoteAPI. Built-in detectors cover cloud/API keys, tokens,
+ * JWTs, PEM private keys, secret-looking .env assignments and high-entropy
+ * strings; users add their own regex rules under `redaction.rules` in
+ * ~/.memforge/config.json.
+ *
+ * Every masking is appended to a local JSONL report (detector, field and
+ * count — never the secret itself) at ~/.memforge/redaction-report.jsonl.
+ * Override the path with MEMFORGE_REDACTION_REPORT.
+ */
+
+import { appendFileSync, existsSync, mkdirSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { getPluginConfig } from "../mcp/api-client";
+import { ENCRYPTED_PREFIX, ENCRYPTED_TOKEN } from "./field-encryption";
+
+const DEFAULT_REPORT_PATH = join(
+  homedir(),
+  ".memforge",
+  "redaction-report.jsonl",
+);
+
+// High-entropy detector: long unbroken tokens mixing letters and digits whose
+// Shannon entropy exceeds what hex digests (≤ 4 bits/char) can reach, so git
+// SHAs and content hashes are left alone.
+const ENTROPY_MIN_LENGTH = 32;
+const ENTROPY_THRESHOLD = 4.3;
+const ENTROPY_CANDIDATE = /[A-Za-z0-9+=_-]{32,}/g;
+
+/** A named pattern. If the regex has a capture group, only group 1 is masked. */
+export interface Detector {
+  name: string;
+  pattern: RegExp;
+}
+
+/** User-defined rule as written in config.json */
+export interface RedactionRule {
+  name: string;
+  pattern: string;
+  flags?: string;
+}
+
+/** `redaction` section of config.json */
+export interface RedactionConfig {
+  /** Master switch (default: true) */
+  enabled?: boolean;
+  /** High-entropy string detector (default: true) */
+  entropy?: boolean;
+  /** Extra regex rules applied after the built-in detectors */
+  rules?: RedactionRule[];
+}
+
+/** One field of one payload in which a detector masked something */
+export interface RedactionFinding {
+  detector: string;
+  field: string;
+  count: number;
+}
+
+/** One line of the local redaction report */
+export interface RedactionReportEntry {
+  ts: string;
+  source: string;
+  id?: number;
+  detector: string;
+  field: string;
+  count: number;
+}
+
+export const BUILTIN_DETECTORS: Detector[] = [
+  {
+    name: "pem_private_key",
+    pattern:
+      /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY-----/g,
+  },
+  { name: "aws_access_key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: "aws_secret_key",
+    pattern:
+      /aws_secret_access_key["']?\s*[=:]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+  },
+  {
+    name: "github_token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  {
+    name: "api_key",
+    pattern:
+      /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})/g,
+  },
+  {
+    name: "jwt",
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+  {
+    name: "bearer_token",
+    pattern: /\bBearer\s+([A-Za-z0-9._~+/-]{16,}=*)/gi,
+  },
+  {
+    name: "env_secret",
+    pattern:
+      /\b[A-Z][A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_KEY|APIKEY|PRIVATE_KEY|ACCESS_KEY)\s*[=:]\s*["']?([^\s"'`\\]{8,})/g,
+  },
+];
+
+/** Replacement text for a masked value */
+function mask(detector: string): string {
+  return `[REDACTED:${detector}]`;
+}
+
+/** Shannon entropy in bits per character */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let entropy = 0;
+  for (const n of counts.values()) {
+    const p = n / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/** True for tokens that look like random secrets rather than words or hashes */
+function isHighEntropy(token: string): boolean {
+  return (
+    token.length >= ENTROPY_MIN_LENGTH &&
+    /[0-9]/.test(token) &&
+    /[A-Za-z]/.test(token) &&
+    shannonEntropy(token) >= ENTROPY_THRESHOLD
+  );
+}
+
+/**
+ * Compile user rules into detectors. Invalid patterns are skipped with a
+ * stderr warning rather than disabling redaction altogether.
+ */
+export function compileRules(rules: RedactionRule[] | undefined): Detector[] {
+  const detectors: Detector[] = [];
+  for (const rule of rules ?? []) {
+    try {
+      const flags = (rule.flags ?? "").replace(/g/g, "") + "g";
+      detectors.push({
+        name: rule.name || "custom",
+        pattern: new RegExp(rule.pattern, flags),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      process.stderr.write(
+        `[redaction] Skipping invalid rule "${rule.name}": ${message}\n`,
+      );
+    }
+  }
+  return detectors;
+}
+
+/**
+ * Mask every detector match in a string. Encrypted values
+ * (field-encryption.ts) are opaque and left alone; only the text around
+ * them is masked.
+ *
+ * @returns The masked text and per-detector match counts
+ */
+export function redactText(
+  text: string,
+  detectors: Detector[],
+  entropy = true,
+): { text: string; hits: Map<string, number> } {
+  const hits = new Map<string, number>();
+  const count = (name: string) => hits.set(name, (hits.get(name) ?? 0) + 1);
+
+  if (text.includes(ENCRYPTED_PREFIX)) {
+    // Odd entries are the captured tokens
+    const parts = text.split(new RegExp(`(${ENCRYPTED_TOKEN.source})`));
+    if (parts.length > 1) {
+      const masked = parts.map((part, i) => {
+        if (i % 2 === 1) return part;
+        const result = redactText(part, detectors, entropy);
+        for (const [name, n] of result.hits) {
+          hits.set(name, (hits.get(name) ?? 0) + n);
+        }
+        return result.text;
+      });
+      return { text: masked.join(""), hits };
+    }
+  }
+
+  let out = text;
+
+  for (const { name, pattern } of detectors) {
+    out = out.replace(pattern, (match: string, ...rest: unknown[]) => {
+      count(name);
+      const group = rest[0];
+      if (typeof group === "string" && group.length > 0) {
+        return match.replace(group, mask(name));
+      }
+      return mask(name);
+    });
+  }
+
+  if (entropy) {
+    out = out.replace(ENTROPY_CANDIDATE, (token) => {
+      if (!isHighEntropy(token)) return token;
+      count("high_entropy");
+      return mask("high_entropy");
+    });
+  }
+
+  return { text: out, hits };
+}
+
+/**
+ * Stateful redactor: detectors from config, a session counter and the
+ * local report file.
+ */
+export class Redactor {
+  private enabled: boolean;
+  private entropy: boolean;
+  private detectors: Detector[];
+  private reportPath: string | null;
+  private masked = 0;
+
+  constructor(
+    config: RedactionConfig = {},
+    reportPath: string | null = DEFAULT_REPORT_PATH,
+  ) {
+    this.enabled = config.enabled !== false;
+    this.entropy = config.entropy !== false;
+    this.detectors = [...BUILTIN_DETECTORS, ...compileRules(config.rules)];
+    this.reportPath = reportPath;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /** Number of values masked by this instance */
+  getMaskedCount(): number {
+    return this.masked;
+  }
+
+  getReportPath(): string | null {
+    return this.reportPath;
+  }
+
+  /**
+   * Return a deep copy of `payload` with secrets masked in every string,
+   * and record the findings in the report. The input is not modified.
+   *
+   * @param source - Report label (e.g. "observation", "mem_ingest")
+   * @param id - Local row ID, when the payload has one
+   */
+  redact<T>(source: string, payload: T, id?: number): T {
+    if (!this.enabled) return payload;
+
+    const findings: RedactionFinding[] = [];
+    const walk = (value: unknown, field: string): unknown => {
+      if (typeof value === "string") {
+        const { text, hits } = redactText(value, this.detectors, this.entropy);
+        for (const [detector, count] of hits) {
+          findings.push({ detector, field, count });
+        }
+        return text;
+      }
+      if (Array.isArray(value)) {
+        return value.map((v, i) => walk(v, `${field}[${i}]`));
+      }
+      if (value !== null && typeof value === "object") {
+        const out: Record<string, unknown> = {};
+        for (const [key, v] of Object.entries(value)) {
+          out[key] = walk(v, field ? `${field}.${key}` : key);
+        }
+        return out;
+      }
+      return value;
+    };
+
+    const result = walk(payload, "") as T;
+    if (findings.length > 0) {
+      this.masked += findings.reduce((sum, f) => sum + f.count, 0);
+      this.report(source, id, findings);
+    }
+    return result;
+  }
+
+  /** Fail-open append of findings to the report. Never throws. */
+  private report(
+    source: string,
+    id: number | undefined,
+    findings: RedactionFinding[],
+  ): void {
+    if (!this.reportPath) return;
+    const ts = new Date().toISOString();
+    const lines = findings.map((f) => {
+      const entry: RedactionReportEntry = { ts, source, ...f };
+      if (id !== undefined) entry.id = id;
+      return JSON.stringify(entry);
+    });
+    try {
+      const dir = dirname(this.reportPath);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      appendFileSync(this.reportPath, lines.join("\n") + "\n");
+    } catch {
+      // Reporting must never block a sync or tool call.
+    }
+  }
+}
+
+let shared: Redactor | null = null;
+
+/**
+ * The redactor for the `redaction` patterns in config.json, reporting to
+ * MEMFORGE_REDACTION_REPORT (default: ~/.memforge/redaction-report.jsonl).
+ */
+export function getRedactor(): Redactor {
+  if (!shared) {
+    shared = new Redactor(
+      getPluginConfig()?.redaction ?? {},
+      process.env.MEMFORGE_REDACTION_REPORT || DEFAULT_REPORT_PATH,
+    );
+  }
+  return shared;
+}
+
+/**
+ * Redact a payload with the configured patterns.
+ */
+export function redactPayload<T>(source: string, payload: T, id?: number): T {
+  return getRedactor().redact(source, payload, id);
+}
@@ -0,0 +1,254 @@
+/**
+ * Tests for SyncBackfill — dry-run planning, filtered pushes, orphan
+ * skipping, progress persistence and cancellation.
+ *
+ * Uses a temp claude-mem.db, a temp progress file and an injected push
+ * function, so no server is needed.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Database } from "bun:sqlite";
+import { SyncBackfill, type SyncBackfillOptions } from "../backfill";
+import { SyncFilter } from "../sync-filter";
+import type { LocalRow } from "../local-rows";
+import type { SyncItemKind } from "../pending-queue";
+
+const DAY = 86400;
+const BASE_EPOCH = Date.parse("2026-03-01T12:00:00Z") / 1000;
+
+let dir: string;
+let dbPath: string;
+let progressPath: string;
+let pushed: { kind: SyncItemKind; ids: number[] }[];
+
+function createDb(): void {
+  const db = new Database(dbPath);
+  db.run(
+    "CREATE TABLE observations (id INTEGER PRIMARY KEY AUTOINCREMENT, type TEXT, title TEXT, subtitle TEXT, narrative TEXT, project TEXT, text TEXT, facts TEXT, concepts TEXT, files_read TEXT, files_modified TEXT, created_at TEXT, created_at_epoch INTEGER, memory_session_id TEXT, prompt_number INTEGER, discovery_tokens INTEGER)",
+  );
+  db.run(
+    "CREATE TABLE session_summaries (id INTEGER PRIMARY KEY AUTOINCREMENT, memory_session_id TEXT, project TEXT, request TEXT, investigated TEXT, learned TEXT, completed TEXT, next_steps TEXT, files_read TEXT, files_edited TEXT, notes TEXT, prompt_number INTEGER, created_at TEXT, created_at_epoch INTEGER, discovery_tokens INTEGER)",
+  );
+  db.run(
+    "CREATE TABLE sdk_sessions (id INTEGER PRIMARY KEY AUTOINCREMENT, content_session_id TEXT, memory_session_id TEXT, project TEXT, user_prompt TEXT, started_at TEXT, started_at_epoch INTEGER, completed_at TEXT, completed_at_epoch INTEGER, status TEXT)",
+  );
+  // No user_prompts table — older claude-mem databases lack it
+  db.run(
+    "INSERT INTO sdk_sessions (id, content_session_id, memory_session_id, project, started_at_epoch) VALUES (1, 'c-1', 'm-1', 'a', ?)",
+    [BASE_EPOCH],
+  );
+  // 10 observations, one per day from 2026-03-01; odd ids in project "a"
+  for (let i = 1; i <= 10; i++) {
+    db.run(
+      "INSERT INTO observations (id, title, project, created_at_epoch, memory_session_id) VALUES (?, ?, ?, ?, 'm-1')",
+      [i, `obs-${i}`, i % 2 ? "a" : "b", BASE_EPOCH + (i - 1) * DAY],
+    );
+  }
+  for (let i = 1; i <= 3; i++) {
+    db.run(
+      "INSERT INTO session_summaries (id, project, created_at_epoch, memory_session_id) VALUES (?, ?, ?, 'm-1')",
+      [i, "a", BASE_EPOCH],
+    );
+  }
+  db.close();
+}
+
+function makeBackfill(
+  options: Partial<SyncBackfillOptions> = {},
+): SyncBackfill {
+  return new SyncBackfill({
+    dbPath,
+    progressPath,
+    batchSize: () => 3,
+    syncFilter: new SyncFilter(undefined),
+    logger: () => {},
+    push: async (kind: SyncItemKind, rows: LocalRow[]) => {
+      pushed.push({ kind, ids: rows.map((r) => r.id) });
+      return { synced: rows.length, failed: 0 };
+    },
+    ...options,
+  });
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "memforge-backfill-"));
+  dbPath = join(dir, "claude-mem.db");
+  progressPath = join(dir, "sync-backfill.json");
+  pushed = [];
+  createDb();
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("SyncBackfill.plan()", () => {
+  test("counts every row without filters", () => {
+    expect(makeBackfill().plan({})).toEqual({
+      sessions: 1,
+      prompts: 0,
+      observations: 10,
+      summaries: 3,
+      excluded: 0,
+      orphans: 0,
+    });
+  });
+
+  test("applies id range, date range, project and kind", () => {
+    const backfill = makeBackfill();
+    expect(
+      backfill.plan({ kind: "observation", fromId: 3, toId: 6 }).observations,
+    ).toBe(4);
+    expect(
+      backfill.plan({
+        kind: "observation",
+        since: "2026-03-02",
+        until: "2026-03-04",
+      }).observations,
+    ).toBe(3);
+    expect(
+      backfill.plan({ kind: "observation", project: "a" }).observations,
+    ).toBe(5);
+    expect(backfill.plan({ kind: "summary" })).toEqual({
+      sessions: 0,
+      prompts: 0,
+      observations: 0,
+      summaries: 3,
+      excluded: 0,
+      orphans: 0,
+    });
+  });
+
+  test("reports rows excluded by syncProjects rules", () => {
+    const backfill = makeBackfill({
+      syncFilter: new SyncFilter({ exclude: ["b"] }),
+    });
+    expect(backfill.plan({ kind: "observation" })).toEqual({
+      sessions: 0,
+      prompts: 0,
+      observations: 5,
+      summaries: 0,
+      excluded: 5,
+      orphans: 0,
+    });
+  });
+
+  test("skips rows whose session is missing", () => {
+    const db = new Database(dbPath);
+    db.run(
+      "INSERT INTO observations (id, title, project, created_at_epoch, memory_session_id) VALUES (11, 'orphan', 'a', ?, 'm-gone')",
+      [BASE_EPOCH],
+    );
+    db.close();
+
+    const plan = makeBackfill().plan({ kind: "observation" });
+    expect(plan.observations).toBe(10);
+    expect(plan.orphans).toBe(1);
+  });
+});
+
+describe("SyncBackfill.run()", () => {
+  test("pushes matching rows in batches and records progress", async () => {
+    const backfill = makeBackfill();
+    const result = await backfill.run({
+      kind: "observation",
+      fromId: 2,
+      toId: 8,
+    });
+
+    expect(pushed.map((p) => p.ids)).toEqual([[2, 3, 4], [5, 6, 7], [8]]);
+    expect(result.state).toBe("done");
+    expect(result.pushed).toBe(7);
+    expect(result.remaining).toBe(0);
+
+    const persisted = JSON.parse(readFileSync(progressPath, "utf-8"));
+    expect(persisted.state).toBe("done");
+    expect(backfill.getProgress()?.pushed).toBe(7);
+  });
+
+  test("pushes sessions before the rows that reference them", async () => {
+    await makeBackfill().run({});
+    expect(pushed.map((p) => p.kind)).toEqual([
+      "session",
+      "observation",
+      "observation",
+      "observation",
+      "observation",
+      "summary",
+    ]);
+  });
+
+  test("counts failed rows and keeps going", async () => {
+    const backfill = makeBackfill({
+      push: async (_kind, rows) => ({ synced: rows.length - 1, failed: 1 }),
+    });
+    const result = await backfill.run({ kind: "observation" });
+    expect(result.failed).toBe(4); // 4 batches of up to 3
+    expect(result.pushed).toBe(6);
+    expect(result.state).toBe("done");
+  });
+
+  test("waits out a sync pause and pushes the deferred rows", async () => {
+    let paused = false;
+    const backfill = makeBackfill({
+      push: async (kind, rows) => {
+        pushed.push({ kind, ids: rows.map((r) => r.id) });
+        if (pushed.length === 1) {
+          paused = true;
+          return { synced: 1, failed: 0, deferred: rows.length - 1 };
+        }
+        return { synced: rows.length, failed: 0 };
+      },
+      getPause: () => {
+        if (!paused) return null;
+        paused = false; // resumes on the next check
+        return { reason: "rate_limited", until: Date.now(), detail: "test" };
+      },
+    });
+    const result = await backfill.run({ kind: "observation" });
+
+    expect(pushed[1].ids).toEqual(pushed[0].ids.slice(1));
+    expect(result.pushed).toBe(10);
+    expect(result.failed).toBe(0);
+    expect(result.state).toBe("done");
+  });
+
+  test("cancel() stops after the current batch", async () => {
+    const backfill: SyncBackfill = makeBackfill({
+      push: async (kind, rows) => {
+        pushed.push({ kind, ids: rows.map((r) => r.id) });
+        if (pushed.length === 1) expect(backfill.cancel()).toBe(true);
+        return { synced: rows.length, failed: 0 };
+      },
+    });
+    const result = await backfill.run({});
+
+    expect(pushed).toHaveLength(1);
+    expect(result.state).toBe("cancelled");
+    expect(result.remaining).toBe(13); // the session batch went first
+    expect(backfill.cancel()).toBe(false);
+  });
+
+  test("refuses to start while another backfill is running", async () => {
+    writeFileSync(
+      progressPath,
+      JSON.stringify({ pid: 4242, state: "running", pushed: 1, total: 9 }),
+    );
+    const backfill = makeBackfill({ isAlive: () => true });
+    await expect(backfill.run({})).rejects.toThrow("already running");
+    expect(pushed).toHaveLength(0);
+  });
+
+  test("reports a running job whose process is gone as interrupted", () => {
+    writeFileSync(
+      progressPath,
+      JSON.stringify({ pid: 4242, state: "running", pushed: 1, total: 9 }),
+    );
+    const progress = makeBackfill({ isAlive: () => false }).getProgress();
+    expect(progress?.state).toBe("failed");
+    expect(progress?.error).toContain("interrupted");
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for BatchSizer — adaptive rows-per-push from latency and payload size.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { BatchSizer } from "../batch-sizer";
+
+const fast = { bytes: 10_000, latencyMs: 100, overloaded: false };
+
+describe("BatchSizer", () => {
+  test("starts at 100 by default", () => {
+    expect(new BatchSizer().get()).toBe(100);
+  });
+
+  test("clamps the initial size", () => {
+    expect(new BatchSizer({ initial: 5, min: 10 }).get()).toBe(10);
+    expect(new BatchSizer({ initial: 900, max: 500 }).get()).toBe(500);
+  });
+
+  test("halves on overload", () => {
+    const sizer = new BatchSizer();
+    sizer.record({ rows: 100, bytes: 0, latencyMs: 60000, overloaded: true });
+    expect(sizer.get()).toBe(50);
+  });
+
+  test("never shrinks below min", () => {
+    const sizer = new BatchSizer({ initial: 12, min: 10 });
+    sizer.record({ rows: 12, bytes: 0, latencyMs: 0, overloaded: true });
+    expect(sizer.get()).toBe(10);
+  });
+
+  test("shrinks proportionally when latency overshoots the target", () => {
+    const sizer = new BatchSizer({ targetLatencyMs: 5000 });
+    sizer.record({
+      rows: 100,
+      bytes: 10_000,
+      latencyMs: 10000,
+      overloaded: false,
+    });
+    expect(sizer.get()).toBe(50);
+  });
+
+  test("shrinks proportionally when payload bytes overshoot the target", () => {
+    const sizer = new BatchSizer({ targetBytes: 1000 });
+    sizer.record({ rows: 100, bytes: 4000, latencyMs: 100, overloaded: false });
+    expect(sizer.get()).toBe(25);
+  });
+
+  test("grows after a fast, small, full batch", () => {
+    const sizer = new BatchSizer();
+    sizer.record({ rows: 100, ...fast });
+    expect(sizer.get()).toBe(150);
+  });
+
+  test("does not grow from partial batches", () => {
+    const sizer = new BatchSizer();
+    sizer.record({ rows: 3, ...fast });
+    expect(sizer.get()).toBe(100);
+  });
+
+  test("never grows above max", () => {
+    const sizer = new BatchSizer({ initial: 400, max: 500 });
+    sizer.record({ rows: 400, ...fast });
+    expect(sizer.get()).toBe(500);
+  });
+
+  test("ignores empty samples", () => {
+    const sizer = new BatchSizer();
+    sizer.record({ rows: 0, bytes: 0, latencyMs: 0, overloaded: true });
+    expect(sizer.get()).toBe(100);
+  });
+});
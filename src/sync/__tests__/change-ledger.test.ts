@@ -0,0 +1,106 @@
+/**
+ * Tests for ChangeLedger — content hashes of synced rows used to detect
+ * edits and deletions below the sync watermark.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ChangeLedger, hashRow } from "../change-ledger";
+
+describe("hashRow", () => {
+  test("is stable for identical content", () => {
+    expect(hashRow({ id: 1, title: "a" })).toBe(hashRow({ id: 1, title: "a" }));
+  });
+
+  test("ignores key order", () => {
+    expect(hashRow({ id: 1, title: "a" })).toBe(hashRow({ title: "a", id: 1 }));
+  });
+
+  test("changes when any field changes", () => {
+    const base = hashRow({ id: 1, title: "a", narrative: null });
+    expect(hashRow({ id: 1, title: "b", narrative: null })).not.toBe(base);
+    expect(hashRow({ id: 1, title: "a", narrative: "x" })).not.toBe(base);
+  });
+});
+
+describe("ChangeLedger", () => {
+  let ledger: ChangeLedger;
+
+  beforeEach(() => {
+    ledger = new ChangeLedger();
+  });
+
+  afterEach(() => {
+    ledger.close();
+  });
+
+  test("starts empty", () => {
+    expect(ledger.size()).toBe(0);
+    expect(ledger.hashes("observation", 100).size).toBe(0);
+  });
+
+  test("record() upserts hashes per kind", () => {
+    ledger.record("observation", [
+      { id: 1, hash: "a" },
+      { id: 2, hash: "b" },
+    ]);
+    ledger.record("observation", [{ id: 1, hash: "a2" }]);
+    ledger.record("summary", [{ id: 1, hash: "s" }]);
+
+    expect(ledger.size()).toBe(3);
+    expect(ledger.size("observation")).toBe(2);
+    expect(ledger.hashes("observation", 100).get(1)).toBe("a2");
+    expect(ledger.hashes("summary", 100).get(1)).toBe("s");
+  });
+
+  test("hashes() only returns ids up to maxId", () => {
+    ledger.record("observation", [
+      { id: 1, hash: "a" },
+      { id: 5, hash: "b" },
+      { id: 9, hash: "c" },
+    ]);
+    expect([...ledger.hashes("observation", 5).keys()].sort()).toEqual([1, 5]);
+  });
+
+  test("remove() drops entries of one kind only", () => {
+    ledger.record("observation", [
+      { id: 1, hash: "a" },
+      { id: 2, hash: "b" },
+    ]);
+    ledger.record("summary", [{ id: 1, hash: "s" }]);
+    ledger.remove("observation", [1]);
+
+    expect(ledger.size("observation")).toBe(1);
+    expect(ledger.size("summary")).toBe(1);
+  });
+
+  test("clear() drops one kind or everything", () => {
+    ledger.record("observation", [{ id: 1, hash: "a" }]);
+    ledger.record("summary", [{ id: 1, hash: "s" }]);
+
+    ledger.clear("summary");
+    expect(ledger.size("observation")).toBe(1);
+    expect(ledger.size("summary")).toBe(0);
+
+    ledger.clear();
+    expect(ledger.size()).toBe(0);
+  });
+
+  test("persists across instances", () => {
+    const dir = mkdtempSync(join(tmpdir(), "memforge-ledger-"));
+    const path = join(dir, "sync-ledger.db");
+    try {
+      const first = new ChangeLedger({ path });
+      first.record("observation", [{ id: 7, hash: "h" }]);
+      first.close();
+
+      const second = new ChangeLedger({ path });
+      expect(second.hashes("observation", 10).get(7)).toBe("h");
+      second.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for claude-mem schema detection — column mapping, pre-rename
+ * layouts, extras and unsupported schemas.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { describeSchema, detectSchema } from "../claude-mem-schema";
+
+let db: Database;
+
+function createTables(sessionKeys: string, obsExtra = ""): void {
+  db.run(
+    `CREATE TABLE sdk_sessions (id INTEGER PRIMARY KEY, ${sessionKeys}, project TEXT)`,
+  );
+  db.run(
+    `CREATE TABLE observations (id INTEGER PRIMARY KEY, title TEXT, memory_session_id TEXT${obsExtra})`,
+  );
+  db.run(
+    "CREATE TABLE session_summaries (id INTEGER PRIMARY KEY, memory_session_id TEXT)",
+  );
+}
+
+beforeEach(() => {
+  db = new Database(":memory:");
+});
+
+afterEach(() => {
+  db.close();
+});
+
+describe("detectSchema", () => {
+  test("maps the current layout onto canonical columns", () => {
+    createTables("content_session_id TEXT, memory_session_id TEXT");
+    const schema = detectSchema(db);
+    expect(schema.layout).toBe("current");
+    expect(schema.problems).toEqual([]);
+    expect(schema.tables.session.columns.memory_session_id).toBe(
+      "memory_session_id",
+    );
+    expect(schema.tables.observation.columns.narrative).toBeNull();
+  });
+
+  test("follows pre-rename session key columns", () => {
+    createTables("claude_session_id TEXT, sdk_session_id TEXT");
+    const schema = detectSchema(db);
+    expect(schema.layout).toBe("legacy");
+    expect(schema.problems).toEqual([]);
+    expect(schema.tables.session.columns.content_session_id).toBe(
+      "claude_session_id",
+    );
+    expect(schema.tables.session.extras).toEqual([]);
+  });
+
+  test("lists unknown columns as extras", () => {
+    createTables(
+      "content_session_id TEXT, memory_session_id TEXT",
+      ", importance INTEGER",
+    );
+    expect(detectSchema(db).tables.observation.extras).toEqual(["importance"]);
+  });
+
+  test("reports a required table or column that is missing", () => {
+    db.run("CREATE TABLE sdk_sessions (id INTEGER PRIMARY KEY, project TEXT)");
+    db.run("CREATE TABLE observations (id INTEGER PRIMARY KEY)");
+    const schema = detectSchema(db);
+    expect(schema.problems).toEqual([
+      "sdk_sessions has no content_session_id, memory_session_id column (found: id, project)",
+      "observations has no memory_session_id column (found: id)",
+      "session_summaries table is missing",
+    ]);
+    // user_prompts is optional — absent, but not a problem
+    expect(schema.tables.prompt.exists).toBe(false);
+  });
+
+  test("reads the claude-mem migration version", () => {
+    createTables("content_session_id TEXT, memory_session_id TEXT");
+    expect(detectSchema(db).version).toBeNull();
+    db.run(
+      "CREATE TABLE schema_versions (id INTEGER PRIMARY KEY, version INTEGER)",
+    );
+    db.run("INSERT INTO schema_versions (version) VALUES (19), (21)");
+    const schema = detectSchema(db);
+    expect(schema.version).toBe(21);
+    expect(describeSchema(schema)).toStartWith(
+      "migration 21, current column names",
+    );
+  });
+});
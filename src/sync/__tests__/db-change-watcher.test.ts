@@ -0,0 +1,67 @@
+/**
+ * Tests for DbChangeWatcher — debounced watch on a SQLite file and its WAL.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { DbChangeWatcher } from "../db-change-watcher";
+
+let dir: string;
+let dbPath: string;
+let watcher: DbChangeWatcher | null = null;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "memforge-watch-test-"));
+  dbPath = join(dir, "claude-mem.db");
+  writeFileSync(dbPath, "");
+});
+
+afterEach(() => {
+  watcher?.stop();
+  watcher = null;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function startWatcher(onChange: () => void): DbChangeWatcher {
+  watcher = new DbChangeWatcher(dbPath, {
+    onChange,
+    logger: () => {},
+    debounceMs: 50,
+    maxDelayMs: 200,
+  });
+  expect(watcher.start()).toBe(true);
+  return watcher;
+}
+
+describe("DbChangeWatcher", () => {
+  test("fires once for a burst of WAL writes", async () => {
+    let calls = 0;
+    startWatcher(() => calls++);
+    for (let i = 0; i < 5; i++) {
+      appendFileSync(`${dbPath}-wal`, "frame");
+    }
+    await Bun.sleep(150);
+    expect(calls).toBe(1);
+  });
+
+  test("ignores other files in the directory", async () => {
+    let calls = 0;
+    startWatcher(() => calls++);
+    writeFileSync(join(dir, "claude-mem.log"), "line");
+    await Bun.sleep(150);
+    expect(calls).toBe(0);
+  });
+
+  test("stop() cancels a pending callback", async () => {
+    let calls = 0;
+    const w = startWatcher(() => calls++);
+    appendFileSync(dbPath, "page");
+    await Bun.sleep(10);
+    w.stop();
+    await Bun.sleep(100);
+    expect(calls).toBe(0);
+    expect(w.isWatching()).toBe(false);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for claude-mem.db reset detection — file identity and high-water IDs.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Database } from "bun:sqlite";
+import {
+  describeReset,
+  highWaterId,
+  highWaterIds,
+  readDbIdentity,
+  sameDatabase,
+} from "../db-identity";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "memforge-dbid-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("readDbIdentity / sameDatabase", () => {
+  test("returns null for a missing file", () => {
+    expect(readDbIdentity(join(dir, "missing.db"))).toBeNull();
+  });
+
+  test("same file has the same identity", () => {
+    const path = join(dir, "a.db");
+    new Database(path).close();
+    expect(sameDatabase(readDbIdentity(path)!, readDbIdentity(path)!)).toBe(
+      true,
+    );
+  });
+
+  test("different inode or creation time means a different file", () => {
+    const a = { ino: 1, birthtimeMs: 1000 };
+    expect(sameDatabase(a, { ino: 2, birthtimeMs: 1000 })).toBe(false);
+    expect(sameDatabase(a, { ino: 1, birthtimeMs: 2000 })).toBe(false);
+    // No creation time on one side — inode only
+    expect(sameDatabase(a, { ino: 1, birthtimeMs: 0 })).toBe(true);
+  });
+});
+
+describe("highWaterId", () => {
+  test("uses sqlite_sequence so deleting the newest row is not a reset", () => {
+    const db = new Database(":memory:");
+    db.run(
+      "CREATE TABLE observations (id INTEGER PRIMARY KEY AUTOINCREMENT, t TEXT)",
+    );
+    for (let i = 0; i < 5; i++)
+      db.run("INSERT INTO observations (t) VALUES ('x')");
+    db.run("DELETE FROM observations WHERE id = 5");
+    expect(highWaterId(db, "observations")).toBe(5);
+    db.close();
+  });
+
+  test("falls back to MAX(id) without AUTOINCREMENT", () => {
+    const db = new Database(":memory:");
+    db.run("CREATE TABLE observations (id INTEGER PRIMARY KEY, t TEXT)");
+    db.run("INSERT INTO observations (id, t) VALUES (7, 'x')");
+    expect(highWaterId(db, "observations")).toBe(7);
+    db.close();
+  });
+});
+
+describe("describeReset", () => {
+  const identity = { ino: 1, birthtimeMs: 1000 };
+  const lastIds = { session: 20, prompt: 30, observation: 50, summary: 10 };
+  const saved = { identity, lastIds };
+
+  test("null when the database is unchanged", () => {
+    expect(
+      describeReset(saved, {
+        identity,
+        maxIds: { ...lastIds, observation: 60 },
+      }),
+    ).toBeNull();
+  });
+
+  test("detects a replaced file", () => {
+    expect(
+      describeReset(saved, {
+        identity: { ino: 2, birthtimeMs: 3000 },
+        maxIds: { ...lastIds, observation: 60 },
+      }),
+    ).toContain("replaced");
+  });
+
+  test("detects IDs below the watermark", () => {
+    expect(
+      describeReset(saved, {
+        identity,
+        maxIds: { ...lastIds, observation: 3 },
+      }),
+    ).toContain("observation IDs restarted");
+    expect(
+      describeReset(saved, { identity, maxIds: { ...lastIds, summary: 2 } }),
+    ).toContain("summary IDs restarted");
+  });
+
+  test("detects a reset that restarted only sessions or prompts", () => {
+    expect(
+      describeReset(saved, { identity, maxIds: { ...lastIds, session: 1 } }),
+    ).toBe("session IDs restarted (max id 1 < watermark 20)");
+    expect(
+      describeReset(saved, { identity, maxIds: { ...lastIds, prompt: 4 } }),
+    ).toContain("prompt IDs restarted");
+  });
+
+  test("skips the file check when the watermark has no identity", () => {
+    expect(
+      describeReset(
+        { ...saved, identity: null },
+        { identity, maxIds: { ...lastIds, observation: 60 } },
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("highWaterIds", () => {
+  test("reads every kind's table, 0 for a missing user_prompts", () => {
+    const db = new Database(":memory:");
+    for (const table of ["sdk_sessions", "observations", "session_summaries"]) {
+      db.run(`CREATE TABLE ${table} (id INTEGER PRIMARY KEY AUTOINCREMENT)`);
+    }
+    db.run("INSERT INTO sdk_sessions (id) VALUES (4)");
+    db.run("INSERT INTO observations (id) VALUES (9)");
+    expect(highWaterIds(db)).toEqual({
+      session: 4,
+      prompt: 0,
+      observation: 9,
+      summary: 0,
+    });
+    db.close();
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for device identity — the persisted device ID and the
+ * device_id / content_hash stamp on pushed payloads.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { contentHash, loadDeviceId, stampPayload } from "../device-identity";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "memforge-device-test-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("loadDeviceId", () => {
+  test("creates the ID once and reads it back", () => {
+    const path = join(dir, "nested", "device-id");
+    const id = loadDeviceId(path);
+    expect(id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(readFileSync(path, "utf-8").trim()).toBe(id);
+    expect(loadDeviceId(path)).toBe(id);
+  });
+
+  test("replaces a file that is not a device ID", () => {
+    const path = join(dir, "device-id");
+    writeFileSync(path, "garbage");
+    const id = loadDeviceId(path);
+    expect(id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(loadDeviceId(path)).toBe(id);
+  });
+});
+
+describe("stampPayload", () => {
+  const observation = {
+    id: 7,
+    sdk_session_id: 3,
+    title: "Use WAL mode",
+    narrative: "Readers stop blocking the writer.",
+  };
+
+  test("adds device_id and a content hash to observations and summaries", () => {
+    const stamped = stampPayload("observation", observation, "device-a");
+    expect(stamped.device_id).toBe("device-a");
+    expect(stamped.content_hash).toBe(contentHash(observation));
+    expect(stampPayload("summary", observation, "device-a").device_id).toBe(
+      "device-a",
+    );
+  });
+
+  test("hashes the same content alike across devices and local IDs", () => {
+    const elsewhere = { ...observation, id: 912, sdk_session_id: 40 };
+    expect(
+      stampPayload("observation", elsewhere, "device-b").content_hash,
+    ).toBe(stampPayload("observation", observation, "device-a").content_hash);
+    expect(
+      contentHash({ ...observation, title: "Use rollback journal" }),
+    ).not.toBe(contentHash(observation));
+  });
+
+  test("leaves other kinds and already-stamped payloads alone", () => {
+    expect(stampPayload("session", observation, "device-a")).toBe(observation);
+    const stamped = stampPayload("observation", observation, "device-a");
+    expect(stampPayload("observation", stamped, "device-b")).toBe(stamped);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for local-rows — reading sessions, prompts, observations and
+ * summaries from claude-mem.db and recognising orphans.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+  localSchema,
+  readLocalRows,
+  readLocalRowsById,
+  sessionReady,
+  toPayload,
+} from "../local-rows";
+
+let db: Database;
+
+beforeEach(() => {
+  db = new Database(":memory:");
+  db.run(
+    "CREATE TABLE sdk_sessions (id INTEGER PRIMARY KEY AUTOINCREMENT, content_session_id TEXT, memory_session_id TEXT, project TEXT, user_prompt TEXT, started_at TEXT, started_at_epoch INTEGER, completed_at TEXT, completed_at_epoch INTEGER, status TEXT)",
+  );
+  db.run(
+    "CREATE TABLE observations (id INTEGER PRIMARY KEY AUTOINCREMENT, type TEXT, title TEXT, subtitle TEXT, narrative TEXT, project TEXT, text TEXT, facts TEXT, concepts TEXT, files_read TEXT, files_modified TEXT, created_at TEXT, created_at_epoch INTEGER, memory_session_id TEXT, prompt_number INTEGER, discovery_tokens INTEGER)",
+  );
+  db.run(
+    "INSERT INTO sdk_sessions (id, content_session_id, memory_session_id, project) VALUES (4, 'c-4', 'm-4', 'app')",
+  );
+  db.run(
+    "INSERT INTO observations (id, title, memory_session_id) VALUES (1, 'joined', 'm-4'), (2, 'orphan', 'm-missing'), (3, 'no session', NULL)",
+  );
+});
+
+afterEach(() => {
+  db.close();
+});
+
+describe("readLocalRows", () => {
+  test("joins observations to their session id", () => {
+    const rows = readLocalRows(db, "observation", 0, 100, 10);
+    expect(rows.map((r) => r.sdk_session_id)).toEqual([4, null, null]);
+  });
+
+  test("returns no prompts when user_prompts does not exist", () => {
+    expect(localSchema(db).tables.prompt.exists).toBe(false);
+    expect(readLocalRows(db, "prompt", 0, 100, 10)).toEqual([]);
+  });
+
+  test("readLocalRowsById() skips ids without a row", () => {
+    const rows = readLocalRowsById(db, "observation", [3, 1, 99]);
+    expect(rows.map((r) => r.id)).toEqual([3, 1]);
+  });
+});
+
+describe("schema-adaptive reads", () => {
+  test("passes unknown columns through as extras", () => {
+    const extended = new Database(":memory:");
+    extended.run(
+      "CREATE TABLE sdk_sessions (id INTEGER PRIMARY KEY, content_session_id TEXT, memory_session_id TEXT, project TEXT)",
+    );
+    extended.run(
+      "CREATE TABLE observations (id INTEGER PRIMARY KEY, title TEXT, memory_session_id TEXT, importance INTEGER)",
+    );
+    extended.run(
+      "INSERT INTO observations (id, title, importance) VALUES (1, 'rated', 3), (2, 'unrated', NULL)",
+    );
+
+    const [rated, unrated] = readLocalRows(extended, "observation", 0, 10, 10);
+    expect(toPayload("observation", rated).extras).toEqual({ importance: 3 });
+    expect(toPayload("observation", rated).narrative).toBeNull();
+    expect("extras" in toPayload("observation", unrated)).toBe(false);
+    extended.close();
+  });
+
+  test("reads pre-rename session columns under their current names", () => {
+    const legacy = new Database(":memory:");
+    legacy.run(
+      "CREATE TABLE sdk_sessions (id INTEGER PRIMARY KEY, claude_session_id TEXT, sdk_session_id TEXT, project TEXT)",
+    );
+    legacy.run(
+      "CREATE TABLE observations (id INTEGER PRIMARY KEY, title TEXT, sdk_session_id TEXT)",
+    );
+    legacy.run(
+      "INSERT INTO sdk_sessions (id, claude_session_id, sdk_session_id) VALUES (7, 'c-7', 'm-7')",
+    );
+    legacy.run(
+      "INSERT INTO observations (id, title, sdk_session_id) VALUES (1, 'old', 'm-7')",
+    );
+
+    const [session] = readLocalRows(legacy, "session", 0, 10, 1);
+    expect(toPayload("session", session).memory_session_id).toBe("m-7");
+    const [obs] = readLocalRows(legacy, "observation", 0, 10, 1);
+    expect(obs.sdk_session_id).toBe(7);
+    legacy.close();
+  });
+});
+
+describe("sessionReady", () => {
+  test("requires a joined session at or below the session watermark", () => {
+    const [joined, orphan] = readLocalRows(db, "observation", 0, 2, 2);
+    expect(sessionReady("observation", joined)).toBe(true);
+    expect(sessionReady("observation", joined, 4)).toBe(true);
+    expect(sessionReady("observation", joined, 3)).toBe(false);
+    expect(sessionReady("observation", orphan)).toBe(false);
+  });
+
+  test("treats sessions as always ready", () => {
+    const [session] = readLocalRows(db, "session", 0, 100, 1);
+    expect(sessionReady("session", session, 0)).toBe(true);
+  });
+});
+
+describe("toPayload", () => {
+  test("keeps a missing session as null instead of defaulting it", () => {
+    const orphan = readLocalRows(db, "observation", 1, 2, 1)[0];
+    expect(toPayload("observation", orphan).sdk_session_id).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for OrphanPark — rows held back until their session syncs.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { OrphanPark } from "../orphan-park";
+
+describe("OrphanPark", () => {
+  let park: OrphanPark;
+
+  beforeEach(() => {
+    park = new OrphanPark();
+  });
+
+  afterEach(() => {
+    park.close();
+  });
+
+  test("starts empty", () => {
+    expect(park.size()).toBe(0);
+    expect(park.ids("observation")).toEqual([]);
+  });
+
+  test("park() keeps ids per kind, ascending and without duplicates", () => {
+    park.park("observation", [9, 3]);
+    park.park("observation", [3, 5]);
+    park.park("summary", [3]);
+
+    expect(park.ids("observation")).toEqual([3, 5, 9]);
+    expect(park.size("observation")).toBe(3);
+    expect(park.size()).toBe(4);
+  });
+
+  test("remove() unparks rows of one kind only", () => {
+    park.park("observation", [1, 2]);
+    park.park("prompt", [1]);
+    park.remove("observation", [1]);
+
+    expect(park.ids("observation")).toEqual([2]);
+    expect(park.ids("prompt")).toEqual([1]);
+  });
+
+  test("clear() drops everything", () => {
+    park.park("observation", [1]);
+    park.park("summary", [1]);
+    park.clear();
+    expect(park.size()).toBe(0);
+  });
+
+  test("persists across instances", () => {
+    const dir = mkdtempSync(join(tmpdir(), "memforge-park-"));
+    const path = join(dir, "sync-parked.db");
+    try {
+      const first = new OrphanPark({ path });
+      first.park("observation", [7]);
+      first.close();
+
+      const second = new OrphanPark({ path });
+      expect(second.ids("observation")).toEqual([7]);
+      second.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for Outbox — export-mode request log, rotation and replay.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { existsSync, mkdtempSync, readdirSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { Outbox, type OutboxEntry } from "../outbox";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "memforge-outbox-test-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function push(id: number) {
+  return {
+    method: "POST" as const,
+    path: "/api/sync/push",
+    body: { observations: [{ id }] },
+  };
+}
+
+describe("Outbox", () => {
+  test("appends one line per request and rotates full files", () => {
+    const box = new Outbox(dir, 200);
+    for (let id = 1; id <= 4; id++) box.write(push(id));
+
+    const summary = box.summary();
+    expect(summary.entries).toBe(4);
+    expect(summary.files).toBeGreaterThan(1);
+  });
+
+  test("replays in write order and moves sent files aside", async () => {
+    const box = new Outbox(dir, 200);
+    for (let id = 1; id <= 4; id++) box.write(push(id));
+
+    const sent: unknown[] = [];
+    const result = await box.replay(async (entry: OutboxEntry) => {
+      sent.push(entry.body.observations);
+      return null;
+    });
+
+    expect(result.sent).toBe(4);
+    expect(sent).toEqual([[{ id: 1 }], [{ id: 2 }], [{ id: 3 }], [{ id: 4 }]]);
+    expect(box.summary().entries).toBe(0);
+    expect(readdirSync(join(dir, "sent")).length).toBe(result.files);
+  });
+
+  test("stops at a failure and keeps the unsent lines", async () => {
+    const box = new Outbox(dir);
+    for (let id = 1; id <= 3; id++) box.write(push(id));
+
+    const result = await box.replay(async (entry) =>
+      (entry.body.observations as { id: number }[])[0].id === 2
+        ? "HTTP 503"
+        : null,
+    );
+
+    expect(result).toEqual({ sent: 1, files: 0, error: "HTTP 503" });
+    expect(box.summary().entries).toBe(2);
+    expect(existsSync(join(dir, "sent"))).toBe(false);
+  });
+
+  test("keeps each entry's idempotency key across replays", async () => {
+    const box = new Outbox(dir);
+    box.write(push(1));
+
+    const keys: (string | undefined)[] = [];
+    await box.replay(async (entry) => {
+      keys.push(entry.idempotencyKey);
+      return "HTTP 503";
+    });
+    await box.replay(async (entry) => {
+      keys.push(entry.idempotencyKey);
+      return null;
+    });
+
+    expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(keys[1]).toBe(keys[0]);
+  });
+});
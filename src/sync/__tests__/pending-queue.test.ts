@@ -1,15 +1,23 @@
 /**
- * Tests for PendingQueue — in-memory retry queue for failed sync operations.
+ * Tests for PendingQueue — durable retry queue for failed sync operations.
  */
 
-import { describe, test, expect, beforeEach } from "bun:test";
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
 import { PendingQueue } from "../pending-queue";
 
 describe("PendingQueue", () => {
   let queue: PendingQueue;
 
   beforeEach(() => {
-    queue = new PendingQueue();
+    // baseDelayMs: 0 keeps items immediately due so retry-state tests stay simple
+    queue = new PendingQueue({ baseDelayMs: 0 });
+  });
+
+  afterEach(() => {
+    queue.close();
   });
 
   test("starts empty", () => {
@@ -18,60 +26,280 @@ describe("PendingQueue", () => {
   });
 
   test("add() inserts item", () => {
-    queue.add({ id: 1, title: "test" });
+    queue.add("observation", { id: 1, title: "test" });
     expect(queue.size()).toBe(1);
   });
 
   test("add() deduplicates by id", () => {
-    queue.add({ id: 1, title: "first" });
-    queue.add({ id: 1, title: "second" });
+    queue.add("observation", { id: 1, title: "first" });
+    queue.add("observation", { id: 1, title: "second" });
     expect(queue.size()).toBe(1);
   });
 
   test("add() increments retryCount on duplicate", () => {
-    queue.add({ id: 1, title: "test" });
-    queue.add({ id: 1, title: "test" });
-    queue.add({ id: 1, title: "test" });
-    const items = queue.getRetryItems();
+    queue.add("observation", { id: 1, title: "test" });
+    queue.add("observation", { id: 1, title: "test" });
+    queue.add("observation", { id: 1, title: "test" });
+    const items = queue.list();
     expect(items[0].retryCount).toBe(2);
   });
 
+  test("add() round-trips the observation payload", () => {
+    queue.add("observation", { id: 7, title: "payload", facts: "[]" });
+    expect(queue.list()[0].payload).toEqual({
+      id: 7,
+      title: "payload",
+      facts: "[]",
+    });
+  });
+
   test("remove() deletes item by id", () => {
-    queue.add({ id: 1, title: "a" });
-    queue.add({ id: 2, title: "b" });
-    queue.remove(1);
+    queue.add("observation", { id: 1, title: "a" });
+    queue.add("observation", { id: 2, title: "b" });
+    queue.remove("observation", 1);
     expect(queue.size()).toBe(1);
   });
 
   test("getRetryItems() excludes items exceeding max retries", () => {
-    queue.add({ id: 1, title: "test" });
+    queue.add("observation", { id: 1, title: "test" });
     // Increment retry 5 times to exceed maxRetries (5)
     for (let i = 0; i < 5; i++) {
-      queue.incrementRetry(1);
+      queue.incrementRetry("observation", 1);
     }
     expect(queue.getRetryItems()).toEqual([]);
     expect(queue.size()).toBe(1); // still in queue, just not retryable
   });
 
-  test("clearFailed() removes items exceeding max retries", () => {
-    queue.add({ id: 1, title: "will-fail" });
-    queue.add({ id: 2, title: "will-succeed" });
+  test("moveFailedToDeadLetter() moves items exceeding max retries", () => {
+    queue.add("observation", { id: 1, title: "will-fail" });
+    queue.add("observation", { id: 2, title: "will-succeed" });
     for (let i = 0; i < 5; i++) {
-      queue.incrementRetry(1);
+      queue.incrementRetry("observation", 1);
     }
-    queue.clearFailed();
+    expect(queue.moveFailedToDeadLetter()).toBe(1);
     expect(queue.size()).toBe(1); // only id:2 remains
+    expect(queue.deadLetterCount()).toBe(1);
   });
 
   test("clear() removes all items", () => {
-    queue.add({ id: 1, title: "a" });
-    queue.add({ id: 2, title: "b" });
+    queue.add("observation", { id: 1, title: "a" });
+    queue.add("observation", { id: 2, title: "b" });
     queue.clear();
     expect(queue.size()).toBe(0);
   });
 
   test("incrementRetry() on non-existent id is no-op", () => {
-    queue.incrementRetry(999);
+    queue.incrementRetry("observation", 999);
     expect(queue.size()).toBe(0);
   });
 });
+
+describe("PendingQueue backoff", () => {
+  test("new items are not due until the base delay elapses", () => {
+    const queue = new PendingQueue({ baseDelayMs: 60_000 });
+    queue.add("observation", { id: 1, title: "test" });
+    expect(queue.getRetryItems()).toEqual([]);
+    expect(queue.getRetryItems(Date.now() + 60_000)).toHaveLength(1);
+    queue.close();
+  });
+
+  test("incrementRetry() doubles the delay up to the cap", () => {
+    const queue = new PendingQueue({ baseDelayMs: 1000, maxDelayMs: 3000 });
+    queue.add("observation", { id: 1, title: "test" });
+
+    const before = Date.now();
+    queue.incrementRetry("observation", 1); // retryCount 1 → 2s
+    const first = queue.list()[0].nextAttemptAt - before;
+    expect(first).toBeGreaterThanOrEqual(2000);
+    expect(first).toBeLessThan(2500);
+
+    queue.incrementRetry("observation", 1); // retryCount 2 → 4s, capped at 3s
+    const second = queue.list()[0].nextAttemptAt - before;
+    expect(second).toBeGreaterThanOrEqual(3000);
+    expect(second).toBeLessThan(3500);
+    queue.close();
+  });
+
+  test("nextAttemptAt() reports the earliest retryable item", () => {
+    const queue = new PendingQueue({ baseDelayMs: 1000 });
+    expect(queue.nextAttemptAt()).toBeNull();
+    queue.add("observation", { id: 1, title: "test" });
+    expect(queue.nextAttemptAt()).toBe(queue.list()[0].nextAttemptAt);
+    queue.close();
+  });
+});
+
+describe("PendingQueue persistence", () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), "memforge-queue-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("items survive reopening the queue file", () => {
+    const path = join(workDir, "sync-queue.db");
+    const first = new PendingQueue({ path });
+    first.add("observation", { id: 1, title: "a" });
+    first.add("observation", { id: 2, title: "b" });
+    first.incrementRetry("observation", 2);
+    first.close();
+
+    const second = new PendingQueue({ path });
+    const items = second.list();
+    expect(items.map((i) => i.id)).toEqual([1, 2]);
+    expect(items[1].retryCount).toBe(1);
+    second.close();
+  });
+
+  test("creates the parent directory when missing", () => {
+    const path = join(workDir, "nested", "dir", "sync-queue.db");
+    const queue = new PendingQueue({ path });
+    queue.add("observation", { id: 1, title: "a" });
+    expect(queue.size()).toBe(1);
+    queue.close();
+  });
+});
+
+describe("PendingQueue dead-letter", () => {
+  let queue: PendingQueue;
+
+  function exhaust(id: number, status: number, error: string): void {
+    queue.add("observation", { id, title: `obs-${id}` }, { status, error });
+    for (let i = 0; i < 5; i++) {
+      queue.incrementRetry("observation", id, { status, error });
+    }
+  }
+
+  beforeEach(() => {
+    queue = new PendingQueue({ baseDelayMs: 0 });
+  });
+
+  afterEach(() => {
+    queue.close();
+  });
+
+  test("records last HTTP status and error text", () => {
+    exhaust(1, 413, "HTTP 413: payload too large");
+    queue.moveFailedToDeadLetter();
+
+    const item = queue.getDeadLetter("observation", 1);
+    expect(item?.lastStatus).toBe(413);
+    expect(item?.lastError).toBe("HTTP 413: payload too large");
+    expect(item?.retryCount).toBe(5);
+    expect(item?.payload).toEqual({ id: 1, title: "obs-1" });
+  });
+
+  test("truncates long error text", () => {
+    exhaust(1, 500, "x".repeat(1000));
+    queue.moveFailedToDeadLetter();
+    expect(queue.getDeadLetter("observation", 1)?.lastError?.length).toBe(503);
+  });
+
+  test("requeueDeadLetter(id) restores one item with a fresh retry budget", () => {
+    exhaust(1, 500, "boom");
+    exhaust(2, 500, "boom");
+    queue.moveFailedToDeadLetter();
+
+    expect(queue.requeueDeadLetter({ kind: "observation", id: 1 })).toBe(1);
+    expect(queue.deadLetterCount()).toBe(1);
+    const retry = queue.getRetryItems();
+    expect(retry.map((i) => i.id)).toEqual([1]);
+    expect(retry[0].retryCount).toBe(0);
+  });
+
+  test("requeueDeadLetter() without id restores every item", () => {
+    exhaust(1, 500, "boom");
+    exhaust(2, 500, "boom");
+    queue.moveFailedToDeadLetter();
+
+    expect(queue.requeueDeadLetter()).toBe(2);
+    expect(queue.deadLetterCount()).toBe(0);
+    expect(queue.size()).toBe(2);
+  });
+
+  test("discardDeadLetter() removes one or all items", () => {
+    exhaust(1, 500, "boom");
+    exhaust(2, 500, "boom");
+    exhaust(3, 500, "boom");
+    queue.moveFailedToDeadLetter();
+
+    expect(queue.discardDeadLetter({ kind: "observation", id: 2 })).toBe(1);
+    expect(queue.discardDeadLetter({ kind: "observation", id: 99 })).toBe(0);
+    expect(queue.discardDeadLetter()).toBe(2);
+    expect(queue.deadLetterCount()).toBe(0);
+  });
+
+  test("listDeadLetters() honors the limit", () => {
+    exhaust(1, 500, "boom");
+    exhaust(2, 500, "boom");
+    queue.moveFailedToDeadLetter();
+    expect(queue.listDeadLetters(1)).toHaveLength(1);
+    expect(queue.listDeadLetters()).toHaveLength(2);
+  });
+
+  test("retirePending() keeps queued items visible but never requeues them", () => {
+    queue.add("observation", { id: 1, title: "old" });
+    expect(queue.retirePending("db reset")).toBe(1);
+    expect(queue.size()).toBe(0);
+
+    // A new row reusing the ID dead-letters beside the retired one
+    exhaust(1, 500, "boom");
+    queue.moveFailedToDeadLetter();
+    expect(queue.deadLetterCount()).toBe(2);
+    expect(queue.getDeadLetter("observation", 1)?.retiredAt).toBeNull();
+    const retired = queue.listDeadLetters().find((i) => i.retiredAt);
+    expect(retired?.payload.title).toBe("old");
+    expect(retired?.lastError).toBe("db reset");
+
+    expect(queue.requeueDeadLetter()).toBe(1);
+    expect(queue.deadLetterCount()).toBe(1);
+    expect(queue.discardDeadLetter({ kind: "observation", id: 1 })).toBe(1);
+    expect(queue.deadLetterCount()).toBe(0);
+  });
+});
+
+describe("PendingQueue item kinds", () => {
+  let queue: PendingQueue;
+
+  beforeEach(() => {
+    queue = new PendingQueue({ baseDelayMs: 0 });
+  });
+
+  afterEach(() => {
+    queue.close();
+  });
+
+  test("observations and summaries with the same id are separate items", () => {
+    queue.add("observation", { id: 1, title: "obs" });
+    queue.add("summary", { id: 1, request: "sum" });
+    expect(queue.size()).toBe(2);
+    expect(queue.size("observation")).toBe(1);
+    expect(queue.size("summary")).toBe(1);
+    expect(queue.list()[0].retryCount).toBe(0);
+    expect(queue.list()[1].retryCount).toBe(0);
+  });
+
+  test("remove() only affects the matching kind", () => {
+    queue.add("observation", { id: 1, title: "obs" });
+    queue.add("summary", { id: 1, request: "sum" });
+    queue.remove("summary", 1);
+    expect(queue.list().map((i) => i.kind)).toEqual(["observation"]);
+  });
+
+  test("dead-letter items keep their kind", () => {
+    queue.add("summary", { id: 4, request: "sum" }, { status: 500 });
+    for (let i = 0; i < 5; i++) {
+      queue.incrementRetry("summary", 4, { status: 500 });
+    }
+    queue.moveFailedToDeadLetter();
+    expect(queue.getDeadLetter("observation", 4)).toBeNull();
+    expect(queue.getDeadLetter("summary", 4)?.payload).toEqual({
+      id: 4,
+      request: "sum",
+    });
+  });
+});
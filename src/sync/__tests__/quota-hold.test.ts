@@ -0,0 +1,53 @@
+/**
+ * Tests for QuotaHold — observations held for priority sync near the quota.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { QuotaHold } from "../quota-hold";
+
+describe("QuotaHold", () => {
+  let hold: QuotaHold;
+
+  beforeEach(() => {
+    hold = new QuotaHold();
+  });
+
+  afterEach(() => {
+    hold.close();
+  });
+
+  test("top() returns the highest scores first, lowest id on ties", () => {
+    hold.hold("observation", [
+      { id: 1, score: 10 },
+      { id: 2, score: 50 },
+      { id: 3, score: 30 },
+      { id: 4, score: 50 },
+    ]);
+
+    expect(hold.top("observation", 3)).toEqual([2, 4, 3]);
+    expect(hold.ids("observation")).toEqual([1, 2, 3, 4]);
+  });
+
+  test("holding a row again updates its score", () => {
+    hold.hold("observation", [
+      { id: 1, score: 10 },
+      { id: 2, score: 20 },
+    ]);
+    hold.hold("observation", [{ id: 1, score: 90 }]);
+
+    expect(hold.top("observation", 2)).toEqual([1, 2]);
+    expect(hold.size("observation")).toBe(2);
+  });
+
+  test("remove() and clear() release rows", () => {
+    hold.hold("observation", [
+      { id: 1, score: 10 },
+      { id: 2, score: 20 },
+    ]);
+    hold.remove("observation", [2]);
+    expect(hold.ids("observation")).toEqual([1]);
+
+    hold.clear();
+    expect(hold.size()).toBe(0);
+  });
+});
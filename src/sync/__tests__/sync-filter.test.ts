@@ -0,0 +1,73 @@
+/**
+ * Tests for SyncFilter — per-project allow/deny rules applied by SyncPoller.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { homedir } from "os";
+import { SyncFilter, globToRegExp } from "../sync-filter";
+
+describe("globToRegExp", () => {
+  test("* matches any run of characters, ? exactly one", () => {
+    expect(globToRegExp("client-*").test("client-acme")).toBe(true);
+    expect(globToRegExp("client-*").test("internal")).toBe(false);
+    expect(globToRegExp("app-?").test("app-1")).toBe(true);
+    expect(globToRegExp("app-?").test("app-12")).toBe(false);
+  });
+
+  test("escapes regex metacharacters", () => {
+    expect(globToRegExp("a.b").test("a.b")).toBe(true);
+    expect(globToRegExp("a.b").test("axb")).toBe(false);
+  });
+});
+
+describe("SyncFilter", () => {
+  test("allows everything with no rules", () => {
+    const filter = new SyncFilter();
+    expect(filter.isActive()).toBe(false);
+    expect(filter.match({ project: "anything" })).toBeNull();
+  });
+
+  test("exclude blocks matching projects", () => {
+    const filter = new SyncFilter({ exclude: ["client-*"] });
+    expect(filter.match({ project: "client-acme" })).toBe("exclude:client-*");
+    expect(filter.match({ project: "internal" })).toBeNull();
+  });
+
+  test("include allows only matching projects", () => {
+    const filter = new SyncFilter({ include: ["internal-*", "tools"] });
+    expect(filter.match({ project: "internal-api" })).toBeNull();
+    expect(filter.match({ project: "tools" })).toBeNull();
+    expect(filter.match({ project: "client-acme" })).toBe("include:(no match)");
+    expect(filter.match({ project: null })).toBe("include:(no match)");
+  });
+
+  test("exclude wins over include", () => {
+    const filter = new SyncFilter({
+      include: ["*"],
+      exclude: ["secret"],
+    });
+    expect(filter.match({ project: "secret" })).toBe("exclude:secret");
+  });
+
+  test("excludePaths matches file path prefixes", () => {
+    const filter = new SyncFilter({ excludePaths: ["/work/clients/"] });
+    expect(
+      filter.match({
+        project: "p",
+        files_read: '["/work/internal/a.ts"]',
+        files_modified: '["/work/clients/acme/b.ts"]',
+      }),
+    ).toBe("excludePaths:/work/clients/");
+    expect(
+      filter.match({ project: "p", files_edited: '["/work/internal/c.ts"]' }),
+    ).toBeNull();
+  });
+
+  test("excludePaths expands ~ and tolerates non-JSON columns", () => {
+    const filter = new SyncFilter({ excludePaths: ["~/clients/"] });
+    expect(
+      filter.match({ project: "p", files_read: `${homedir()}/clients/x.ts` }),
+    ).toBe("excludePaths:~/clients/");
+    expect(filter.match({ project: "p", files_read: "[]" })).toBeNull();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for SyncLeader — lease-file leader election between MCP servers.
+ *
+ * Uses a temp lease path, fake PIDs and an injected liveness check, and
+ * drives elections with tick() instead of timers.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SyncLeader, type SyncLeaderOptions } from "../sync-leader";
+
+let dir: string;
+let path: string;
+let alive: Set<number>;
+
+function makeLeader(
+  pid: number,
+  events: string[],
+  options: Partial<SyncLeaderOptions> = {},
+): SyncLeader {
+  alive.add(pid);
+  return new SyncLeader({
+    path,
+    pid,
+    ttlMs: 1000,
+    isAlive: (p) => alive.has(p),
+    logger: () => {},
+    onAcquire: () => {
+      events.push(`acquire:${pid}`);
+    },
+    onRelease: () => {
+      events.push(`release:${pid}`);
+    },
+    ...options,
+  });
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "memforge-leader-"));
+  path = join(dir, "sync-leader.lock");
+  alive = new Set();
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("SyncLeader", () => {
+  test("first process becomes leader, second stays follower", async () => {
+    const events: string[] = [];
+    const a = makeLeader(101, events);
+    const b = makeLeader(202, events);
+
+    await a.tick(1000);
+    await b.tick(1000);
+
+    expect(a.isLeader()).toBe(true);
+    expect(b.isLeader()).toBe(false);
+    expect(events).toEqual(["acquire:101"]);
+    expect(b.getLeader(1000)?.pid).toBe(101);
+  });
+
+  test("heartbeat publishes the leader's stats", async () => {
+    const a = makeLeader(101, [], {
+      getStats: () => ({ syncedCount: 7 }) as never,
+    });
+    await a.tick(1000);
+
+    const lease = JSON.parse(readFileSync(path, "utf-8"));
+    expect(lease.pid).toBe(101);
+    expect(lease.stats.syncedCount).toBe(7);
+  });
+
+  test("follower takes over when the leader releases", async () => {
+    const events: string[] = [];
+    const a = makeLeader(101, events);
+    const b = makeLeader(202, events);
+    await a.tick(1000);
+
+    a.stop();
+    expect(existsSync(path)).toBe(false);
+    await b.tick(1100);
+
+    expect(b.isLeader()).toBe(true);
+    expect(events).toEqual(["acquire:101", "release:101", "acquire:202"]);
+  });
+
+  test("follower takes over when the leader process is gone", async () => {
+    const a = makeLeader(101, []);
+    const b = makeLeader(202, []);
+    await a.tick(1000);
+
+    alive.delete(101); // crashed without releasing
+    await b.tick(1100);
+
+    expect(b.isLeader()).toBe(true);
+  });
+
+  test("follower takes over when the heartbeat is older than the TTL", async () => {
+    const a = makeLeader(101, []);
+    const b = makeLeader(202, []);
+    await a.tick(1000);
+
+    await b.tick(1500); // within TTL
+    expect(b.isLeader()).toBe(false);
+
+    await b.tick(2500); // hung leader, heartbeat 1.5s old
+    expect(b.isLeader()).toBe(true);
+  });
+
+  test("two followers racing for one stale lease elect one leader", async () => {
+    const a = makeLeader(101, []);
+    await a.tick(1000);
+    alive.delete(101);
+
+    // C takes over in the middle of B's takeover: after B has read the
+    // stale lease and judged it dead, before B replaces it
+    const c = makeLeader(303, []);
+    let raced = false;
+    const b = makeLeader(202, [], {
+      isAlive: (pid) => {
+        if (pid === 101 && !raced) {
+          raced = true;
+          void c.tick(1100);
+        }
+        return alive.has(pid);
+      },
+    });
+    await b.tick(1100);
+
+    expect(raced).toBe(true);
+    expect(c.isLeader()).toBe(true);
+    expect(b.isLeader()).toBe(false);
+    expect(JSON.parse(readFileSync(path, "utf-8")).pid).toBe(303);
+    expect(existsSync(`${path}.takeover`)).toBe(false);
+  });
+
+  test("a takeover lock left by a dead process is cleared", async () => {
+    const a = makeLeader(101, []);
+    await a.tick(1000);
+    alive.delete(101);
+    writeFileSync(
+      `${path}.takeover`,
+      JSON.stringify({ pid: 999, at: new Date(1050).toISOString() }),
+    );
+
+    const b = makeLeader(202, []);
+    await b.tick(1100); // clears the abandoned lock
+    expect(b.isLeader()).toBe(false);
+    await b.tick(1200);
+    expect(b.isLeader()).toBe(true);
+  });
+
+  test("a leader that lost the lease steps down on its next heartbeat", async () => {
+    const events: string[] = [];
+    const a = makeLeader(101, events);
+    const b = makeLeader(202, events);
+    await a.tick(1000);
+    await b.tick(2500); // took over a stale lease
+
+    await a.tick(2600);
+    expect(a.isLeader()).toBe(false);
+    expect(b.isLeader()).toBe(true);
+    expect(events).toContain("release:101");
+  });
+
+  test("stop() as follower leaves the leader's lease alone", async () => {
+    const a = makeLeader(101, []);
+    const b = makeLeader(202, []);
+    await a.tick(1000);
+    await b.tick(1000);
+
+    b.stop();
+    expect(JSON.parse(readFileSync(path, "utf-8")).pid).toBe(101);
+  });
+
+  test("getLeader() returns null for a stale lease", async () => {
+    const a = makeLeader(101, []);
+    await a.tick(1000);
+    expect(a.getLeader(1500)?.pid).toBe(101);
+    expect(a.getLeader(5000)).toBeNull();
+  });
+});
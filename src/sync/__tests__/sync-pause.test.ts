@@ -0,0 +1,82 @@
+/**
+ * Tests for sync pauses — Retry-After parsing, rate-limit vs quota
+ * responses, and quota exhaustion from the account quota.
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  QUOTA_RECHECK_MS,
+  parseRetryAfter,
+  pauseForQuota,
+  pauseForResponse,
+} from "../sync-pause";
+import type { AccountQuota } from "../../mcp/api-client";
+
+const NOW = Date.parse("2026-10-01T12:00:00Z");
+
+function quota(used: number, limit: number): AccountQuota {
+  return {
+    observations: { used, limit },
+    synthesis: { limit_per_day: 10 },
+    search_modes: ["fts"],
+    rate_limit: 60,
+  };
+}
+
+describe("parseRetryAfter", () => {
+  test("reads delay-seconds", () => {
+    expect(parseRetryAfter("120", NOW)).toBe(120_000);
+  });
+
+  test("reads an HTTP date", () => {
+    expect(parseRetryAfter("Thu, 01 Oct 2026 12:05:00 GMT", NOW)).toBe(300_000);
+  });
+
+  test("returns null when absent or unparseable", () => {
+    expect(parseRetryAfter(null, NOW)).toBeNull();
+    expect(parseRetryAfter("soon", NOW)).toBeNull();
+  });
+});
+
+describe("pauseForResponse", () => {
+  test("pauses a 429 for its Retry-After", () => {
+    expect(pauseForResponse(429, "30", "Too Many Requests", NOW)).toEqual({
+      reason: "rate_limited",
+      until: NOW + 30_000,
+      detail: "rate limited by server (HTTP 429)",
+    });
+  });
+
+  test("defaults to one minute and never less than a second", () => {
+    expect(pauseForResponse(429, null, "", NOW)?.until).toBe(NOW + 60_000);
+    expect(pauseForResponse(429, "0", "", NOW)?.until).toBe(NOW + 1000);
+  });
+
+  test("treats 402 and a quota-worded 429 as quota exhaustion", () => {
+    const payment = pauseForResponse(402, null, "", NOW);
+    expect(payment?.reason).toBe("quota_exceeded");
+    expect(payment?.until).toBe(NOW + QUOTA_RECHECK_MS);
+    expect(
+      pauseForResponse(429, "60", '{"error":"Quota exceeded"}', NOW)?.reason,
+    ).toBe("quota_exceeded");
+  });
+
+  test("ignores statuses that are not back-off signals", () => {
+    expect(pauseForResponse(500, "30", "", NOW)).toBeNull();
+    expect(pauseForResponse(403, null, "quota", NOW)).toBeNull();
+  });
+});
+
+describe("pauseForQuota", () => {
+  test("pauses when the observation quota is used up", () => {
+    const pause = pauseForQuota(quota(1000, 1000), NOW);
+    expect(pause?.reason).toBe("quota_exceeded");
+    expect(pause?.until).toBe(NOW + QUOTA_RECHECK_MS);
+  });
+
+  test("does not pause with room left, no limit or no quota", () => {
+    expect(pauseForQuota(quota(999, 1000), NOW)).toBeNull();
+    expect(pauseForQuota(quota(5000, 0), NOW)).toBeNull();
+    expect(pauseForQuota(null, NOW)).toBeNull();
+  });
+});
@@ -11,24 +11,41 @@
 
 import { describe, test, expect } from "bun:test";
 import { SyncPoller } from "../sync-poller";
-import type { SyncStats } from "../sync-poller";
+import type { SyncPollerOptions, SyncStats } from "../sync-poller";
+import { RemoteSync } from "../remote-sync";
+import { PendingQueue } from "../pending-queue";
+import { ChangeLedger } from "../change-ledger";
+import { OrphanPark } from "../orphan-park";
+import { QuotaHold } from "../quota-hold";
+import type { DbIdentity } from "../db-identity";
+
+/** Poller on in-memory stores, so tests never touch ~/.memforge */
+function makePoller(options: SyncPollerOptions = {}): SyncPoller {
+  return new SyncPoller({
+    remote: new RemoteSync({ queue: new PendingQueue() }),
+    ledger: new ChangeLedger(),
+    park: new OrphanPark(),
+    hold: new QuotaHold(),
+    ...options,
+  });
+}
 
 describe("SyncPoller", () => {
   describe("construction", () => {
     test("creates with default options", () => {
-      const poller = new SyncPoller();
+      const poller = makePoller();
       expect(poller.isActive()).toBe(false);
     });
 
     test("creates with custom pollInterval", () => {
-      const poller = new SyncPoller({ pollInterval: 5000 });
+      const poller = makePoller({ pollInterval: 5000 });
       const stats = poller.getStats();
       expect(stats.currentInterval).toBe(5000);
     });
 
     test("creates with custom logger", () => {
       const logs: unknown[][] = [];
-      const poller = new SyncPoller({
+      const poller = makePoller({
         logger: (...args: unknown[]) => logs.push(args),
       });
       expect(poller.isActive()).toBe(false);
@@ -37,21 +54,40 @@ describe("SyncPoller", () => {
 
   describe("getStats()", () => {
     test("returns initial stats", () => {
-      const poller = new SyncPoller();
+      const poller = makePoller();
       const stats = poller.getStats();
       expect(stats).toEqual({
         lastObsId: 0,
         lastSumId: 0,
+        lastSessionId: 0,
+        lastPromptId: 0,
         syncedCount: 0,
         failedCount: 0,
         pendingCount: 0,
+        sessions: { synced: 0, failed: 0, pending: 0 },
+        prompts: { synced: 0, failed: 0, pending: 0 },
+        observations: { synced: 0, failed: 0, pending: 0 },
+        summaries: { synced: 0, failed: 0, pending: 0 },
+        parkedCount: 0,
+        heldCount: 0,
+        quotaRemaining: null,
+        deadLetterCount: 0,
+        updatedCount: 0,
+        deletedCount: 0,
+        filteredCount: 0,
+        filteredByRule: {},
+        dbResetCount: 0,
+        lastDbReset: null,
+        batchSize: 100,
         circuitState: "closed",
+        paused: null,
         currentInterval: 2000,
+        watching: false,
       });
     });
 
     test("SyncStats has all required fields", () => {
-      const poller = new SyncPoller();
+      const poller = makePoller();
       const stats: SyncStats = poller.getStats();
 
       // Type-level check — these must compile
@@ -60,6 +96,9 @@ describe("SyncPoller", () => {
       const _synced: number = stats.syncedCount;
       const _failed: number = stats.failedCount;
       const _pending: number = stats.pendingCount;
+      const _deadLetter: number = stats.deadLetterCount;
+      const _obsPending: number = stats.observations.pending;
+      const _sumFailed: number = stats.summaries.failed;
       const _circuit: "closed" | "open" | "half-open" = stats.circuitState;
       const _interval: number = stats.currentInterval;
 
@@ -69,19 +108,19 @@ describe("SyncPoller", () => {
     });
 
     test("initial circuit state is closed", () => {
-      const poller = new SyncPoller();
+      const poller = makePoller();
       expect(poller.getStats().circuitState).toBe("closed");
     });
   });
 
   describe("isActive()", () => {
     test("returns false before start", () => {
-      const poller = new SyncPoller();
+      const poller = makePoller();
       expect(poller.isActive()).toBe(false);
     });
 
     test("returns false after stop", () => {
-      const poller = new SyncPoller();
+      const poller = makePoller();
       poller.stop();
       expect(poller.isActive()).toBe(false);
     });
@@ -89,7 +128,7 @@ describe("SyncPoller", () => {
 
   describe("stop()", () => {
     test("is safe to call multiple times", () => {
-      const poller = new SyncPoller();
+      const poller = makePoller();
       poller.stop();
       poller.stop();
       poller.stop();
@@ -98,7 +137,7 @@ describe("SyncPoller", () => {
 
     test("logs stats on stop if was running", () => {
       const logs: unknown[][] = [];
-      const poller = new SyncPoller({
+      const poller = makePoller({
         logger: (...args: unknown[]) => logs.push(args),
       });
       // Manually set running state to test stop logging
@@ -109,10 +148,39 @@ describe("SyncPoller", () => {
     });
   });
 
+  describe("claude-mem.db reset", () => {
+    test("retires queued rows so a new row reusing the ID is not overwritten", () => {
+      const queue = new PendingQueue({ baseDelayMs: 0 });
+      const poller = makePoller({
+        remote: new RemoteSync({ queue }),
+        logger: () => {},
+      });
+      queue.add("observation", { id: 1, title: "old database" });
+
+      (
+        poller as unknown as {
+          rebaseline(identity: DbIdentity, reason: string): void;
+        }
+      ).rebaseline({ ino: 2, birthtimeMs: 0 }, "file replaced");
+
+      // The new database's row 1 fails its first push
+      queue.add("observation", { id: 1, title: "new database" });
+      expect(queue.getRetryItems().map((i) => i.payload.title)).toEqual([
+        "new database",
+      ]);
+      const [retired] = queue.listDeadLetters();
+      expect(retired.payload.title).toBe("old database");
+      expect(retired.retiredAt).not.toBeNull();
+      expect(retired.lastError).toContain("claude-mem.db was reset");
+      expect(queue.requeueDeadLetter()).toBe(0);
+      queue.close();
+    });
+  });
+
   describe("start()", () => {
     test("does not crash and can be stopped", async () => {
       const logs: unknown[][] = [];
-      const poller = new SyncPoller({
+      const poller = makePoller({
         logger: (...args: unknown[]) => logs.push(args),
       });
       await poller.start();
@@ -0,0 +1,71 @@
+/**
+ * Tests for sync priority — observation scoring and the quota budget that
+ * turns priority sync on.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { priorityBudget, scoreObservation } from "../sync-priority";
+import type { AccountQuota } from "../../mcp/api-client";
+
+function quota(used: number, limit: number): AccountQuota {
+  return {
+    observations: { used, limit },
+    synthesis: { limit_per_day: 10 },
+    search_modes: ["fts"],
+    rate_limit: 60,
+  };
+}
+
+describe("scoreObservation", () => {
+  test("ranks decisions above discoveries", () => {
+    const decision = scoreObservation({
+      type: "decision",
+      narrative: null,
+      concepts: null,
+    });
+    const discovery = scoreObservation({
+      type: "discovery",
+      narrative: null,
+      concepts: null,
+    });
+    expect(decision).toBeGreaterThan(discovery);
+  });
+
+  test("adds capped points for narrative length and concepts", () => {
+    expect(
+      scoreObservation({
+        type: "change",
+        narrative: "x".repeat(550),
+        concepts: '["a","b"]',
+      }),
+    ).toBe(20 + 5 + 10);
+    expect(
+      scoreObservation({
+        type: "unknown",
+        narrative: "x".repeat(100_000),
+        concepts: "a, b, c, d, e, f",
+      }),
+    ).toBe(10 + 20 + 20);
+  });
+});
+
+describe("priorityBudget", () => {
+  test("is null while the remaining quota is above 10% of the limit", () => {
+    expect(priorityBudget(quota(800, 1000), 0)).toBeNull();
+    expect(priorityBudget(quota(800, 1000), 100)).toBe(100);
+  });
+
+  test("honours an explicit threshold", () => {
+    expect(priorityBudget(quota(800, 1000), 0, 200)).toBe(200);
+    expect(priorityBudget(quota(950, 1000), 0, 10)).toBeNull();
+  });
+
+  test("is null with no limit or no quota", () => {
+    expect(priorityBudget(quota(5000, 0), 0)).toBeNull();
+    expect(priorityBudget(null, 0)).toBeNull();
+  });
+
+  test("never goes below zero", () => {
+    expect(priorityBudget(quota(1000, 1000), 5)).toBe(0);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for the shared sync state file — every store in one SQLite file,
+ * with rows kept per sync target.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { Database } from "bun:sqlite";
+import { openSyncStore } from "../sync-store";
+import { PendingQueue } from "../pending-queue";
+import { ChangeLedger } from "../change-ledger";
+import { OrphanPark } from "../orphan-park";
+import { QuotaHold } from "../quota-hold";
+
+describe("sync state file", () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = mkdtempSync(join(tmpdir(), "memforge-state-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("every store keeps its table in the same file", () => {
+    const path = join(workDir, "sync-state.db");
+    const queue = new PendingQueue({ path });
+    const ledger = new ChangeLedger({ path });
+    const park = new OrphanPark({ path });
+    const hold = new QuotaHold({ path });
+    queue.add("observation", { id: 1, title: "a" });
+    ledger.record("observation", [{ id: 2, hash: "h" }]);
+    park.park("prompt", [3]);
+    hold.hold("observation", [{ id: 4, score: 1 }]);
+    for (const store of [queue, ledger, park, hold]) store.close();
+
+    const db = new Database(path, { readonly: true });
+    const tables = db
+      .query(
+        "SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name",
+      )
+      .all() as { name: string }[];
+    db.close();
+    expect(tables.map((t) => t.name)).toEqual([
+      "dead_letter",
+      "held",
+      "ledger",
+      "parked",
+      "pending",
+      "retired",
+    ]);
+    expect(readdirSync(workDir).filter((f) => f.endsWith(".db"))).toEqual([
+      "sync-state.db",
+    ]);
+  });
+
+  test("each sync target sees only its own rows", () => {
+    const path = join(workDir, "sync-state.db");
+    const queue = new PendingQueue({ path, target: "a" });
+    const ledger = new ChangeLedger({ path, target: "a" });
+    const park = new OrphanPark({ path, target: "a" });
+    const hold = new QuotaHold({ path, target: "a" });
+    queue.add("observation", { id: 1, title: "a" });
+    ledger.record("observation", [{ id: 1, hash: "h" }]);
+    park.park("prompt", [1]);
+    hold.hold("observation", [{ id: 1, score: 1 }]);
+
+    for (const store of [queue, ledger, park, hold]) store.setTarget("b");
+    expect(queue.size()).toBe(0);
+    expect(ledger.size()).toBe(0);
+    expect(park.size()).toBe(0);
+    expect(hold.size()).toBe(0);
+
+    // Same (kind, id) under the other target is a separate row
+    queue.add("observation", { id: 1, title: "b" });
+    queue.clear();
+    ledger.clear();
+    park.clear();
+    hold.clear();
+
+    for (const store of [queue, ledger, park, hold]) store.setTarget("a");
+    expect(queue.list()[0].payload.title).toBe("a");
+    expect(ledger.size()).toBe(1);
+    expect(park.ids("prompt")).toEqual([1]);
+    expect(hold.ids("observation")).toEqual([1]);
+    for (const store of [queue, ledger, park, hold]) store.close();
+  });
+
+  test("falls back to in-memory storage when the file cannot be opened", () => {
+    // A regular file where the parent directory should be
+    writeFileSync(join(workDir, "blocked"), "");
+    const db = openSyncStore(
+      join(workDir, "blocked", "sync-state.db"),
+      "Test",
+      ["CREATE TABLE IF NOT EXISTS t (id INTEGER PRIMARY KEY)"],
+    );
+    db.run("INSERT INTO t (id) VALUES (1)");
+    expect(db.query("SELECT COUNT(*) as c FROM t").get()).toEqual({ c: 1 });
+    db.close();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for WatermarkStore — atomic, versioned, per-target sync cursors.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createHash } from "crypto";
+import {
+  WatermarkStore,
+  readWatermarkFile,
+  targetKey,
+  type WatermarkTarget,
+} from "../watermark";
+
+let dir: string;
+let path: string;
+let legacyPath: string;
+
+const target: WatermarkTarget = {
+  dbPath: "/home/u/.claude-mem/claude-mem.db",
+  serverUrl: "https://memclaude.example.com",
+  apiKey: "cmem_ak_secret_key_123",
+};
+
+function makeStore(): WatermarkStore {
+  return new WatermarkStore({ path, legacyPath, logger: () => {} });
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "memforge-watermark-"));
+  path = join(dir, "sync-watermarks.json");
+  legacyPath = join(dir, ".sync-watermark.json");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("WatermarkStore", () => {
+  test("returns null for a target that never synced", () => {
+    expect(makeStore().load(target)).toBeNull();
+  });
+
+  test("round-trips a cursor", () => {
+    const store = makeStore();
+    const dbIdentity = { ino: 1234, birthtimeMs: 1700000000000 };
+    store.save(target, {
+      lastObservationId: 42,
+      lastSummaryId: 7,
+      lastSessionId: 5,
+      lastPromptId: 11,
+      dbIdentity,
+    });
+    expect(makeStore().load(target)).toEqual({
+      lastObservationId: 42,
+      lastSummaryId: 7,
+      lastSessionId: 5,
+      lastPromptId: 11,
+      dbIdentity,
+    });
+  });
+
+  test("reads cursors saved before sessions and prompts were synced", () => {
+    makeStore().save(target, { lastObservationId: 42, lastSummaryId: 7 });
+    const file = JSON.parse(readFileSync(path, "utf-8"));
+    const entry = file.targets[targetKey(target)];
+    delete entry.lastSessionId;
+    delete entry.lastPromptId;
+    file.checksum = createHash("sha256")
+      .update(JSON.stringify(file.targets))
+      .digest("hex");
+    writeFileSync(path, JSON.stringify(file));
+
+    const cursor = makeStore().load(target);
+    expect(cursor?.lastSessionId).toBe(0);
+    expect(cursor?.lastPromptId).toBe(0);
+  });
+
+  test("keeps cursors separate per server and account", () => {
+    const store = makeStore();
+    store.save(target, { lastObservationId: 42, lastSummaryId: 7 });
+
+    const otherServer = { ...target, serverUrl: "https://other.example.com" };
+    const otherKey = { ...target, apiKey: "cmem_ak_another" };
+    expect(store.load(otherServer)).toBeNull();
+    expect(store.load(otherKey)).toBeNull();
+
+    store.save(otherServer, { lastObservationId: 3, lastSummaryId: 1 });
+    expect(store.load(target)?.lastObservationId).toBe(42);
+    expect(store.list()).toHaveLength(2);
+  });
+
+  test("ignores a trailing slash on the server URL", () => {
+    expect(targetKey({ ...target, serverUrl: `${target.serverUrl}/` })).toBe(
+      targetKey(target),
+    );
+  });
+
+  test("never stores the API key in plaintext", () => {
+    makeStore().save(target, { lastObservationId: 1, lastSummaryId: 0 });
+    expect(readFileSync(path, "utf-8")).not.toContain(target.apiKey);
+  });
+
+  test("writes a versioned, checksummed file and keeps a backup", () => {
+    const store = makeStore();
+    store.save(target, { lastObservationId: 1, lastSummaryId: 0 });
+    store.save(target, { lastObservationId: 2, lastSummaryId: 0 });
+
+    const result = readWatermarkFile(path);
+    expect(result.kind).toBe("ok");
+    expect(existsSync(`${path}.bak`)).toBe(true);
+  });
+
+  test("falls back to the backup when the main file is corrupt", () => {
+    const store = makeStore();
+    store.save(target, { lastObservationId: 10, lastSummaryId: 0 });
+    store.save(target, { lastObservationId: 20, lastSummaryId: 0 });
+
+    writeFileSync(path, '{"version":2,"targets":{'); // torn write
+    expect(store.load(target)?.lastObservationId).toBe(10);
+  });
+
+  test("rejects a file whose checksum does not match", () => {
+    makeStore().save(target, { lastObservationId: 10, lastSummaryId: 0 });
+    const file = JSON.parse(readFileSync(path, "utf-8"));
+    file.targets[targetKey(target)].lastObservationId = 999;
+    writeFileSync(path, JSON.stringify(file));
+
+    expect(readWatermarkFile(path).kind).toBe("error");
+    expect(makeStore().load(target)).toBeNull();
+  });
+
+  test("migrates the legacy global watermark to the current target", () => {
+    writeFileSync(
+      legacyPath,
+      JSON.stringify({ lastObservationId: 55, lastSummaryId: 9 }),
+    );
+    const store = makeStore();
+
+    expect(store.load(target)).toEqual({
+      lastObservationId: 55,
+      lastSummaryId: 9,
+    });
+    expect(readWatermarkFile(path).kind).toBe("ok");
+
+    // Only the first target adopts it
+    writeFileSync(legacyPath, JSON.stringify({ lastObservationId: 99 }));
+    expect(store.load({ ...target, apiKey: "cmem_ak_other" })).toBeNull();
+  });
+});
@@ -0,0 +1,476 @@
+/**
+ * Sync Backfill
+ *
+ * Re-pushes a chosen slice of claude-mem.db — an ID range, a date range
+ * and/or one project — without touching the sync watermark. Used by the
+ * mem_sync_backfill tool and `bun run sync -- backfill`.
+ *
+ * - plan(): dry-run count of what would be pushed
+ * - run(): pushes in adaptively sized batches; failed rows land in the
+ *   pending queue and are retried by the sync poller. A sync pause (rate
+ *   limit / quota) is waited out and the deferred rows pushed after it
+ * - Progress (pushed, remaining, ETA) is written to
+ *   ~/.memforge/sync-backfill.json so mem_status in any process can show it,
+ *   and cancel() works across processes by flagging that file
+ *
+ * syncProjects rules and secret redaction apply as for regular sync. Kinds
+ * are pushed sessions first; rows without a session row are skipped (the
+ * poller's orphan park covers them once their session appears).
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { Database } from "bun:sqlite";
+import { remoteSync, type BatchResult } from "./remote-sync";
+import type { SyncPause } from "./sync-pause";
+import type { SyncItemKind } from "./pending-queue";
+import { SyncFilter } from "./sync-filter";
+import { processAlive } from "./sync-leader";
+import { DB_PATH } from "./db-identity";
+import {
+  SYNC_KINDS,
+  pushLocalRows,
+  readLocalRows,
+  sessionReady,
+  type LocalRow,
+} from "./local-rows";
+import { getPluginConfig } from "../mcp/api-client";
+
+const PROGRESS_PATH = join(homedir(), ".memforge", "sync-backfill.json");
+const PLAN_PAGE_SIZE = 500;
+const SECONDS_PER_DAY = 86400;
+const PAUSE_CHECK_MS = 1000; // how often a paused job checks for resume/cancel
+
+/** Which rows to backfill. All fields optional; dates are YYYY-MM-DD (UTC). */
+export interface BackfillFilter {
+  kind?: SyncItemKind | "all";
+  fromId?: number;
+  toId?: number;
+  since?: string;
+  until?: string;
+  project?: string;
+}
+
+/** Dry-run result */
+export interface BackfillPlan {
+  sessions: number;
+  prompts: number;
+  observations: number;
+  summaries: number;
+  /** Rows in range but excluded by syncProjects rules */
+  excluded: number;
+  /** Rows in range skipped because their session row is missing */
+  orphans: number;
+}
+
+/** Plan field counting each kind */
+const PLAN_FIELDS = {
+  session: "sessions",
+  prompt: "prompts",
+  observation: "observations",
+  summary: "summaries",
+} as const satisfies Record<SyncItemKind, keyof BackfillPlan>;
+
+export type BackfillState = "running" | "done" | "cancelled" | "failed";
+
+/** Contents of the progress file */
+export interface BackfillProgress {
+  pid: number;
+  state: BackfillState;
+  filter: BackfillFilter;
+  total: number;
+  pushed: number;
+  /** Rows that failed and were queued for retry */
+  failed: number;
+  remaining: number;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  etaSeconds: number | null;
+  cancelRequested: boolean;
+  error?: string;
+}
+
+/** What a backfill needs back from a push: row counts only */
+export type BackfillPushResult = Pick<
+  BatchResult,
+  "synced" | "failed" | "deferred"
+>;
+
+export interface SyncBackfillOptions {
+  dbPath?: string;
+  progressPath?: string;
+  /** Rows per batch; defaults to the adaptive push batch size */
+  batchSize?: () => number;
+  /** Push function; defaults to the regular sync push */
+  push?: (kind: SyncItemKind, rows: LocalRow[]) => Promise<BackfillPushResult>;
+  /** Current sync pause; defaults to the sync client's */
+  getPause?: () => SyncPause | null;
+  /** syncProjects rules; defaults to config.json */
+  syncFilter?: SyncFilter;
+  pid?: number;
+  isAlive?: (pid: number) => boolean;
+  logger?: (...args: unknown[]) => void;
+}
+
+/** Epoch seconds bounds for a YYYY-MM-DD range (inclusive days, UTC) */
+function epochRange(filter: BackfillFilter): { from: number; to: number } {
+  const from = filter.since
+    ? Date.parse(`${filter.since}T00:00:00Z`) / 1000
+    : -Infinity;
+  const to = filter.until
+    ? Date.parse(`${filter.until}T00:00:00Z`) / 1000 + SECONDS_PER_DAY - 1
+    : Infinity;
+  return { from, to };
+}
+
+/** Kinds covered by a filter, in push order */
+function kindsOf(filter: BackfillFilter): SyncItemKind[] {
+  const kind = filter.kind ?? "all";
+  return kind === "all" ? SYNC_KINDS : [kind];
+}
+
+/** Rows a plan would push */
+export function planTotal(plan: BackfillPlan): number {
+  return plan.sessions + plan.prompts + plan.observations + plan.summaries;
+}
+
+/** Per-kind counts of a plan, e.g. "2 session(s), 0 prompt(s), ..." */
+export function describePlan(plan: BackfillPlan): string {
+  return SYNC_KINDS.map((kind) => `${plan[PLAN_FIELDS[kind]]} ${kind}(s)`).join(
+    ", ",
+  );
+}
+
+/** When a row was created (sessions: when they started), epoch seconds */
+function rowEpoch(row: LocalRow): number | null {
+  return "started_at_epoch" in row
+    ? row.started_at_epoch
+    : row.created_at_epoch;
+}
+
+/** Human-readable description of a filter, e.g. for progress output */
+export function describeFilter(filter: BackfillFilter): string {
+  const parts: string[] = [filter.kind ?? "all"];
+  if (filter.fromId !== undefined || filter.toId !== undefined) {
+    parts.push(`ids ${filter.fromId ?? 1}–${filter.toId ?? "latest"}`);
+  }
+  if (filter.since || filter.until) {
+    parts.push(`dates ${filter.since ?? "…"} to ${filter.until ?? "…"}`);
+  }
+  if (filter.project) parts.push(`project ${filter.project}`);
+  return parts.join(", ");
+}
+
+/**
+ * Backfill runner. One job at a time per machine (checked via the progress
+ * file).
+ */
+export class SyncBackfill {
+  private dbPath: string;
+  private progressPath: string;
+  private batchSize: () => number;
+  private push: (
+    kind: SyncItemKind,
+    rows: LocalRow[],
+  ) => Promise<BackfillPushResult>;
+  private getPause: () => SyncPause | null;
+  private syncFilter: SyncFilter;
+  private pid: number;
+  private isAlive: (pid: number) => boolean;
+  private log: (...args: unknown[]) => void;
+
+  constructor(options: SyncBackfillOptions = {}) {
+    this.dbPath = options.dbPath ?? DB_PATH;
+    this.progressPath = options.progressPath ?? PROGRESS_PATH;
+    this.batchSize = options.batchSize ?? (() => remoteSync.getBatchSize());
+    this.push = options.push ?? pushLocalRows;
+    this.getPause = options.getPause ?? (() => remoteSync.getPause());
+    this.syncFilter =
+      options.syncFilter ?? new SyncFilter(getPluginConfig()?.syncProjects);
+    this.pid = options.pid ?? process.pid;
+    this.isAlive = options.isAlive ?? processAlive;
+    this.log = options.logger ?? console.error;
+  }
+
+  /**
+   * Count the rows a backfill with this filter would push.
+   */
+  plan(filter: BackfillFilter): BackfillPlan {
+    const plan: BackfillPlan = {
+      sessions: 0,
+      prompts: 0,
+      observations: 0,
+      summaries: 0,
+      excluded: 0,
+      orphans: 0,
+    };
+    this.withDb((db) => {
+      for (const kind of kindsOf(filter)) {
+        for (const page of this.pages(db, kind, filter, () => PLAN_PAGE_SIZE)) {
+          plan[PLAN_FIELDS[kind]] += page.kept.length;
+          plan.excluded += page.excluded;
+          plan.orphans += page.orphans;
+        }
+      }
+    });
+    return plan;
+  }
+
+  /**
+   * Push every row matching the filter. Resolves when the job finishes, is
+   * cancelled or fails; progress is persisted after each batch.
+   *
+   * @throws If another backfill is already running
+   */
+  async run(
+    filter: BackfillFilter,
+    onProgress?: (progress: BackfillProgress) => void,
+  ): Promise<BackfillProgress> {
+    const active = this.getProgress();
+    if (active?.state === "running") {
+      throw new Error(
+        `A backfill is already running (PID ${active.pid}, ${active.pushed}/${active.total} pushed)`,
+      );
+    }
+
+    const plan = this.plan(filter);
+    const now = new Date().toISOString();
+    const progress: BackfillProgress = {
+      pid: this.pid,
+      state: "running",
+      filter,
+      total: planTotal(plan),
+      pushed: 0,
+      failed: 0,
+      remaining: planTotal(plan),
+      startedAt: now,
+      updatedAt: now,
+      finishedAt: null,
+      etaSeconds: null,
+      cancelRequested: false,
+    };
+    this.write(progress);
+    this.log(
+      `[Backfill] Started: ${progress.total} row(s) (${describeFilter(filter)})`,
+    );
+
+    const started = Date.now();
+    try {
+      const db = new Database(this.dbPath, { readonly: true });
+      try {
+        for (const kind of kindsOf(filter)) {
+          for (const { kept } of this.pages(db, kind, filter, this.batchSize)) {
+            if (progress.cancelRequested || this.read()?.cancelRequested) {
+              progress.state = "cancelled";
+              break;
+            }
+            if (kept.length === 0) continue;
+
+            const result = await this.pushPage(kind, kept);
+            if (result.cancelled) progress.state = "cancelled";
+            progress.pushed += result.synced;
+            progress.failed += result.failed;
+            progress.remaining = Math.max(
+              0,
+              progress.total - progress.pushed - progress.failed,
+            );
+            const done = progress.pushed + progress.failed;
+            const elapsed = (Date.now() - started) / 1000;
+            progress.etaSeconds =
+              done > 0
+                ? Math.round((elapsed / done) * progress.remaining)
+                : null;
+            progress.updatedAt = new Date().toISOString();
+            // Keep a cancel that arrived during the push
+            progress.cancelRequested = this.read()?.cancelRequested === true;
+            this.write(progress);
+            onProgress?.({ ...progress });
+            if (progress.state === "cancelled") break;
+          }
+          if (progress.state === "cancelled") break;
+        }
+      } finally {
+        db.close();
+      }
+      if (progress.state === "running") progress.state = "done";
+    } catch (error) {
+      progress.state = "failed";
+      progress.error = error instanceof Error ? error.message : String(error);
+    }
+
+    progress.finishedAt = new Date().toISOString();
+    progress.updatedAt = progress.finishedAt;
+    progress.etaSeconds = null;
+    progress.cancelRequested = false;
+    this.write(progress);
+    this.log(
+      `[Backfill] ${progress.state}: ${progress.pushed} pushed, ${progress.failed} failed (queued for retry), ${progress.remaining} remaining`,
+    );
+    return progress;
+  }
+
+  /**
+   * Push one page. Rows deferred by a sync pause are pushed again once it
+   * ends; a cancel while waiting stops the page there.
+   */
+  private async pushPage(
+    kind: SyncItemKind,
+    rows: LocalRow[],
+  ): Promise<BackfillPushResult & { cancelled: boolean }> {
+    const total = { synced: 0, failed: 0, cancelled: false };
+    let pending = rows;
+    while (pending.length > 0) {
+      const result = await this.push(kind, pending);
+      total.synced += result.synced;
+      total.failed += result.failed;
+      const deferred = result.deferred ?? 0;
+      if (deferred === 0) break;
+      // A pause holds back the rest of the batch, so deferred rows are the tail
+      pending = pending.slice(pending.length - deferred);
+      if (!(await this.waitForResume())) {
+        total.cancelled = true;
+        break;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Wait while sync is paused.
+   *
+   * @returns False if the job was cancelled while waiting
+   */
+  private async waitForResume(): Promise<boolean> {
+    const pause = this.getPause();
+    if (pause) {
+      this.log(
+        `[Backfill] Sync paused: ${pause.detail} — waiting until ${new Date(pause.until).toISOString()}`,
+      );
+    }
+    while (this.getPause()) {
+      if (this.read()?.cancelRequested) return false;
+      await new Promise((resolve) => setTimeout(resolve, PAUSE_CHECK_MS));
+    }
+    return true;
+  }
+
+  /**
+   * Ask the running job (in this or another process) to stop after its
+   * current batch.
+   *
+   * @returns False if no job is running
+   */
+  cancel(): boolean {
+    const progress = this.getProgress();
+    if (progress?.state !== "running") return false;
+    this.write({ ...progress, cancelRequested: true });
+    return true;
+  }
+
+  /**
+   * Last or current job. A "running" job whose process is gone is reported
+   * as failed.
+   */
+  getProgress(): BackfillProgress | null {
+    const progress = this.read();
+    if (progress?.state === "running" && !this.isAlive(progress.pid)) {
+      return {
+        ...progress,
+        state: "failed",
+        etaSeconds: null,
+        error: `interrupted (PID ${progress.pid} exited)`,
+      };
+    }
+    return progress;
+  }
+
+  /**
+   * Page through rows of one kind in the ID range, keeping those that also
+   * match the date range, project and syncProjects rules and have a session.
+   *
+   * @param pageSize Read per page, so adaptive batch sizes apply mid-run
+   */
+  private *pages(
+    db: Database,
+    kind: SyncItemKind,
+    filter: BackfillFilter,
+    pageSize: () => number,
+  ): Generator<{ kept: LocalRow[]; excluded: number; orphans: number }> {
+    const { from, to } = epochRange(filter);
+    const maxId = filter.toId ?? Number.MAX_SAFE_INTEGER;
+    let afterId = Math.max(0, (filter.fromId ?? 1) - 1);
+
+    while (true) {
+      const limit = pageSize();
+      const rows = readLocalRows(db, kind, afterId, maxId, limit);
+      if (rows.length === 0) break;
+
+      const kept: LocalRow[] = [];
+      let excluded = 0;
+      let orphans = 0;
+      for (const row of rows) {
+        const epoch = rowEpoch(row) ?? 0;
+        if (epoch < from || epoch > to) continue;
+        if (filter.project && row.project !== filter.project) continue;
+        if (this.syncFilter.match(row) !== null) {
+          excluded++;
+        } else if (!sessionReady(kind, row)) {
+          orphans++;
+        } else {
+          kept.push(row);
+        }
+      }
+      yield { kept, excluded, orphans };
+
+      afterId = rows[rows.length - 1].id;
+      if (rows.length < limit) break;
+    }
+  }
+
+  private withDb(fn: (db: Database) => void): void {
+    const db = new Database(this.dbPath, { readonly: true });
+    try {
+      fn(db);
+    } finally {
+      db.close();
+    }
+  }
+
+  private read(): BackfillProgress | null {
+    try {
+      return JSON.parse(
+        readFileSync(this.progressPath, "utf-8"),
+      ) as BackfillProgress;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Write-then-rename so readers never see a half-written file */
+  private write(progress: BackfillProgress): void {
+    const dir = dirname(this.progressPath);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    const tmp = `${this.progressPath}.${this.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(progress, null, 2));
+    renameSync(tmp, this.progressPath);
+  }
+}
+
+let shared: SyncBackfill | null = null;
+
+/**
+ * The backfill runner `mem_sync_backfill` starts and `mem_status` reports
+ * progress from; one run at a time per MCP server.
+ */
+export function getSyncBackfill(): SyncBackfill {
+  if (!shared) shared = new SyncBackfill();
+  return shared;
+}
@@ -0,0 +1,90 @@
+/**
+ * Batch Sizer
+ *
+ * Tunes how many rows SyncPoller reads per /api/sync/push batch from the
+ * latency and payload size of recent pushes. Halves on overload (413 or
+ * timeout), shrinks proportionally when a batch overshoots the latency or
+ * byte target, and grows gently while full batches stay well under both.
+ */
+
+const DEFAULT_INITIAL = 100;
+const DEFAULT_MIN = 10;
+const DEFAULT_MAX = 500;
+const DEFAULT_TARGET_LATENCY_MS = 5000;
+const DEFAULT_TARGET_BYTES = 1024 * 1024; // 1 MiB of uncompressed JSON
+const GROWTH_FACTOR = 1.5;
+
+export interface BatchSizerOptions {
+  initial?: number;
+  min?: number;
+  max?: number;
+  targetLatencyMs?: number;
+  targetBytes?: number;
+}
+
+/** One observed push */
+export interface BatchSample {
+  rows: number;
+  /** Uncompressed JSON body size */
+  bytes: number;
+  latencyMs: number;
+  /** The server rejected the batch as too large or it timed out */
+  overloaded: boolean;
+}
+
+/**
+ * Adaptive batch size with clamping to [min, max].
+ */
+export class BatchSizer {
+  private size: number;
+  private min: number;
+  private max: number;
+  private targetLatencyMs: number;
+  private targetBytes: number;
+
+  constructor(options: BatchSizerOptions = {}) {
+    this.min = options.min ?? DEFAULT_MIN;
+    this.max = options.max ?? DEFAULT_MAX;
+    this.targetLatencyMs = options.targetLatencyMs ?? DEFAULT_TARGET_LATENCY_MS;
+    this.targetBytes = options.targetBytes ?? DEFAULT_TARGET_BYTES;
+    this.size = this.clamp(options.initial ?? DEFAULT_INITIAL);
+  }
+
+  /** Current batch size in rows */
+  get(): number {
+    return this.size;
+  }
+
+  /**
+   * Adjust the batch size from one observed push.
+   *
+   * @returns The new batch size
+   */
+  record(sample: BatchSample): number {
+    if (sample.rows <= 0) return this.size;
+
+    if (sample.overloaded) {
+      this.size = this.clamp(Math.floor(this.size / 2));
+      return this.size;
+    }
+
+    const latencyRatio = sample.latencyMs / this.targetLatencyMs;
+    const bytesRatio = sample.bytes / this.targetBytes;
+    const worst = Math.max(latencyRatio, bytesRatio);
+
+    if (worst > 1) {
+      // Scale the observed row count down to what would have hit the target
+      const fit = Math.floor(sample.rows / worst);
+      this.size = this.clamp(Math.min(this.size, fit));
+    } else if (sample.rows >= this.size && worst < 0.5) {
+      // Only full batches say anything about headroom
+      this.size = this.clamp(Math.ceil(this.size * GROWTH_FACTOR));
+    }
+
+    return this.size;
+  }
+
+  private clamp(n: number): number {
+    return Math.min(this.max, Math.max(this.min, n));
+  }
+}
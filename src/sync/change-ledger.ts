@@ -0,0 +1,90 @@
+/**
+ * Change Ledger
+ *
+ * Content-hash ledger of rows already synced from claude-mem.db, backed by
+ * the `ledger` table of ~/.memforge/sync-state.db. SyncPoller only selects
+ * rows above its watermark, so it never sees claude-mem rewriting or
+ * deleting an older row. The ledger records a hash per (kind, id) as rows pass the
+ * watermark; a periodic scan re-hashes rows below the watermark to find
+ * edits (hash differs) and deletions (ledger entry without a row).
+ */
+
+import { createHash } from "crypto";
+import {
+  SYNC_STATE_PATH,
+  TargetStore,
+  type SyncStoreOptions,
+} from "./sync-store";
+import type { SyncItemKind } from "./pending-queue";
+
+export interface LedgerEntry {
+  id: number;
+  hash: string;
+}
+
+/**
+ * Stable content hash of a database row (sha256 over sorted-key JSON).
+ */
+export function hashRow(row: object): string {
+  const record = row as Record<string, unknown>;
+  const sorted: Record<string, unknown> = {};
+  for (const key of Object.keys(record).sort()) {
+    sorted[key] = record[key];
+  }
+  return createHash("sha256").update(JSON.stringify(sorted)).digest("hex");
+}
+
+/**
+ * SQLite-backed content-hash ledger of synced rows.
+ */
+export class ChangeLedger extends TargetStore {
+  constructor(options: SyncStoreOptions = {}) {
+    super(
+      "ChangeLedger",
+      "ledger",
+      `
+        CREATE TABLE IF NOT EXISTS ledger (
+          target TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          id INTEGER NOT NULL,
+          hash TEXT NOT NULL,
+          recorded_at INTEGER NOT NULL,
+          PRIMARY KEY (target, kind, id)
+        )
+      `,
+      options,
+    );
+  }
+
+  /**
+   * Record (or replace) the content hash for a set of rows.
+   */
+  record(kind: SyncItemKind, entries: LedgerEntry[]): void {
+    if (entries.length === 0) return;
+    const db = this.open();
+    const now = Date.now();
+    const insert = db.prepare(
+      "INSERT OR REPLACE INTO ledger (target, kind, id, hash, recorded_at) VALUES (?, ?, ?, ?, ?)",
+    );
+    db.transaction(() => {
+      for (const entry of entries) {
+        insert.run(this.target, kind, entry.id, entry.hash, now);
+      }
+    })();
+  }
+
+  /**
+   * Load recorded hashes for one kind, up to and including maxId.
+   */
+  hashes(kind: SyncItemKind, maxId: number): Map<number, string> {
+    const rows = this.open()
+      .query(
+        "SELECT id, hash FROM ledger WHERE target = ? AND kind = ? AND id <= ?",
+      )
+      .all(this.target, kind, maxId) as LedgerEntry[];
+    return new Map(rows.map((r) => [r.id, r.hash]));
+  }
+}
+
+// Singleton instance
+export const changeLedger = new ChangeLedger({ path: SYNC_STATE_PATH });
@@ -0,0 +1,238 @@
+/**
+ * claude-mem Schema Detection
+ *
+ * Maps the columns claude-mem.db actually has (PRAGMA table_info) onto the
+ * canonical rows the sync reader produces, so a claude-mem upgrade that
+ * renames or adds columns does not break sync:
+ *
+ * - Known renames are followed — the pre-rename layout used
+ *   `claude_session_id` / `sdk_session_id` where the current one has
+ *   `content_session_id` / `memory_session_id`
+ * - Optional columns that are missing read as NULL
+ * - Columns the reader does not know pass through as `extras`
+ * - A table without a required column is unsupported, with a reason that
+ *   names the table and columns (shown by mem_status)
+ *
+ * The highest claude-mem migration (`schema_versions` table) is reported
+ * alongside for diagnostics.
+ */
+
+import type { Database } from "bun:sqlite";
+import type { SyncItemKind } from "./pending-queue";
+
+interface ColumnSpec {
+  name: string;
+  /** Older names, tried in order after `name` */
+  aliases?: string[];
+  /** Rows cannot be read or joined without it */
+  required?: boolean;
+}
+
+const ID: ColumnSpec = { name: "id", required: true };
+const CONTENT_SESSION: ColumnSpec = {
+  name: "content_session_id",
+  aliases: ["claude_session_id"],
+  required: true,
+};
+const MEMORY_SESSION: ColumnSpec = {
+  name: "memory_session_id",
+  aliases: ["sdk_session_id"],
+  required: true,
+};
+
+/** Columns of each canonical row, read from the kind's own table */
+const CANONICAL: Record<SyncItemKind, ColumnSpec[]> = {
+  session: [
+    ID,
+    CONTENT_SESSION,
+    MEMORY_SESSION,
+    { name: "project" },
+    { name: "user_prompt" },
+    { name: "started_at" },
+    { name: "started_at_epoch" },
+    { name: "completed_at" },
+    { name: "completed_at_epoch" },
+    { name: "status" },
+  ],
+  prompt: [
+    ID,
+    CONTENT_SESSION,
+    { name: "prompt_number" },
+    { name: "prompt_text" },
+    { name: "created_at" },
+    { name: "created_at_epoch" },
+  ],
+  observation: [
+    ID,
+    { name: "type" },
+    { name: "title" },
+    { name: "subtitle" },
+    { name: "narrative" },
+    { name: "project" },
+    { name: "text" },
+    { name: "facts" },
+    { name: "concepts" },
+    { name: "files_read" },
+    { name: "files_modified" },
+    { name: "created_at" },
+    { name: "created_at_epoch" },
+    MEMORY_SESSION,
+    { name: "prompt_number" },
+    { name: "discovery_tokens" },
+  ],
+  summary: [
+    ID,
+    MEMORY_SESSION,
+    { name: "project" },
+    { name: "request" },
+    { name: "investigated" },
+    { name: "learned" },
+    { name: "completed" },
+    { name: "next_steps" },
+    { name: "files_read" },
+    { name: "files_edited" },
+    { name: "notes" },
+    { name: "prompt_number" },
+    { name: "created_at" },
+    { name: "created_at_epoch" },
+    { name: "discovery_tokens" },
+  ],
+};
+
+/** claude-mem table holding each kind */
+export const LOCAL_TABLES: Record<SyncItemKind, string> = {
+  session: "sdk_sessions",
+  prompt: "user_prompts",
+  observation: "observations",
+  summary: "session_summaries",
+};
+
+/** Tables sync cannot run without (user_prompts is newer and optional) */
+const REQUIRED_KINDS: SyncItemKind[] = ["session", "observation", "summary"];
+
+export type SchemaLayout = "current" | "legacy";
+
+export interface TableSchema {
+  table: string;
+  exists: boolean;
+  /** Canonical column → column in claude-mem.db, null when absent */
+  columns: Record<string, string | null>;
+  /** Columns the reader does not know, passed through as extras */
+  extras: string[];
+  /** Why rows cannot be read, null when they can */
+  problem: string | null;
+}
+
+export interface ClaudeMemSchema {
+  /** Highest claude-mem migration applied, when recorded */
+  version: number | null;
+  /** "legacy" when session keys still use their pre-rename names */
+  layout: SchemaLayout;
+  tables: Record<SyncItemKind, TableSchema>;
+  /** Problems with required tables — sync cannot run while non-empty */
+  problems: string[];
+}
+
+function tableColumns(db: Database, table: string): string[] {
+  const rows = db.query(`PRAGMA table_info("${table}")`).all() as {
+    name: string;
+  }[];
+  return rows.map((r) => r.name);
+}
+
+function detectTable(db: Database, kind: SyncItemKind): TableSchema {
+  const table = LOCAL_TABLES[kind];
+  const present = tableColumns(db, table);
+  const schema: TableSchema = {
+    table,
+    exists: present.length > 0,
+    columns: {},
+    extras: [],
+    problem: null,
+  };
+  if (!schema.exists) {
+    schema.problem = `${table} table is missing`;
+    return schema;
+  }
+
+  const have = new Set(present);
+  const known = new Set<string>();
+  const missing: string[] = [];
+  for (const spec of CANONICAL[kind]) {
+    const names = [spec.name, ...(spec.aliases ?? [])];
+    names.forEach((name) => known.add(name));
+    const found = names.find((name) => have.has(name)) ?? null;
+    schema.columns[spec.name] = found;
+    if (found === null && spec.required) missing.push(spec.name);
+  }
+  schema.extras = present.filter((name) => !known.has(name));
+  if (missing.length > 0) {
+    schema.problem = `${table} has no ${missing.join(", ")} column (found: ${present.join(", ")})`;
+  }
+  return schema;
+}
+
+function migrationVersion(db: Database): number | null {
+  try {
+    const row = db.query("SELECT MAX(version) as v FROM schema_versions").get();
+    return (row as { v: number | null } | null)?.v ?? null;
+  } catch {
+    return null; // table absent in older claude-mem
+  }
+}
+
+/**
+ * Inspect claude-mem.db and map its tables onto the canonical rows.
+ */
+export function detectSchema(db: Database): ClaudeMemSchema {
+  const tables = {} as Record<SyncItemKind, TableSchema>;
+  for (const kind of Object.keys(LOCAL_TABLES) as SyncItemKind[]) {
+    tables[kind] = detectTable(db, kind);
+  }
+  const legacy = Object.values(tables).some((t) =>
+    Object.entries(t.columns).some(
+      ([name, actual]) => actual !== null && actual !== name,
+    ),
+  );
+  return {
+    version: migrationVersion(db),
+    layout: legacy ? "legacy" : "current",
+    tables,
+    problems: REQUIRED_KINDS.map((kind) => tables[kind].problem).filter(
+      (p): p is string => p !== null,
+    ),
+  };
+}
+
+/**
+ * One-line summary for logs and mem_status, e.g.
+ * "migration 21, current column names, 2 extra column(s) passed through".
+ */
+export function describeSchema(schema: ClaudeMemSchema): string {
+  const parts = [
+    schema.version !== null
+      ? `migration ${schema.version}`
+      : "no migration table",
+    schema.layout === "legacy"
+      ? "pre-rename column names (mapped)"
+      : "current column names",
+  ];
+  const extras = Object.values(schema.tables).reduce(
+    (sum, t) => sum + t.extras.length,
+    0,
+  );
+  if (extras > 0) parts.push(`${extras} extra column(s) passed through`);
+  const absent = Object.values(schema.tables)
+    .filter((t) => t.exists)
+    .reduce(
+      (sum, t) =>
+        sum + Object.values(t.columns).filter((c) => c === null).length,
+      0,
+    );
+  if (absent > 0) parts.push(`${absent} missing column(s) read as NULL`);
+  const prompts = schema.tables.prompt;
+  if (prompts.problem && prompts.exists) {
+    parts.push(`prompts not synced: ${prompts.problem}`);
+  }
+  return parts.join(", ");
+}
@@ -0,0 +1,121 @@
+/**
+ * claude-mem.db Change Watcher
+ *
+ * Calls back shortly after claude-mem writes to claude-mem.db or its WAL
+ * (`claude-mem.db-wal`), so the sync poller can react to new rows instead of
+ * waking on a timer. Bursts of writes are debounced into one callback.
+ *
+ * The directory is watched rather than the two files: SQLite creates and
+ * truncates the WAL as it checkpoints, and a claude-mem reset replaces the
+ * database file itself — a file watch would go silent after either.
+ */
+
+import { watch, type FSWatcher } from "fs";
+import { basename, dirname } from "path";
+
+const DEBOUNCE_MS = 200; // quiet period that ends a burst of writes
+const MAX_DELAY_MS = 1000; // fire at least this often during a long burst
+
+export interface DbChangeWatcherOptions {
+  /** Called once per burst of changes */
+  onChange: () => void;
+  logger?: (...args: unknown[]) => void;
+  debounceMs?: number;
+  maxDelayMs?: number;
+}
+
+/**
+ * Debounced file-system watch on a SQLite database and its WAL.
+ */
+export class DbChangeWatcher {
+  private watcher: FSWatcher | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private burstStartedAt = 0;
+  private dbPath: string;
+  private names: Set<string>;
+  private onChange: () => void;
+  private log: (...args: unknown[]) => void;
+  private debounceMs: number;
+  private maxDelayMs: number;
+
+  constructor(dbPath: string, options: DbChangeWatcherOptions) {
+    this.dbPath = dbPath;
+    const name = basename(dbPath);
+    this.names = new Set([name, `${name}-wal`]);
+    this.onChange = options.onChange;
+    this.log = options.logger || console.error;
+    this.debounceMs = options.debounceMs ?? DEBOUNCE_MS;
+    this.maxDelayMs = options.maxDelayMs ?? MAX_DELAY_MS;
+  }
+
+  /**
+   * Start watching. Returns false when the platform refuses the watch
+   * (e.g. inotify watch limit reached) — callers keep timer polling.
+   */
+  start(): boolean {
+    if (this.watcher) return true;
+    try {
+      this.watcher = watch(dirname(this.dbPath), (_event, filename) =>
+        this.handleEvent(filename),
+      );
+      this.watcher.on("error", (error) => {
+        this.log(
+          `[DbChangeWatcher] Watch failed (${error instanceof Error ? error.message : String(error)}) — falling back to timer polling`,
+        );
+        this.stop();
+      });
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log(
+        `[DbChangeWatcher] Cannot watch ${dirname(this.dbPath)} (${message}) — falling back to timer polling`,
+      );
+      this.watcher = null;
+      return false;
+    }
+  }
+
+  isWatching(): boolean {
+    return this.watcher !== null;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!this.watcher) return;
+    try {
+      this.watcher.close();
+    } catch {
+      /* ignore close errors */
+    }
+    this.watcher = null;
+  }
+
+  private handleEvent(filename: string | Buffer | null): void {
+    // Some platforms omit the name — treat it as a possible database write
+    if (filename !== null && !this.names.has(filename.toString())) return;
+
+    const now = Date.now();
+    if (this.timer) {
+      clearTimeout(this.timer);
+    } else {
+      this.burstStartedAt = now;
+    }
+    const remaining = this.burstStartedAt + this.maxDelayMs - now;
+    this.timer = setTimeout(
+      () => this.fire(),
+      Math.max(0, Math.min(this.debounceMs, remaining)),
+    );
+  }
+
+  private fire(): void {
+    this.timer = null;
+    try {
+      this.onChange();
+    } catch (error) {
+      this.log("[DbChangeWatcher] onChange error:", error);
+    }
+  }
+}
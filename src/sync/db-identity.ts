@@ -0,0 +1,116 @@
+/**
+ * claude-mem Database Identity
+ *
+ * Detects when ~/.claude-mem/claude-mem.db has been deleted, recreated or
+ * replaced, so SyncPoller can re-baseline its watermark instead of waiting
+ * forever for IDs to climb past a cursor from the old database:
+ *
+ * - File identity: inode plus creation time (birthtime, where the
+ *   filesystem reports one — inodes alone are often reused)
+ * - High-water ID: sqlite_sequence for AUTOINCREMENT tables (does not drop
+ *   when the newest row is deleted), else MAX(id)
+ */
+
+import { statSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import type { Database } from "bun:sqlite";
+import { LOCAL_TABLES } from "./claude-mem-schema";
+import type { SyncItemKind } from "./pending-queue";
+
+/** The claude-mem database SyncPoller reads */
+export const DB_PATH = join(homedir(), ".claude-mem/claude-mem.db");
+
+/** Identity of the file behind a database path */
+export interface DbIdentity {
+  ino: number;
+  /** 0 when the filesystem has no creation time */
+  birthtimeMs: number;
+}
+
+/**
+ * Stat a database file. Null if it does not exist.
+ */
+export function readDbIdentity(path: string): DbIdentity | null {
+  try {
+    const stat = statSync(path);
+    return { ino: stat.ino, birthtimeMs: Math.floor(stat.birthtimeMs) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True if both identities describe the same file. Creation times are only
+ * compared when both sides have one.
+ */
+export function sameDatabase(a: DbIdentity, b: DbIdentity): boolean {
+  if (a.ino !== b.ino) return false;
+  if (a.birthtimeMs > 0 && b.birthtimeMs > 0) {
+    return a.birthtimeMs === b.birthtimeMs;
+  }
+  return true;
+}
+
+/**
+ * Highest ID ever assigned in a table. Prefers sqlite_sequence so deleting
+ * the newest rows is not mistaken for a reset.
+ */
+export function highWaterId(db: Database, table: string): number {
+  const max = db.query(`SELECT MAX(id) as m FROM ${table}`).get() as {
+    m: number | null;
+  } | null;
+  let seq: { seq: number } | null = null;
+  try {
+    seq = db
+      .query("SELECT seq FROM sqlite_sequence WHERE name = ?")
+      .get(table) as { seq: number } | null;
+  } catch {
+    /* no AUTOINCREMENT tables — sqlite_sequence does not exist */
+  }
+  return Math.max(max?.m ?? 0, seq?.seq ?? 0);
+}
+
+/**
+ * High-water ID of each kind's claude-mem table, 0 for a table that does
+ * not exist (user_prompts on older claude-mem).
+ */
+export function highWaterIds(db: Database): Record<SyncItemKind, number> {
+  const ids = {} as Record<SyncItemKind, number>;
+  for (const [kind, table] of Object.entries(LOCAL_TABLES)) {
+    const exists = db
+      .query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?")
+      .get(table);
+    ids[kind as SyncItemKind] = exists ? highWaterId(db, table) : 0;
+  }
+  return ids;
+}
+
+/**
+ * Why the database looks reset relative to a saved cursor, or null. Every
+ * kind's IDs are compared: a reset may restart only some tables.
+ */
+export function describeReset(
+  saved: {
+    identity: DbIdentity | null;
+    lastIds: Record<SyncItemKind, number>;
+  },
+  current: {
+    identity: DbIdentity | null;
+    maxIds: Record<SyncItemKind, number>;
+  },
+): string | null {
+  if (
+    saved.identity &&
+    current.identity &&
+    !sameDatabase(saved.identity, current.identity)
+  ) {
+    return "claude-mem.db file was replaced or recreated";
+  }
+  for (const kind of Object.keys(LOCAL_TABLES) as SyncItemKind[]) {
+    if (current.maxIds[kind] < saved.lastIds[kind]) {
+      return `${kind} IDs restarted (max id ${current.maxIds[kind]} < watermark ${saved.lastIds[kind]})`;
+    }
+  }
+  return null;
+}
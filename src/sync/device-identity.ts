@@ -0,0 +1,120 @@
+/**
+ * Device Identity
+ *
+ * Each install has a stable device ID (a UUID) in ~/.memforge/device-id,
+ * created on first use. Every pushed observation and summary carries it as
+ * `device_id`, with a `content_hash` of the row's content, so the server and
+ * our own retries can key rows globally — local `id`s collide when one
+ * account syncs from several machines.
+ *
+ * The hash covers what was sent (after redaction) minus the machine-local
+ * keys (`id`, `sdk_session_id`), so the same content hashes the same on
+ * every device.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { randomUUID } from "crypto";
+import { hashRow } from "./change-ledger";
+import type { SyncItemKind } from "./pending-queue";
+
+export const DEVICE_ID_PATH = join(homedir(), ".memforge", "device-id");
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Kinds whose payloads carry `device_id` and `content_hash` */
+const STAMPED_KINDS = new Set<SyncItemKind>(["observation", "summary"]);
+
+/** Payload keys left out of the content hash: local keys and the stamp */
+const UNHASHED_KEYS = new Set([
+  "id",
+  "sdk_session_id",
+  "device_id",
+  "content_hash",
+]);
+
+function readDeviceId(path: string): string | null {
+  try {
+    const id = readFileSync(path, "utf-8").trim();
+    return UUID_PATTERN.test(id) ? id : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the device ID at `path`, creating it if missing or unreadable. The
+ * file is created exclusively, so two processes starting together agree on
+ * one ID. If it cannot be written, a per-process ID is used instead.
+ */
+export function loadDeviceId(path: string): string {
+  const existing = readDeviceId(path);
+  if (existing) return existing;
+
+  const id = randomUUID();
+  try {
+    const dir = dirname(path);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    if (existsSync(path)) {
+      process.stderr.write(
+        `[DeviceIdentity] ${path} is not a device ID — replacing it\n`,
+      );
+      writeFileSync(path, `${id}\n`);
+    } else {
+      writeFileSync(path, `${id}\n`, { flag: "wx" });
+    }
+    return id;
+  } catch (error) {
+    // Another process created it first
+    const raced = readDeviceId(path);
+    if (raced) return raced;
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(
+      `[DeviceIdentity] Cannot write ${path} (${message}) — using a per-process device ID\n`,
+    );
+    return id;
+  }
+}
+
+let deviceId: string | null = null;
+
+/**
+ * This install's device ID (~/.memforge/device-id).
+ */
+export function getDeviceId(): string {
+  deviceId ??= loadDeviceId(DEVICE_ID_PATH);
+  return deviceId;
+}
+
+/**
+ * Device-independent hash of a payload's content.
+ */
+export function contentHash(payload: Record<string, unknown>): string {
+  const content: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(payload)) {
+    if (!UNHASHED_KEYS.has(key)) content[key] = value;
+  }
+  return hashRow(content);
+}
+
+/**
+ * Add `device_id` and `content_hash` to an observation or summary payload;
+ * other kinds are returned unchanged. A payload already stamped (a queued
+ * retry) keeps its stamp.
+ */
+export function stampPayload(
+  kind: SyncItemKind,
+  payload: Record<string, unknown>,
+  device?: string,
+): Record<string, unknown> {
+  if (!STAMPED_KINDS.has(kind) || typeof payload.content_hash === "string") {
+    return payload;
+  }
+  return {
+    ...payload,
+    device_id: device ?? getDeviceId(),
+    content_hash: contentHash(payload),
+  };
+}
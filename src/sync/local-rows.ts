@@ -0,0 +1,386 @@
+/**
+ * Local Rows
+ *
+ * Reads syncable rows from claude-mem.db and maps them to /api/sync/push
+ * payloads, for the sync poller and backfill:
+ * - sessions      sdk_sessions
+ * - prompts       user_prompts (optional — older claude-mem has no table)
+ * - observations  observations joined to their session
+ * - summaries     session_summaries joined to their session
+ *
+ * A prompt, observation or summary whose session row is missing has a null
+ * `sdk_session_id` and is an orphan: callers park it until the session
+ * appears rather than attributing it to some other session.
+ *
+ * Queries are built from the detected schema (claude-mem-schema.ts): renamed
+ * columns are read under their canonical names, and columns this client does
+ * not know are sent along as `extras`.
+ */
+
+import { Database } from "bun:sqlite";
+import { remoteSync } from "./remote-sync";
+import type { BatchResult, RemoteSync } from "./remote-sync";
+import type { SyncItemKind } from "./pending-queue";
+import { applyPrivacy } from "../privacy/field-privacy";
+import {
+  detectSchema,
+  type ClaudeMemSchema,
+  type TableSchema,
+} from "./claude-mem-schema";
+
+/** Kinds in push order — sessions first so the server knows them */
+export const SYNC_KINDS: SyncItemKind[] = [
+  "session",
+  "prompt",
+  "observation",
+  "summary",
+];
+
+/**
+ * Reader for one open claude-mem.db: its detected schema and a SELECT per
+ * readable kind, built from the column mapping.
+ */
+interface Reader {
+  schema: ClaudeMemSchema;
+  queries: Partial<Record<SyncItemKind, string>>;
+}
+
+/** Key prefix of pass-through columns in raw query results */
+const EXTRA_PREFIX = "extra:";
+
+function quote(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** `alias."actual" AS canonical` per mapped column, NULL for absent ones */
+function selectList(alias: string, table: TableSchema): string[] {
+  const list = Object.entries(table.columns).map(([name, actual]) =>
+    actual === null
+      ? `NULL AS ${name}`
+      : `${alias}.${quote(actual)} AS ${name}`,
+  );
+  for (const extra of table.extras) {
+    list.push(`${alias}.${quote(extra)} AS ${quote(EXTRA_PREFIX + extra)}`);
+  }
+  return list;
+}
+
+/** sdk_sessions column (as `s."actual"`), null when it cannot be used */
+function sessionColumn(schema: ClaudeMemSchema, name: string): string | null {
+  const sessions = schema.tables.session;
+  const actual = sessions.problem === null ? sessions.columns[name] : null;
+  return actual ? `s.${quote(actual)}` : null;
+}
+
+function buildQuery(schema: ClaudeMemSchema, kind: SyncItemKind): string {
+  const table = schema.tables[kind];
+  const alias = kind === "session" ? "s" : "t";
+  const select = selectList(alias, table);
+  let from = `${quote(table.table)} ${alias}`;
+
+  if (kind === "session") {
+    select.push("s.id AS sdk_session_id");
+  } else {
+    // Prompts join on the Claude Code session, the rest on the memory session
+    const key = kind === "prompt" ? "content_session_id" : "memory_session_id";
+    const sessionKey = sessionColumn(schema, key);
+    if (sessionKey === null) {
+      select.push("NULL AS sdk_session_id");
+    } else {
+      from += ` LEFT JOIN sdk_sessions s ON ${alias}.${quote(table.columns[key]!)} = ${sessionKey}`;
+      select.push("s.id AS sdk_session_id");
+    }
+    if (kind === "prompt") {
+      const project = sessionKey && sessionColumn(schema, "project");
+      select.push(`${project ?? "NULL"} AS project`);
+    }
+  }
+
+  return `
+    SELECT ${select.join(", ")}
+    FROM ${from}
+    WHERE ${alias}.id > $afterId AND ${alias}.id <= $maxId
+    ORDER BY ${alias}.id ASC
+    LIMIT $limit
+  `;
+}
+
+/** Readers per open database; dropped when a query fails so it is rebuilt */
+const readers = new WeakMap<Database, Reader>();
+
+function getReader(db: Database): Reader {
+  let reader = readers.get(db);
+  if (!reader) {
+    const schema = detectSchema(db);
+    const queries: Reader["queries"] = {};
+    for (const kind of SYNC_KINDS) {
+      if (schema.tables[kind].problem === null) {
+        queries[kind] = buildQuery(schema, kind);
+      }
+    }
+    reader = { schema, queries };
+    readers.set(db, reader);
+  }
+  return reader;
+}
+
+/**
+ * Detected schema of an open claude-mem.db (cached with its reader).
+ */
+export function localSchema(db: Database): ClaudeMemSchema {
+  return getReader(db).schema;
+}
+
+export interface SessionRow {
+  id: number;
+  content_session_id: string | null;
+  memory_session_id: string | null;
+  project: string | null;
+  user_prompt: string | null;
+  started_at: string | null;
+  started_at_epoch: number | null;
+  completed_at: string | null;
+  completed_at_epoch: number | null;
+  status: string | null;
+  /** Same as id — lets every kind be checked for its session alike */
+  sdk_session_id: number;
+  /** Columns claude-mem added that this client does not map */
+  extras?: Record<string, unknown>;
+}
+
+export interface PromptRow {
+  id: number;
+  content_session_id: string | null;
+  prompt_number: number | null;
+  prompt_text: string | null;
+  created_at: string | null;
+  created_at_epoch: number | null;
+  /** Project of the owning session */
+  project: string | null;
+  sdk_session_id: number | null;
+  extras?: Record<string, unknown>;
+}
+
+export interface ObservationRow {
+  id: number;
+  type: string | null;
+  title: string | null;
+  subtitle: string | null;
+  narrative: string | null;
+  project: string | null;
+  text: string | null;
+  facts: string | null;
+  concepts: string | null;
+  files_read: string | null;
+  files_modified: string | null;
+  created_at: string | null;
+  created_at_epoch: number | null;
+  memory_session_id: string | null;
+  prompt_number: number | null;
+  discovery_tokens: number | null;
+  sdk_session_id: number | null;
+  extras?: Record<string, unknown>;
+}
+
+export interface SummaryRow {
+  id: number;
+  memory_session_id: string | null;
+  project: string | null;
+  request: string | null;
+  investigated: string | null;
+  learned: string | null;
+  completed: string | null;
+  next_steps: string | null;
+  files_read: string | null;
+  files_edited: string | null;
+  notes: string | null;
+  prompt_number: number | null;
+  created_at: string | null;
+  created_at_epoch: number | null;
+  discovery_tokens: number | null;
+  sdk_session_id: number | null;
+  extras?: Record<string, unknown>;
+}
+
+/** A claude-mem row of any kind */
+export type LocalRow = SessionRow | PromptRow | ObservationRow | SummaryRow;
+
+/** Map an sdk_sessions row to the /api/sync/push payload */
+function toSessionPayload(row: SessionRow): Record<string, unknown> {
+  return {
+    id: row.id,
+    content_session_id: row.content_session_id,
+    memory_session_id: row.memory_session_id,
+    project: row.project,
+    user_prompt: row.user_prompt,
+    started_at: row.started_at,
+    started_at_epoch: row.started_at_epoch || Math.floor(Date.now() / 1000),
+    completed_at: row.completed_at,
+    completed_at_epoch: row.completed_at_epoch,
+    status: row.status,
+    ...(row.extras ? { extras: row.extras } : {}),
+  };
+}
+
+/** Map a user_prompts row to the /api/sync/push payload */
+function toPromptPayload(row: PromptRow): Record<string, unknown> {
+  return {
+    id: row.id,
+    sdk_session_id: row.sdk_session_id,
+    content_session_id: row.content_session_id,
+    project: row.project,
+    prompt_number: row.prompt_number || 0,
+    prompt_text: row.prompt_text,
+    created_at: row.created_at,
+    created_at_epoch: row.created_at_epoch || Math.floor(Date.now() / 1000),
+    ...(row.extras ? { extras: row.extras } : {}),
+  };
+}
+
+/** Map an observations row to the /api/sync/push payload */
+function toObservationPayload(row: ObservationRow): Record<string, unknown> {
+  return {
+    id: row.id,
+    sdk_session_id: row.sdk_session_id,
+    type: row.type,
+    title: row.title,
+    subtitle: row.subtitle,
+    narrative: row.narrative,
+    project: row.project,
+    text: row.text,
+    facts: row.facts || "[]",
+    concepts: row.concepts || "[]",
+    files_read: row.files_read || "[]",
+    files_modified: row.files_modified || "[]",
+    created_at: row.created_at,
+    created_at_epoch: row.created_at_epoch || Math.floor(Date.now() / 1000),
+    prompt_number: row.prompt_number || 0,
+    discovery_tokens: row.discovery_tokens || 0,
+    ...(row.extras ? { extras: row.extras } : {}),
+  };
+}
+
+/** Map a session_summaries row to the /api/sync/push payload */
+function toSummaryPayload(row: SummaryRow): Record<string, unknown> {
+  return {
+    id: row.id,
+    sdk_session_id: row.sdk_session_id,
+    memory_session_id: row.memory_session_id,
+    project: row.project,
+    request: row.request,
+    investigated: row.investigated,
+    learned: row.learned,
+    completed: row.completed,
+    next_steps: row.next_steps,
+    files_read: row.files_read || "[]",
+    files_edited: row.files_edited || "[]",
+    notes: row.notes,
+    prompt_number: row.prompt_number || 0,
+    created_at: row.created_at,
+    created_at_epoch: row.created_at_epoch || Math.floor(Date.now() / 1000),
+    discovery_tokens: row.discovery_tokens || 0,
+    ...(row.extras ? { extras: row.extras } : {}),
+  };
+}
+
+/** Map a row of any kind to its /api/sync/push payload */
+export function toPayload(
+  kind: SyncItemKind,
+  row: LocalRow,
+): Record<string, unknown> {
+  switch (kind) {
+    case "session":
+      return toSessionPayload(row as SessionRow);
+    case "prompt":
+      return toPromptPayload(row as PromptRow);
+    case "observation":
+      return toObservationPayload(row as ObservationRow);
+    case "summary":
+      return toSummaryPayload(row as SummaryRow);
+  }
+}
+
+/** Move `extra:` columns into `extras`, leaving out NULLs */
+function collectExtras(raw: Record<string, unknown>): LocalRow {
+  const row: Record<string, unknown> = {};
+  const extras: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!key.startsWith(EXTRA_PREFIX)) {
+      row[key] = value;
+    } else if (value !== null) {
+      extras[key.slice(EXTRA_PREFIX.length)] = value;
+    }
+  }
+  // Omitted when empty, so content hashes only change with real new data
+  if (Object.keys(extras).length > 0) row.extras = extras;
+  return row as unknown as LocalRow;
+}
+
+/**
+ * Read rows of one kind with afterId < id <= maxId, ascending. Kinds whose
+ * table is missing or unsupported read as empty. A failing query (claude-mem
+ * migrated while open) re-detects the schema once before giving up.
+ */
+export function readLocalRows(
+  db: Database,
+  kind: SyncItemKind,
+  afterId: number,
+  maxId: number,
+  limit: number,
+): LocalRow[] {
+  const params = { $afterId: afterId, $maxId: maxId, $limit: limit };
+  const run = (): LocalRow[] => {
+    const { schema, queries } = getReader(db);
+    const query = queries[kind];
+    if (query === undefined) return [];
+    const rows = db.query(query).all(params) as Record<string, unknown>[];
+    return schema.tables[kind].extras.length > 0
+      ? rows.map(collectExtras)
+      : (rows as unknown as LocalRow[]);
+  };
+  try {
+    return run();
+  } catch {
+    readers.delete(db);
+    return run();
+  }
+}
+
+/** Read specific rows of one kind; IDs with no row are left out */
+export function readLocalRowsById(
+  db: Database,
+  kind: SyncItemKind,
+  ids: number[],
+): LocalRow[] {
+  return ids.flatMap((id) => readLocalRows(db, kind, id - 1, id, 1));
+}
+
+/**
+ * Whether a row's session is known: it joined to an sdk_sessions row and,
+ * when given, that session is at or below the session watermark (already
+ * pushed). Sessions themselves are always ready.
+ */
+export function sessionReady(
+  kind: SyncItemKind,
+  row: LocalRow,
+  lastSessionId?: number,
+): boolean {
+  if (kind === "session") return true;
+  if (row.sdk_session_id === null) return false;
+  return lastSessionId === undefined || row.sdk_session_id <= lastSessionId;
+}
+
+/**
+ * Push rows of one kind through the batch endpoint, at their project's
+ * privacy level (`syncPrivacy`)
+ */
+export function pushLocalRows(
+  kind: SyncItemKind,
+  rows: LocalRow[],
+  remote: RemoteSync = remoteSync,
+): Promise<BatchResult> {
+  return remote.syncItems(
+    kind,
+    rows.map((row) => applyPrivacy(kind, toPayload(kind, row))),
+  );
+}
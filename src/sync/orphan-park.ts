@@ -0,0 +1,68 @@
+/**
+ * Orphan Park
+ *
+ * Rows the sync poller passed but could not push yet because their session
+ * is unknown — no sdk_sessions row, or a session not yet synced — backed by
+ * the `parked` table of ~/.memforge/sync-state.db. The watermark moves past
+ * them so they never stall sync; the poller re-reads parked rows when new
+ * sessions sync and pushes those whose session has appeared.
+ */
+
+import {
+  SYNC_STATE_PATH,
+  TargetStore,
+  type SyncStoreOptions,
+} from "./sync-store";
+import type { SyncItemKind } from "./pending-queue";
+
+/**
+ * SQLite-backed set of parked (kind, id) rows.
+ */
+export class OrphanPark extends TargetStore {
+  constructor(options: SyncStoreOptions = {}) {
+    super(
+      "OrphanPark",
+      "parked",
+      `
+        CREATE TABLE IF NOT EXISTS parked (
+          target TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          id INTEGER NOT NULL,
+          parked_at INTEGER NOT NULL,
+          PRIMARY KEY (target, kind, id)
+        )
+      `,
+      options,
+    );
+  }
+
+  /**
+   * Park rows. Re-parking a row keeps its original parked_at.
+   */
+  park(kind: SyncItemKind, ids: number[]): void {
+    if (ids.length === 0) return;
+    const db = this.open();
+    const now = Date.now();
+    const insert = db.prepare(
+      "INSERT OR IGNORE INTO parked (target, kind, id, parked_at) VALUES (?, ?, ?, ?)",
+    );
+    db.transaction(() => {
+      for (const id of ids) {
+        insert.run(this.target, kind, id, now);
+      }
+    })();
+  }
+
+  /**
+   * Parked IDs of one kind, ascending.
+   */
+  ids(kind: SyncItemKind): number[] {
+    const rows = this.open()
+      .query("SELECT id FROM parked WHERE target = ? AND kind = ? ORDER BY id")
+      .all(this.target, kind) as { id: number }[];
+    return rows.map((r) => r.id);
+  }
+}
+
+// Singleton instance
+export const orphanPark = new OrphanPark({ path: SYNC_STATE_PATH });
@@ -0,0 +1,168 @@
+/**
+ * Outbox
+ *
+ * Export mode (config `syncMode: "export"`): instead of sending, RemoteSync
+ * appends each request it would have made — the exact /api/sync/push body,
+ * or an archive PATCH — as one NDJSON line to ~/.memforge/outbox/. The
+ * poller treats written rows as synced, so the watermark advances as usual.
+ *
+ * Files are named `outbox-<UTC timestamp>.ndjson` and rotate at
+ * OUTBOX_MAX_BYTES. `bun run sync -- import-outbox` replays them in order;
+ * a fully replayed file moves to outbox/sent/, a partly replayed one keeps
+ * only its unsent lines.
+ */
+
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { randomUUID } from "crypto";
+
+export const OUTBOX_DIR = join(homedir(), ".memforge", "outbox");
+const OUTBOX_MAX_BYTES = 5 * 1024 * 1024; // rotate at 5 MB
+const FILE_PATTERN = /^outbox-.*\.ndjson$/;
+
+/** One request as written to the outbox */
+export interface OutboxEntry {
+  /** ISO time the request was written */
+  at: string;
+  method: "POST" | "PATCH";
+  /** Server path, e.g. /api/sync/push */
+  path: string;
+  body: Record<string, unknown>;
+  /** Idempotency-Key sent on replay (absent in entries from older clients) */
+  idempotencyKey?: string;
+}
+
+/** Outbox contents, for mem_status and the import dry run */
+export interface OutboxSummary {
+  files: number;
+  entries: number;
+  bytes: number;
+}
+
+/** Outcome of replaying the outbox */
+export interface OutboxReplay {
+  sent: number;
+  /** Files fully replayed (moved to sent/) */
+  files: number;
+  /** First failure, when the replay stopped early */
+  error?: string;
+}
+
+/**
+ * Append-only NDJSON request log with rotation and ordered replay.
+ */
+export class Outbox {
+  private dir: string;
+  private maxBytes: number;
+  private current: string | null = null;
+
+  constructor(dir: string = OUTBOX_DIR, maxBytes: number = OUTBOX_MAX_BYTES) {
+    this.dir = dir;
+    this.maxBytes = maxBytes;
+  }
+
+  getDir(): string {
+    return this.dir;
+  }
+
+  /**
+   * Append one request under a new idempotency key. Starts a new file when
+   * the current one is full.
+   */
+  write(entry: Omit<OutboxEntry, "at" | "idempotencyKey">): void {
+    if (!existsSync(this.dir)) mkdirSync(this.dir, { recursive: true });
+    const line = JSON.stringify({
+      at: new Date().toISOString(),
+      ...entry,
+      idempotencyKey: randomUUID(),
+    });
+    if (
+      !this.current ||
+      !existsSync(this.current) ||
+      statSync(this.current).size + Buffer.byteLength(line) > this.maxBytes
+    ) {
+      this.current = this.newFilePath();
+    }
+    appendFileSync(this.current, line + "\n");
+  }
+
+  /** Pending outbox files, oldest first */
+  files(): string[] {
+    if (!existsSync(this.dir)) return [];
+    return readdirSync(this.dir)
+      .filter((name) => FILE_PATTERN.test(name))
+      .sort()
+      .map((name) => join(this.dir, name));
+  }
+
+  summary(): OutboxSummary {
+    const summary: OutboxSummary = { files: 0, entries: 0, bytes: 0 };
+    for (const file of this.files()) {
+      summary.files++;
+      summary.bytes += statSync(file).size;
+      summary.entries += readLines(file).length;
+    }
+    return summary;
+  }
+
+  /**
+   * Send every entry in order through `send`, stopping at the first failure
+   * (an error message). Sent files move to sent/; a file that stopped part
+   * way is rewritten with its unsent lines.
+   */
+  async replay(
+    send: (entry: OutboxEntry) => Promise<string | null>,
+    onProgress?: (replay: OutboxReplay) => void,
+  ): Promise<OutboxReplay> {
+    const replay: OutboxReplay = { sent: 0, files: 0 };
+    // A file still being appended to is replayed as it stands
+    this.current = null;
+
+    for (const file of this.files()) {
+      const lines = readLines(file);
+      for (let i = 0; i < lines.length; i++) {
+        const error = await send(JSON.parse(lines[i]) as OutboxEntry);
+        if (error !== null) {
+          writeFileSync(file, lines.slice(i).join("\n") + "\n");
+          replay.error = error;
+          return replay;
+        }
+        replay.sent++;
+      }
+      const sentDir = join(this.dir, "sent");
+      if (!existsSync(sentDir)) mkdirSync(sentDir, { recursive: true });
+      renameSync(file, join(sentDir, file.slice(this.dir.length + 1)));
+      replay.files++;
+      onProgress?.(replay);
+    }
+    return replay;
+  }
+
+  /** Timestamped so names sort in write order; a taken name moves on 1ms */
+  private newFilePath(): string {
+    for (let t = Date.now(); ; t++) {
+      const stamp = new Date(t).toISOString().replace(/[:.]/g, "-");
+      const path = join(this.dir, `outbox-${stamp}.ndjson`);
+      if (!existsSync(path)) return path;
+    }
+  }
+}
+
+function readLines(file: string): string[] {
+  return readFileSync(file, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+}
+
+// Singleton instance
+export const outbox = new Outbox();
@@ -1,92 +1,521 @@
 /**
  * Pending Queue
  *
- * In-memory queue for failed sync operations.
- * Items are retried during the poll cycle.
- * Lost on process restart — safe because server dedup
- * handles overlap when SyncPoller re-queries MAX(id).
+ * Durable queue for failed sync operations, backed by the `pending` table
+ * of ~/.memforge/sync-state.db. Items survive process restarts and are
+ * retried during the poll cycle with per-item exponential backoff.
+ * Every kind shares the queue; items are keyed by (kind, id) because
+ * their local ID sequences overlap, and by sync target — the (db, server,
+ * account) they were pushed to — so switching servers or accounts never
+ * sends one target's retries to another.
+ *
+ * Items that exhaust their retries move to the `dead_letter` table,
+ * together with the last HTTP status and error text, so they can be
+ * inspected, retried or discarded via mem_sync_failures. Items still
+ * queued when claude-mem.db is reset move to the `retired` table instead:
+ * their IDs may now belong to new rows, so they are listed with the dead
+ * letters but never retried.
+ *
+ * SQLite (WAL mode) gives crash-safe writes: an item is either fully
+ * recorded or not at all, and several MCP server processes can share
+ * the file without clobbering each other.
  */
 
-interface QueueItem {
+import type { Database } from "bun:sqlite";
+import {
+  SYNC_STATE_PATH,
+  closeSyncStore,
+  openSyncStore,
+  type SyncStoreOptions,
+} from "./sync-store";
+
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_BASE_DELAY_MS = 5000; // first retry 5s after the failure
+const DEFAULT_MAX_DELAY_MS = 15 * 60 * 1000; // cap backoff at 15 minutes
+const MAX_ERROR_LENGTH = 500; // stored error text is truncated to this
+
+/** What a queued payload is — selects the /api/sync/push table */
+export type SyncItemKind = "session" | "prompt" | "observation" | "summary";
+
+/** Outcome of a failed sync attempt, recorded on the queued item */
+export interface SyncFailure {
+  status?: number;
+  error?: string;
+}
+
+export interface QueueItem {
+  kind: SyncItemKind;
   id: number;
-  observation: Record<string, unknown>;
+  payload: Record<string, unknown>;
   addedAt: string;
   retryCount: number;
+  /** Epoch ms before which the item is not retried */
+  nextAttemptAt: number;
+  lastStatus: number | null;
+  lastError: string | null;
+}
+
+export interface DeadLetterItem {
+  kind: SyncItemKind;
+  id: number;
+  payload: Record<string, unknown>;
+  addedAt: string;
+  failedAt: string;
+  retryCount: number;
+  lastStatus: number | null;
+  lastError: string | null;
+  /** When claude-mem.db was reset under the item; null for retry failures */
+  retiredAt: string | null;
+}
+
+interface QueueRow {
+  kind: SyncItemKind;
+  id: number;
+  payload: string;
+  added_at: string;
+  retry_count: number;
+  next_attempt_at: number;
+  last_status: number | null;
+  last_error: string | null;
+}
+
+interface DeadLetterRow {
+  kind: SyncItemKind;
+  id: number;
+  payload: string;
+  added_at: string;
+  failed_at: string;
+  retry_count: number;
+  last_status: number | null;
+  last_error: string | null;
+  retired_at: string | null;
+}
+
+/** Dead letters and retired items as one row shape, for listing both */
+const FAILURE_ROWS = `
+  SELECT target, kind, id, payload, added_at, failed_at, retry_count, last_status, last_error, NULL AS retired_at
+  FROM dead_letter
+  UNION ALL
+  SELECT target, kind, id, payload, added_at, retired_at AS failed_at, retry_count, last_status, last_error, retired_at
+  FROM retired`;
+
+export interface PendingQueueOptions extends SyncStoreOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+function toItem(row: QueueRow): QueueItem {
+  return {
+    kind: row.kind,
+    id: row.id,
+    payload: JSON.parse(row.payload),
+    addedAt: row.added_at,
+    retryCount: row.retry_count,
+    nextAttemptAt: row.next_attempt_at,
+    lastStatus: row.last_status,
+    lastError: row.last_error,
+  };
+}
+
+function toDeadLetter(row: DeadLetterRow): DeadLetterItem {
+  return {
+    kind: row.kind,
+    id: row.id,
+    payload: JSON.parse(row.payload),
+    addedAt: row.added_at,
+    failedAt: row.failed_at,
+    retryCount: row.retry_count,
+    lastStatus: row.last_status,
+    lastError: row.last_error,
+    retiredAt: row.retired_at,
+  };
+}
+
+function truncateError(error: string | undefined): string | null {
+  if (!error) return null;
+  return error.length > MAX_ERROR_LENGTH
+    ? error.slice(0, MAX_ERROR_LENGTH) + "..."
+    : error;
 }
 
 /**
- * In-memory queue for failed sync items.
+ * SQLite-backed queue for failed sync items.
  */
 export class PendingQueue {
-  private items: QueueItem[] = [];
-  private maxRetries = 5;
+  private db: Database | null = null;
+  private path: string;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private target: string;
+
+  constructor(options: PendingQueueOptions = {}) {
+    this.path = options.path ?? ":memory:";
+    this.target = options.target ?? "";
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  }
+
+  /** Open the file and create the `pending`, `dead_letter` and `retired` tables on first use */
+  private open(): Database {
+    this.db ??= openSyncStore(this.path, "PendingQueue", [
+      `
+        CREATE TABLE IF NOT EXISTS pending (
+          target TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          id INTEGER NOT NULL,
+          payload TEXT NOT NULL,
+          added_at TEXT NOT NULL,
+          retry_count INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER NOT NULL,
+          last_status INTEGER,
+          last_error TEXT,
+          PRIMARY KEY (target, kind, id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS dead_letter (
+          target TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          id INTEGER NOT NULL,
+          payload TEXT NOT NULL,
+          added_at TEXT NOT NULL,
+          failed_at TEXT NOT NULL,
+          retry_count INTEGER NOT NULL,
+          last_status INTEGER,
+          last_error TEXT,
+          PRIMARY KEY (target, kind, id)
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS retired (
+          target TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          id INTEGER NOT NULL,
+          retired_at TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          added_at TEXT NOT NULL,
+          retry_count INTEGER NOT NULL,
+          last_status INTEGER,
+          last_error TEXT,
+          PRIMARY KEY (target, kind, id, retired_at)
+        )
+      `,
+    ]);
+    return this.db;
+  }
 
   /**
-   * Add item to queue.
+   * Switch to another sync target's queue and dead letters. Items queued
+   * for the previous target stay in the file for when it is synced again.
    */
-  add(observation: Record<string, unknown>): void {
-    const id = observation.id as number;
+  setTarget(target: string): void {
+    this.target = target;
+  }
+
+  /**
+   * Backoff delay after the given number of failed attempts.
+   */
+  private backoff(retryCount: number): number {
+    return Math.min(
+      this.baseDelayMs * Math.pow(2, retryCount),
+      this.maxDelayMs,
+    );
+  }
 
-    // Check if already in queue
-    const existing = this.items.find((item) => item.id === id);
+  /**
+   * Add item to queue. Re-adding a queued item counts as another failed
+   * attempt and pushes its next retry further out.
+   */
+  add(
+    kind: SyncItemKind,
+    payload: Record<string, unknown>,
+    failure: SyncFailure = {},
+  ): void {
+    const id = payload.id as number;
+    const db = this.open();
+    const now = Date.now();
+    const lastStatus = failure.status ?? null;
+    const lastError = truncateError(failure.error);
+
+    const existing = db
+      .query(
+        "SELECT retry_count FROM pending WHERE target = ? AND kind = ? AND id = ?",
+      )
+      .get(this.target, kind, id) as { retry_count: number } | null;
     if (existing) {
-      existing.retryCount++;
+      const retryCount = existing.retry_count + 1;
+      db.run(
+        "UPDATE pending SET payload = ?, retry_count = ?, next_attempt_at = ?, last_status = ?, last_error = ? WHERE target = ? AND kind = ? AND id = ?",
+        [
+          JSON.stringify(payload),
+          retryCount,
+          now + this.backoff(retryCount),
+          lastStatus,
+          lastError,
+          this.target,
+          kind,
+          id,
+        ],
+      );
       return;
     }
 
-    this.items.push({
-      id,
-      observation,
-      addedAt: new Date().toISOString(),
-      retryCount: 0,
-    });
+    db.run(
+      "INSERT INTO pending (target, kind, id, payload, added_at, retry_count, next_attempt_at, last_status, last_error) VALUES (?, ?, ?, ?, ?, 0, ?, ?, ?)",
+      [
+        this.target,
+        kind,
+        id,
+        JSON.stringify(payload),
+        new Date(now).toISOString(),
+        now + this.backoff(0),
+        lastStatus,
+        lastError,
+      ],
+    );
   }
 
   /**
    * Remove item from queue.
    */
-  remove(id: number): void {
-    this.items = this.items.filter((item) => item.id !== id);
+  remove(kind: SyncItemKind, id: number): void {
+    this.open().run(
+      "DELETE FROM pending WHERE target = ? AND kind = ? AND id = ?",
+      [this.target, kind, id],
+    );
   }
 
   /**
-   * Get items ready for retry.
+   * Get items due for retry (backoff elapsed, retries remaining).
    */
-  getRetryItems(): QueueItem[] {
-    return this.items.filter((item) => item.retryCount < this.maxRetries);
+  getRetryItems(now: number = Date.now()): QueueItem[] {
+    const rows = this.open()
+      .query(
+        "SELECT * FROM pending WHERE target = ? AND retry_count < ? AND next_attempt_at <= ? ORDER BY next_attempt_at ASC, kind ASC, id ASC",
+      )
+      .all(this.target, this.maxRetries, now) as QueueRow[];
+    return rows.map(toItem);
   }
 
   /**
-   * Increment retry count for an item.
+   * Get every queued item regardless of backoff or retry state.
    */
-  incrementRetry(id: number): void {
-    const item = this.items.find((i) => i.id === id);
-    if (item) {
-      item.retryCount++;
-    }
+  list(): QueueItem[] {
+    const rows = this.open()
+      .query("SELECT * FROM pending WHERE target = ? ORDER BY kind ASC, id ASC")
+      .all(this.target) as QueueRow[];
+    return rows.map(toItem);
   }
 
   /**
-   * Get queue size.
+   * Increment retry count for an item, record why it failed and schedule
+   * its next attempt.
    */
-  size(): number {
-    return this.items.length;
+  incrementRetry(
+    kind: SyncItemKind,
+    id: number,
+    failure: SyncFailure = {},
+  ): void {
+    const db = this.open();
+    const row = db
+      .query(
+        "SELECT retry_count FROM pending WHERE target = ? AND kind = ? AND id = ?",
+      )
+      .get(this.target, kind, id) as { retry_count: number } | null;
+    if (!row) return;
+
+    const retryCount = row.retry_count + 1;
+    db.run(
+      "UPDATE pending SET retry_count = ?, next_attempt_at = ?, last_status = ?, last_error = ? WHERE target = ? AND kind = ? AND id = ?",
+      [
+        retryCount,
+        Date.now() + this.backoff(retryCount),
+        failure.status ?? null,
+        truncateError(failure.error),
+        this.target,
+        kind,
+        id,
+      ],
+    );
+  }
+
+  /**
+   * Get queue size, optionally for one kind only.
+   */
+  size(kind?: SyncItemKind): number {
+    const db = this.open();
+    const row = (
+      kind === undefined
+        ? db
+            .query("SELECT COUNT(*) as c FROM pending WHERE target = ?")
+            .get(this.target)
+        : db
+            .query(
+              "SELECT COUNT(*) as c FROM pending WHERE target = ? AND kind = ?",
+            )
+            .get(this.target, kind)
+    ) as { c: number } | null;
+    return row?.c ?? 0;
   }
 
   /**
-   * Clear all items.
+   * Epoch ms of the earliest scheduled retry, or null if nothing is retryable.
+   */
+  nextAttemptAt(): number | null {
+    const row = this.open()
+      .query(
+        "SELECT MIN(next_attempt_at) as t FROM pending WHERE target = ? AND retry_count < ?",
+      )
+      .get(this.target, this.maxRetries) as { t: number | null } | null;
+    return row?.t ?? null;
+  }
+
+  /**
+   * Clear all items of the current target.
    */
   clear(): void {
-    this.items = [];
+    this.open().run("DELETE FROM pending WHERE target = ?", [this.target]);
+  }
+
+  /**
+   * Move items that exceeded max retries to the dead-letter table.
+   *
+   * @returns Number of items moved
+   */
+  moveFailedToDeadLetter(): number {
+    const db = this.open();
+    const move = db.transaction(() => {
+      db.run(
+        `INSERT OR REPLACE INTO dead_letter
+           (target, kind, id, payload, added_at, failed_at, retry_count, last_status, last_error)
+         SELECT target, kind, id, payload, added_at, ?, retry_count, last_status, last_error
+         FROM pending WHERE target = ? AND retry_count >= ?`,
+        [new Date().toISOString(), this.target, this.maxRetries],
+      );
+      return db.run(
+        "DELETE FROM pending WHERE target = ? AND retry_count >= ?",
+        [this.target, this.maxRetries],
+      ).changes;
+    });
+    return move();
+  }
+
+  /**
+   * Retire every queued item of the current target after a claude-mem.db
+   * reset: the new database reuses local IDs, so a retry would overwrite
+   * another row on the server. Retired items stay listed with the dead
+   * letters, with `error` as their last error, but are never requeued.
+   *
+   * @returns Number of items retired
+   */
+  retirePending(error: string): number {
+    const db = this.open();
+    const retire = db.transaction(() => {
+      db.run(
+        `INSERT OR REPLACE INTO retired
+           (target, kind, id, retired_at, payload, added_at, retry_count, last_status, last_error)
+         SELECT target, kind, id, ?, payload, added_at, retry_count, last_status, ?
+         FROM pending WHERE target = ?`,
+        [new Date().toISOString(), truncateError(error), this.target],
+      );
+      return db.run("DELETE FROM pending WHERE target = ?", [this.target])
+        .changes;
+    });
+    return retire();
+  }
+
+  /**
+   * List dead-letter and retired items, most recent failure first.
+   */
+  listDeadLetters(limit = 50): DeadLetterItem[] {
+    const rows = this.open()
+      .query(
+        `SELECT * FROM (${FAILURE_ROWS}) WHERE target = ? ORDER BY failed_at DESC, kind ASC, id DESC LIMIT ?`,
+      )
+      .all(this.target, limit) as DeadLetterRow[];
+    return rows.map(toDeadLetter);
+  }
+
+  /**
+   * Get a single dead-letter item — the retry failure if there is one,
+   * else the most recently retired item with that ID.
+   */
+  getDeadLetter(kind: SyncItemKind, id: number): DeadLetterItem | null {
+    const row = this.open()
+      .query(
+        `SELECT * FROM (${FAILURE_ROWS}) WHERE target = ? AND kind = ? AND id = ? ORDER BY retired_at IS NOT NULL, retired_at DESC LIMIT 1`,
+      )
+      .get(this.target, kind, id) as DeadLetterRow | null;
+    return row ? toDeadLetter(row) : null;
+  }
+
+  /**
+   * Get dead-letter count, retired items included.
+   */
+  deadLetterCount(): number {
+    const row = this.open()
+      .query(`SELECT COUNT(*) as c FROM (${FAILURE_ROWS}) WHERE target = ?`)
+      .get(this.target) as { c: number } | null;
+    return row?.c ?? 0;
+  }
+
+  /**
+   * Move dead-letter items back into the pending queue with a fresh retry
+   * budget, due immediately. Pass no item to requeue every dead-letter item.
+   * Retired items are left where they are.
+   *
+   * @returns Number of items requeued
+   */
+  requeueDeadLetter(item?: { kind: SyncItemKind; id: number }): number {
+    const db = this.open();
+    const where = item
+      ? "WHERE target = ? AND kind = ? AND id = ?"
+      : "WHERE target = ?";
+    const params = item ? [this.target, item.kind, item.id] : [this.target];
+    const requeue = db.transaction(() => {
+      db.run(
+        `INSERT OR REPLACE INTO pending
+           (target, kind, id, payload, added_at, retry_count, next_attempt_at, last_status, last_error)
+         SELECT target, kind, id, payload, added_at, 0, ?, last_status, last_error
+         FROM dead_letter ${where}`,
+        [Date.now(), ...params],
+      );
+      return db.run(`DELETE FROM dead_letter ${where}`, params).changes;
+    });
+    return requeue();
+  }
+
+  /**
+   * Permanently discard dead-letter and retired items. Pass no item to
+   * discard all.
+   *
+   * @returns Number of items discarded
+   */
+  discardDeadLetter(item?: { kind: SyncItemKind; id: number }): number {
+    const db = this.open();
+    const where = item
+      ? "WHERE target = ? AND kind = ? AND id = ?"
+      : "WHERE target = ?";
+    const params = item ? [this.target, item.kind, item.id] : [this.target];
+    const discard = db.transaction(
+      () =>
+        db.run(`DELETE FROM dead_letter ${where}`, params).changes +
+        db.run(`DELETE FROM retired ${where}`, params).changes,
+    );
+    return discard();
   }
 
   /**
-   * Clear only failed items (exceeded max retries).
+   * Close the underlying database handle.
    */
-  clearFailed(): void {
-    this.items = this.items.filter((item) => item.retryCount < this.maxRetries);
+  close(): void {
+    closeSyncStore(this.db);
+    this.db = null;
   }
 }
 
 // Singleton instance
-export const pendingQueue = new PendingQueue();
+export const pendingQueue = new PendingQueue({ path: SYNC_STATE_PATH });
@@ -0,0 +1,88 @@
+/**
+ * Quota Hold
+ *
+ * Observations the sync poller passed while in quota priority mode (see
+ * sync-priority.ts), each with its priority score, backed by the `held`
+ * table of ~/.memforge/sync-state.db. The watermark moves past them; the
+ * poller pushes the highest-scored ones within the remaining quota and
+ * releases the rest once the quota frees up.
+ */
+
+import {
+  SYNC_STATE_PATH,
+  TargetStore,
+  type SyncStoreOptions,
+} from "./sync-store";
+import type { SyncItemKind } from "./pending-queue";
+
+/** A held row and its priority score */
+export interface HeldRow {
+  id: number;
+  score: number;
+}
+
+/**
+ * SQLite-backed set of held (kind, id) rows, ranked by score.
+ */
+export class QuotaHold extends TargetStore {
+  constructor(options: SyncStoreOptions = {}) {
+    super(
+      "QuotaHold",
+      "held",
+      `
+        CREATE TABLE IF NOT EXISTS held (
+          target TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          id INTEGER NOT NULL,
+          score REAL NOT NULL,
+          held_at INTEGER NOT NULL,
+          PRIMARY KEY (target, kind, id)
+        )
+      `,
+      options,
+    );
+  }
+
+  /**
+   * Hold rows. Holding a row again updates its score.
+   */
+  hold(kind: SyncItemKind, rows: HeldRow[]): void {
+    if (rows.length === 0) return;
+    const db = this.open();
+    const now = Date.now();
+    const insert = db.prepare(`
+      INSERT INTO held (target, kind, id, score, held_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (target, kind, id) DO UPDATE SET score = excluded.score
+    `);
+    db.transaction(() => {
+      for (const row of rows) {
+        insert.run(this.target, kind, row.id, row.score, now);
+      }
+    })();
+  }
+
+  /**
+   * Highest-scored held IDs of one kind (ties: lowest ID first).
+   */
+  top(kind: SyncItemKind, limit: number): number[] {
+    const rows = this.open()
+      .query(
+        "SELECT id FROM held WHERE target = ? AND kind = ? ORDER BY score DESC, id ASC LIMIT ?",
+      )
+      .all(this.target, kind, limit) as { id: number }[];
+    return rows.map((r) => r.id);
+  }
+
+  /**
+   * All held IDs of one kind, ascending.
+   */
+  ids(kind: SyncItemKind): number[] {
+    const rows = this.open()
+      .query("SELECT id FROM held WHERE target = ? AND kind = ? ORDER BY id")
+      .all(this.target, kind) as { id: number }[];
+    return rows.map((r) => r.id);
+  }
+}
+
+// Singleton instance
+export const quotaHold = new QuotaHold({ path: SYNC_STATE_PATH });
@@ -6,6 +6,10 @@
  */
 
 import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { RemoteSync } from "./remote-sync";
+import { PendingQueue } from "./pending-queue";
+import { HttpTransport } from "../mcp/transport";
+import { FieldCipher } from "../privacy/field-encryption";
 
 // --- Helpers to bypass constructor side effects ---
 
@@ -134,3 +138,136 @@ describe("remote-sync response parsing (#55)", () => {
     });
   });
 });
+
+// --- Batch push against a fake server ---
+
+/**
+ * RemoteSync whose server rejects (422) any push containing a bad row and
+ * otherwise inserts every row, answering in the real response shape.
+ */
+function syncWithBadRows(badIds: number[], queue: PendingQueue): RemoteSync {
+  const fetch = async (_url: string, init: BunFetchRequestInit) => {
+    const prompts = JSON.parse(String(init.body)).prompts as { id: number }[];
+    if (prompts.some((row) => badIds.includes(row.id))) {
+      return new Response("invalid row", { status: 422 });
+    }
+    return Response.json({
+      ...REAL_SERVER_RESPONSE_INSERT,
+      tables: { prompts: { inserted: prompts.length, updated: 0 } },
+    });
+  };
+  return new RemoteSync({
+    queue,
+    transport: new HttpTransport({
+      fetch,
+      network: () => ({}),
+      sleep: async () => {},
+    }),
+    config: {
+      apiKey: "test-key",
+      serverUrl: "https://memclaude.thaicloud.ai",
+      syncEnabled: true,
+      pollInterval: 2000,
+      syncCompression: false,
+    },
+  });
+}
+
+describe("syncItems — bisecting a failing batch", () => {
+  test("reports which rows synced when a middle row is bad", async () => {
+    const queue = new PendingQueue();
+    const sync = syncWithBadRows([2], queue);
+    const rows = [1, 2, 3, 4].map((id) => ({ id, prompt_text: `p${id}` }));
+
+    const result = await sync.syncItems("prompt", rows);
+
+    expect(result.synced).toBe(3);
+    expect(result.failed).toBe(1);
+    expect(result.syncedIds.sort()).toEqual([1, 3, 4]);
+    expect(result.queuedIds).toEqual([2]);
+    expect(queue.list().map((item) => item.id)).toEqual([2]);
+    expect(queue.list()[0].lastStatus).toBe(422);
+    queue.close();
+  });
+});
+
+describe("retryPending — deferred kinds", () => {
+  test("observations waiting for a key do not hold back other kinds", async () => {
+    const queue = new PendingQueue({ baseDelayMs: 0 });
+    const pushed: string[] = [];
+    const sync = new RemoteSync({
+      queue,
+      transport: new HttpTransport({
+        fetch: async (_url: string, init: BunFetchRequestInit) => {
+          pushed.push(...Object.keys(JSON.parse(String(init.body))));
+          return Response.json({
+            ...REAL_SERVER_RESPONSE_INSERT,
+            tables: { prompts: { inserted: 1, updated: 0 } },
+          });
+        },
+        network: () => ({}),
+        sleep: async () => {},
+      }),
+      config: {
+        apiKey: "test-key",
+        serverUrl: "https://memclaude.thaicloud.ai",
+        syncEnabled: true,
+        pollInterval: 2000,
+        syncCompression: false,
+        syncEncryption: true,
+      },
+      cipher: () => new FieldCipher(null),
+    });
+    // Sorted first, so a deferral that stopped the run would skip the prompt
+    queue.add("observation", { id: 1, title: "secret" });
+    queue.add("prompt", { id: 2, prompt_text: "p2" });
+
+    const synced = await sync.retryPending();
+
+    expect(synced.prompt).toBe(1);
+    expect(pushed).toEqual(["prompts"]);
+    expect(queue.list().map((item) => [item.kind, item.retryCount])).toEqual([
+      ["observation", 0],
+    ]);
+    queue.close();
+  });
+});
+
+describe("sendPush — 415 fallback", () => {
+  test("repeats the push uncompressed under the same idempotency key", async () => {
+    const keys: string[] = [];
+    const sync = new RemoteSync({
+      queue: new PendingQueue(),
+      transport: new HttpTransport({
+        fetch: async (_url: string, init: BunFetchRequestInit) => {
+          const headers = init.headers as Record<string, string>;
+          keys.push(headers["Idempotency-Key"]);
+          if (headers["Content-Encoding"] === "gzip") {
+            return new Response("gzip not supported", { status: 415 });
+          }
+          return Response.json({
+            ...REAL_SERVER_RESPONSE_INSERT,
+            tables: { prompts: { inserted: 1, updated: 0 } },
+          });
+        },
+        network: () => ({}),
+        sleep: async () => {},
+      }),
+      config: {
+        apiKey: "test-key",
+        serverUrl: "https://memclaude.thaicloud.ai",
+        syncEnabled: true,
+        pollInterval: 2000,
+        syncCompression: true,
+      },
+    });
+
+    const result = await sync.syncItems("prompt", [
+      { id: 1, prompt_text: "p1" },
+    ]);
+
+    expect(result.synced).toBe(1);
+    expect(keys).toHaveLength(2);
+    expect(keys[1]).toBe(keys[0]);
+  });
+});
@@ -1,33 +1,155 @@
 /**
  * Remote Sync Service
  *
- * Handles syncing observations from local claude-mem to remote server.
+ * Handles syncing sessions, user prompts, observations and session
+ * summaries from local claude-mem to the remote server, queueing failures
+ * for retry.
  */
 
 import { readFileSync } from "fs";
-import { pendingQueue } from "./pending-queue";
+import { randomUUID } from "crypto";
+import {
+  pendingQueue,
+  type DeadLetterItem,
+  type PendingQueue,
+  type SyncItemKind,
+} from "./pending-queue";
 import { resolveConfigPath } from "../mcp/api-client";
+import {
+  transport,
+  type HttpTransport,
+  type TransportRequest,
+} from "../mcp/transport";
+import { responseCache } from "../mcp/response-cache";
+import { redactPayload } from "../privacy/redaction";
+import { getFieldCipher, type FieldCipher } from "../privacy/field-encryption";
+import { stampPayload } from "./device-identity";
+import { outbox, type OutboxEntry } from "./outbox";
+import { BatchSizer } from "./batch-sizer";
+import { pauseForResponse, type SyncPause } from "./sync-pause";
+import { DB_PATH } from "./db-identity";
+import { targetKey, type WatermarkTarget } from "./watermark";
 
 interface Config {
   apiKey: string;
   serverUrl: string;
   syncEnabled: boolean;
   pollInterval: number;
+  /** gzip /api/sync/push bodies (default: true) */
+  syncCompression?: boolean;
+  /** Encrypt observation narrative/text/facts (default: false) */
+  syncEncryption?: boolean;
+  /** "export" writes requests to ~/.memforge/outbox/ instead of sending */
+  syncMode?: "push" | "export";
+}
+
+const ITEM_TIMEOUT_MS = 30000; // 30s timeout for a single item
+const BATCH_TIMEOUT_MS = 60000; // 60s timeout for batch
+
+/** Statuses that mean "this batch (or a row in it) is the problem" — bisect */
+const SPLITTABLE_STATUSES = new Set([400, 413, 422]);
+
+type PushTable = "sessions" | "prompts" | "observations" | "summaries";
+
+/** Request body key and response `tables` key for each item kind */
+const PUSH_TABLES: Record<SyncItemKind, PushTable> = {
+  session: "sessions",
+  prompt: "prompts",
+  observation: "observations",
+  summary: "summaries",
+};
+
+/**
+ * Kinds older servers may not accept. A push answered without the kind's
+ * `tables` entry marks it unsupported for the rest of the process.
+ */
+const OPTIONAL_KINDS = new Set<SyncItemKind>(["session", "prompt"]);
+
+/** Response shape of POST /api/sync/push */
+interface PushResponse {
+  inserted?: number;
+  updated?: number;
+  tables?: Partial<Record<PushTable, { inserted: number; updated: number }>>;
+}
+
+export interface BatchResult {
+  synced: number;
+  failed: number;
+  /** Rows not sent because sync is paused (rate limit / quota) — not failures */
+  deferred?: number;
+  /** IDs of the rows the server accepted */
+  syncedIds: number[];
+  /** IDs of the rows queued for retry */
+  queuedIds: number[];
 }
 
 interface SyncResult {
   success: boolean;
+  /** HTTP status when the server responded with a non-OK code */
+  status?: number;
   error?: string;
+  /** Not sent, or rejected, because sync is paused — not a failure */
+  deferred?: boolean;
+}
+
+/** Outcome of one POST /api/sync/push */
+type PushAttempt =
+  | { ok: true; status: number; body: PushResponse; bytes: number }
+  | {
+      ok: false;
+      status?: number;
+      error: string;
+      timedOut: boolean;
+      /** The server asked sync to back off (see sync-pause.ts) */
+      paused: boolean;
+      bytes: number;
+    };
+
+export interface RemoteSyncOptions {
+  /** Queue for failed items; defaults to the shared one in ~/.memforge */
+  queue?: PendingQueue;
+  /** HTTP transport; defaults to the shared one */
+  transport?: HttpTransport;
+  /** Use this config instead of reading config.json */
+  config?: Config;
+  /** Observation field cipher; defaults to the one over the key file */
+  cipher?: () => FieldCipher;
 }
 
 /**
  * Remote sync service for pushing observations to server.
  */
 export class RemoteSync {
+  private queue: PendingQueue;
+  private cipher: () => FieldCipher;
+  private transport: HttpTransport;
   private config: Config | null = null;
+  private compress = true;
+  private batchSizer = new BatchSizer();
+  private unsupported = new Set<SyncItemKind>();
+  private pause: SyncPause | null = null;
+  private missingKeyLogged = false;
 
-  constructor() {
-    this.loadConfig();
+  constructor(options: RemoteSyncOptions = {}) {
+    this.queue = options.queue ?? pendingQueue;
+    this.transport = options.transport ?? transport;
+    this.cipher = options.cipher ?? getFieldCipher;
+    if (options.config) {
+      this.useConfig(options.config);
+    } else {
+      this.loadConfig();
+    }
+  }
+
+  /**
+   * Adopt a config and point the queue at its target, so retries queued
+   * for another server or account are not sent here.
+   */
+  private useConfig(config: Config): void {
+    this.config = config;
+    this.compress = config.syncCompression !== false;
+    const target = this.getTarget();
+    if (target) this.queue.setTarget(targetKey(target));
   }
 
   /**
@@ -43,7 +165,7 @@ export class RemoteSync {
     try {
       const config: Config = JSON.parse(readFileSync(configPath, "utf-8"));
       if (config.apiKey && config.serverUrl) {
-        this.config = config;
+        this.useConfig(config);
       }
     } catch (error) {
       console.error("Failed to load config:", error);
@@ -72,130 +194,408 @@ export class RemoteSync {
   }
 
   /**
-   * Sync a single observation to the remote server.
-   * Uses /api/sync/push endpoint with observations array wrapper.
+   * The (db, server, account) this client syncs to, or null when sync is
+   * not configured.
    */
-  async syncObservation(
-    observation: Record<string, unknown>,
-  ): Promise<SyncResult> {
-    if (!this.config || !this.config.syncEnabled) {
-      return { success: false, error: "Sync not configured or disabled" };
+  getTarget(): WatermarkTarget | null {
+    if (!this.config) return null;
+    return {
+      dbPath: DB_PATH,
+      serverUrl: this.config.serverUrl,
+      apiKey: this.config.apiKey,
+    };
+  }
+
+  /**
+   * Whether requests go to the outbox instead of the server.
+   */
+  isExportMode(): boolean {
+    return this.config?.syncMode === "export";
+  }
+
+  /**
+   * Send a request to the sync server through the transport.
+   * Callers check the config first.
+   */
+  send(req: TransportRequest): Promise<Response> {
+    const config = this.config!;
+    return this.transport.request(
+      { baseUrl: config.serverUrl, apiKey: config.apiKey },
+      req,
+    );
+  }
+
+  /**
+   * Current adaptive batch size (rows per push).
+   */
+  getBatchSize(): number {
+    return this.batchSizer.get();
+  }
+
+  /**
+   * Whether the server accepts this kind. False once a push of it was
+   * answered without its `tables` entry (server predates sessions/prompts).
+   */
+  supports(kind: SyncItemKind): boolean {
+    return !this.unsupported.has(kind);
+  }
+
+  /**
+   * Current pause (rate limit or quota), or null when sync may push.
+   */
+  getPause(): SyncPause | null {
+    if (this.pause && Date.now() >= this.pause.until) {
+      console.error(`[RemoteSync] Sync resumed (${this.pause.detail})`);
+      this.pause = null;
+    }
+    return this.pause;
+  }
+
+  /**
+   * Pause pushes until `pause.until`. An earlier pause is extended, never
+   * shortened.
+   */
+  pauseSync(pause: SyncPause): void {
+    if (this.pause && this.pause.until >= pause.until) return;
+    if (!this.pause) {
+      console.error(
+        `[RemoteSync] Sync paused: ${pause.detail} — resuming at ${new Date(pause.until).toISOString()}`,
+      );
+    }
+    this.pause = pause;
+  }
+
+  /**
+   * Whether this kind must wait: encryption is on but there is no key, so
+   * observations stay local rather than go out in plaintext.
+   */
+  private awaitingKey(kind: SyncItemKind): boolean {
+    if (kind !== "observation" || !this.config?.syncEncryption) return false;
+    if (this.cipher().activeKeyId() !== null) return false;
+    if (!this.missingKeyLogged) {
+      this.missingKeyLogged = true;
+      console.error(
+        "[RemoteSync] syncEncryption is on but there is no encryption key — holding observations (run: bun run setup encryption generate)",
+      );
     }
+    return true;
+  }
+
+  /**
+   * Outgoing form of a payload: secrets masked (a no-op for already-redacted
+   * payloads), observations and summaries stamped with the device ID and a
+   * content hash (kept if already stamped), then observation fields
+   * encrypted when `syncEncryption` is on. The hash covers the plaintext, so
+   * it stays stable across pushes.
+   */
+  private prepare(
+    kind: SyncItemKind,
+    item: Record<string, unknown>,
+  ): Record<string, unknown> {
+    const stamped = stampPayload(
+      kind,
+      redactPayload(kind, item, item.id as number),
+    );
+    return kind === "observation" && this.config?.syncEncryption
+      ? this.cipher().encryptObservation(stamped)
+      : stamped;
+  }
 
+  /**
+   * Pause if a rejected response is a back-off signal (429, 402).
+   *
+   * @returns Whether sync is now paused because of it
+   */
+  private noteRejection(response: Response, body: string): boolean {
+    const pause = pauseForResponse(
+      response.status,
+      response.headers.get("Retry-After"),
+      body,
+      Date.now(),
+    );
+    if (pause) this.pauseSync(pause);
+    return pause !== null;
+  }
+
+  /**
+   * Push a body — to the server, or in export mode to the outbox, answered
+   * as if the server had inserted every row.
+   */
+  private async postPush(
+    body: Record<string, unknown>,
+    timeoutMs: number,
+  ): Promise<PushAttempt> {
+    if (!this.isExportMode()) return this.sendPush(body, timeoutMs);
+
+    const bytes = Buffer.byteLength(JSON.stringify(body));
     try {
-      // Server expects observations wrapped in an array
-      const response = await fetch(`${this.config.serverUrl}/api/sync/push`, {
+      outbox.write({ method: "POST", path: "/api/sync/push", body });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      return { ok: false, error, timedOut: false, paused: false, bytes };
+    }
+    const tables: PushResponse["tables"] = {};
+    let inserted = 0;
+    for (const [table, rows] of Object.entries(body)) {
+      const count = Array.isArray(rows) ? rows.length : 0;
+      tables[table as PushTable] = { inserted: count, updated: 0 };
+      inserted += count;
+    }
+    return { ok: true, status: 200, body: { inserted, tables }, bytes };
+  }
+
+  /**
+   * POST a body to /api/sync/push, gzip-compressed unless disabled.
+   * A 415 response turns compression off for the rest of the process and
+   * the request is repeated uncompressed under the same idempotency key, so
+   * the server applies the push once even if it did read the gzip body.
+   */
+  private async sendPush(
+    body: Record<string, unknown>,
+    timeoutMs: number,
+    idempotencyKey?: string,
+  ): Promise<PushAttempt> {
+    const bytes = Buffer.byteLength(JSON.stringify(body));
+    const compressed = this.compress;
+    const key = idempotencyKey ?? randomUUID();
+
+    try {
+      const response = await this.send({
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-API-Key": this.config.apiKey,
-        },
-        body: JSON.stringify({ observations: [observation] }),
-        signal: AbortSignal.timeout(30000), // 30s timeout
+        endpoint: "/api/sync/push",
+        body,
+        compress: compressed,
+        timeoutMs,
+        idempotencyKey: key,
       });
 
+      if (response.status === 415 && compressed) {
+        console.error(
+          "[RemoteSync] Server rejected gzip bodies (415) — sending uncompressed",
+        );
+        this.compress = false;
+        return this.sendPush(body, timeoutMs, key);
+      }
+
       if (!response.ok) {
         const errorText = await response.text().catch(() => "");
-        pendingQueue.add(observation);
         return {
-          success: false,
+          ok: false,
+          status: response.status,
           error: `HTTP ${response.status}: ${errorText}`,
+          timedOut: false,
+          paused: this.noteRejection(response, errorText),
+          bytes,
         };
       }
 
-      return { success: true };
+      const pushed = (await response.json()) as PushResponse;
+      // New rows can change cached searches; updated ones may be cached by ID
+      const updated = Object.values(pushed.tables ?? {}).some(
+        (table) => (table?.updated ?? 0) > 0,
+      );
+      if (updated) responseCache.clear();
+      else responseCache.invalidateLists();
+      return { ok: true, status: response.status, body: pushed, bytes };
     } catch (err) {
-      pendingQueue.add(observation);
-      const message = err instanceof Error ? err.message : String(err);
-      return { success: false, error: message };
+      const error = err instanceof Error ? err.message : String(err);
+      const timedOut =
+        err instanceof Error &&
+        (err.name === "TimeoutError" || err.name === "AbortError");
+      return { ok: false, error, timedOut, paused: false, bytes };
     }
   }
 
   /**
-   * Sync multiple observations in batch.
-   * Uses /api/sync/push endpoint which handles multiple observations.
+   * Sync a single item to the remote server.
+   * Uses /api/sync/push endpoint with the kind's array wrapper.
+   * Does not enqueue on failure — callers decide whether to queue or reschedule.
+   * The payload is sent in its outgoing form (see prepare()).
    */
-  async syncBatch(
-    observations: Record<string, unknown>[],
-  ): Promise<{ synced: number; failed: number }> {
+  async syncItem(
+    kind: SyncItemKind,
+    item: Record<string, unknown>,
+  ): Promise<SyncResult> {
     if (!this.config || !this.config.syncEnabled) {
-      return { synced: 0, failed: observations.length };
+      return { success: false, error: "Sync not configured or disabled" };
+    }
+    const pause = this.getPause();
+    if (pause) {
+      return {
+        success: false,
+        error: `Sync paused: ${pause.detail}`,
+        deferred: true,
+      };
+    }
+    if (this.awaitingKey(kind)) {
+      return { success: false, error: "No encryption key", deferred: true };
     }
 
-    try {
-      const response = await fetch(`${this.config.serverUrl}/api/sync/push`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-API-Key": this.config.apiKey,
-        },
-        body: JSON.stringify({ observations }),
-        signal: AbortSignal.timeout(60000), // 60s timeout for batch
-      });
+    // Server expects items wrapped in an array
+    const attempt = await this.postPush(
+      { [PUSH_TABLES[kind]]: [this.prepare(kind, item)] },
+      ITEM_TIMEOUT_MS,
+    );
+    if (!attempt.ok) {
+      return {
+        success: false,
+        status: attempt.status,
+        error: attempt.error,
+        deferred: attempt.paused,
+      };
+    }
+    return { success: true };
+  }
 
-      if (!response.ok) {
-        // Fall back to individual sync
-        let synced = 0;
-        for (const obs of observations) {
-          const result = await this.syncObservation(obs);
-          if (result.success) synced++;
-        }
-        return { synced, failed: observations.length - synced };
-      }
+  /**
+   * Sync a single observation to the remote server.
+   */
+  async syncObservation(
+    observation: Record<string, unknown>,
+  ): Promise<SyncResult> {
+    return this.syncItem("observation", observation);
+  }
 
-      const result = (await response.json()) as {
-        inserted?: number;
-        updated?: number;
-        tables?: { observations?: { inserted: number; updated: number } };
+  /**
+   * Sync a batch of items of one kind. Items are put in their outgoing form
+   * first (see prepare()), so the queue only ever holds masked payloads.
+   * The outcome of the top-level push feeds the adaptive batch size.
+   */
+  async syncItems(
+    kind: SyncItemKind,
+    rawItems: Record<string, unknown>[],
+  ): Promise<BatchResult> {
+    if (!this.config || !this.config.syncEnabled) {
+      return {
+        synced: 0,
+        failed: rawItems.length,
+        syncedIds: [],
+        queuedIds: [],
       };
-      const totalSynced =
-        (result.tables?.observations?.inserted ?? 0) +
-        (result.tables?.observations?.updated ?? 0);
-      // Treat zero-sync on non-empty batch as failure (prevents watermark advancing past unsynced items)
-      if (totalSynced === 0 && observations.length > 0) {
-        for (const obs of observations) {
-          pendingQueue.add(obs);
-        }
-        return { synced: 0, failed: observations.length };
-      }
-      return { synced: totalSynced, failed: observations.length - totalSynced };
-    } catch (err) {
-      // Queue all for retry via in-memory queue
-      for (const obs of observations) {
-        pendingQueue.add(obs);
-      }
-      return { synced: 0, failed: observations.length };
     }
+
+    if (this.awaitingKey(kind)) {
+      return {
+        synced: 0,
+        failed: 0,
+        deferred: rawItems.length,
+        syncedIds: [],
+        queuedIds: [],
+      };
+    }
+
+    const items = rawItems.map((item) => this.prepare(kind, item));
+    return this.pushChunk(kind, items, true);
   }
 
   /**
-   * Retry pending failed syncs from in-memory queue.
+   * Push one chunk. On 400/413/422 or a timeout the chunk is split in half
+   * and each half pushed again, isolating a bad or oversized row in
+   * log2(n) requests; a single row that still fails is queued. A response
+   * that accepts fewer rows than were sent is split the same way (the
+   * server upserts by id, so re-sending the rows that landed is harmless),
+   * which tells exactly which rows synced. Other failures (network, 5xx,
+   * auth) queue the whole chunk for retry with backoff. While sync is
+   * paused, or when the server pauses it, the chunk is deferred: neither
+   * sent nor queued.
    */
-  async retryPending(): Promise<number> {
-    const retryItems = pendingQueue.getRetryItems();
-    let synced = 0;
+  private async pushChunk(
+    kind: SyncItemKind,
+    items: Record<string, unknown>[],
+    topLevel = false,
+  ): Promise<BatchResult> {
+    const deferred = {
+      synced: 0,
+      failed: 0,
+      deferred: items.length,
+      syncedIds: [],
+      queuedIds: [],
+    };
+    if (this.getPause()) return deferred;
+    const table = PUSH_TABLES[kind];
+    const started = Date.now();
+    const attempt = await this.postPush({ [table]: items }, BATCH_TIMEOUT_MS);
+    if (!attempt.ok && attempt.paused) return deferred;
+    const totalSynced = attempt.ok
+      ? (attempt.body.tables?.[table]?.inserted ?? 0) +
+        (attempt.body.tables?.[table]?.updated ?? 0)
+      : 0;
+    const splittable = attempt.ok
+      ? totalSynced > 0 && totalSynced < items.length
+      : attempt.timedOut ||
+        (attempt.status !== undefined &&
+          SPLITTABLE_STATUSES.has(attempt.status));
 
-    for (const item of retryItems) {
-      const result = await this.syncObservation(item.observation);
-      if (result.success) {
-        pendingQueue.remove(item.id);
-        synced++;
-      } else {
-        pendingQueue.incrementRetry(item.id);
+    if (topLevel) {
+      this.batchSizer.record({
+        rows: items.length,
+        bytes: attempt.bytes,
+        latencyMs: Date.now() - started,
+        overloaded: !attempt.ok && (attempt.timedOut || attempt.status === 413),
+      });
+    }
+
+    if (
+      attempt.ok &&
+      OPTIONAL_KINDS.has(kind) &&
+      attempt.body.tables &&
+      !(table in attempt.body.tables)
+    ) {
+      // Not an item failure — the server ignores this table entirely
+      if (!this.unsupported.has(kind)) {
+        console.error(
+          `[RemoteSync] Server does not accept ${table} — not syncing ${kind}s`,
+        );
+        this.unsupported.add(kind);
       }
+      return { synced: 0, failed: 0, syncedIds: [], queuedIds: [] };
     }
 
-    // Clean up items that exceeded max retries to prevent memory leak
-    pendingQueue.clearFailed();
+    const ids = items.map((item) => item.id as number);
+    if (attempt.ok && totalSynced >= items.length) {
+      return {
+        synced: items.length,
+        failed: 0,
+        syncedIds: ids,
+        queuedIds: [],
+      };
+    }
 
-    return synced;
+    if (splittable && items.length > 1) {
+      const mid = Math.ceil(items.length / 2);
+      const left = await this.pushChunk(kind, items.slice(0, mid));
+      const right = await this.pushChunk(kind, items.slice(mid));
+      const deferredCount = (left.deferred ?? 0) + (right.deferred ?? 0);
+      return {
+        synced: left.synced + right.synced,
+        failed: left.failed + right.failed,
+        ...(deferredCount > 0 ? { deferred: deferredCount } : {}),
+        syncedIds: [...left.syncedIds, ...right.syncedIds],
+        queuedIds: [...left.queuedIds, ...right.queuedIds],
+      };
+    }
+
+    // Queue all for retry via the persistent queue. A zero-sync response
+    // counts as a failure so the watermark does not pass unsynced rows.
+    for (const item of items) {
+      this.queue.add(kind, item, {
+        status: attempt.status,
+        error: attempt.ok
+          ? `Server accepted 0 ${table} from batch`
+          : attempt.error,
+      });
+    }
+    return { synced: 0, failed: items.length, syncedIds: [], queuedIds: ids };
   }
 
   /**
-   * Get count of pending items.
+   * Sync multiple observations in batch.
+   * Uses /api/sync/push endpoint which handles multiple observations.
    */
-  getPendingCount(): number {
-    return pendingQueue.size();
+  async syncBatch(
+    observations: Record<string, unknown>[],
+  ): Promise<BatchResult> {
+    return this.syncItems("observation", observations);
   }
 
   /**
@@ -204,48 +604,207 @@ export class RemoteSync {
    */
   async syncSummaries(
     summaries: Record<string, unknown>[],
-  ): Promise<{ synced: number; failed: number }> {
+  ): Promise<BatchResult> {
+    return this.syncItems("summary", summaries);
+  }
+
+  /**
+   * Mark an observation deleted from claude-mem.db as archived on the server.
+   * Archived observations are hidden from default search but kept for history.
+   * A 404 counts as success — there is nothing left to hide.
+   */
+  async archiveObservation(id: number): Promise<SyncResult> {
     if (!this.config || !this.config.syncEnabled) {
-      return { synced: 0, failed: summaries.length };
+      return { success: false, error: "Sync not configured or disabled" };
+    }
+    const pause = this.getPause();
+    if (pause) {
+      return {
+        success: false,
+        error: `Sync paused: ${pause.detail}`,
+        deferred: true,
+      };
+    }
+
+    const path = `/api/observations/${id}`;
+    const body = { status: "archived" };
+    if (this.isExportMode()) {
+      try {
+        outbox.write({ method: "PATCH", path, body });
+        return { success: true };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return { success: false, error: message };
+      }
+    }
+    const result = await this.sendPatch(path, body);
+    if (result.success) {
+      responseCache.invalidateObservations([id]);
+      responseCache.invalidateLists();
     }
+    return result;
+  }
 
+  /**
+   * PATCH a body to the server. A 404 counts as success.
+   */
+  private async sendPatch(
+    path: string,
+    body: Record<string, unknown>,
+    idempotencyKey?: string,
+  ): Promise<SyncResult> {
     try {
-      const response = await fetch(`${this.config.serverUrl}/api/sync/push`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-API-Key": this.config.apiKey,
-        },
-        body: JSON.stringify({ summaries }),
-        signal: AbortSignal.timeout(60000),
+      const response = await this.send({
+        method: "PATCH",
+        endpoint: path,
+        body,
+        idempotencyKey,
       });
 
-      if (!response.ok) {
-        return { synced: 0, failed: summaries.length };
+      if (!response.ok && response.status !== 404) {
+        const errorText = await response.text().catch(() => "");
+        return {
+          success: false,
+          status: response.status,
+          error: `HTTP ${response.status}: ${errorText}`,
+          deferred: this.noteRejection(response, errorText),
+        };
       }
 
-      const result = (await response.json()) as {
-        inserted?: number;
-        updated?: number;
-        tables?: { summaries?: { inserted: number; updated: number } };
-      };
-      const totalSynced =
-        (result.tables?.summaries?.inserted ?? 0) +
-        (result.tables?.summaries?.updated ?? 0);
-      if (totalSynced === 0 && summaries.length > 0) {
-        return { synced: 0, failed: summaries.length };
+      return { success: true };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Send one outbox entry to the server as it was written (import-outbox),
+   * whatever the sync mode. The entry's idempotency key is reused, so
+   * re-running an import that stopped part way applies nothing twice.
+   *
+   * @returns null when sent, else the error
+   */
+  async sendOutboxEntry(entry: OutboxEntry): Promise<string | null> {
+    if (!this.config || !this.config.syncEnabled) {
+      return "Sync not configured or disabled";
+    }
+    if (entry.method === "PATCH") {
+      const result = await this.sendPatch(
+        entry.path,
+        entry.body,
+        entry.idempotencyKey,
+      );
+      return result.success ? null : (result.error ?? "PATCH failed");
+    }
+    const attempt = await this.sendPush(
+      entry.body,
+      BATCH_TIMEOUT_MS,
+      entry.idempotencyKey,
+    );
+    return attempt.ok ? null : attempt.error;
+  }
+
+  /**
+   * Retry pending failed syncs whose backoff has elapsed.
+   * Failures are rescheduled with a longer backoff. A deferred item (sync
+   * paused, or observations waiting for an encryption key) skips the rest of
+   * its kind without using up any retries; other kinds still go out.
+   *
+   * @returns Number of items synced, per kind
+   */
+  async retryPending(): Promise<Record<SyncItemKind, number>> {
+    const retryItems = this.queue.getRetryItems();
+    const synced: Record<SyncItemKind, number> = {
+      session: 0,
+      prompt: 0,
+      observation: 0,
+      summary: 0,
+    };
+
+    const deferred = new Set<SyncItemKind>();
+    for (const item of retryItems) {
+      if (deferred.has(item.kind)) continue;
+      const result = await this.syncItem(item.kind, item.payload);
+      if (result.deferred) {
+        deferred.add(item.kind);
+        continue;
+      }
+      if (result.success) {
+        this.queue.remove(item.kind, item.id);
+        synced[item.kind]++;
+      } else {
+        this.queue.incrementRetry(item.kind, item.id, result);
       }
-      return { synced: totalSynced, failed: summaries.length - totalSynced };
-    } catch {
-      return { synced: 0, failed: summaries.length };
     }
+
+    // Park items that exceeded max retries in the dead-letter store
+    const deadLettered = this.queue.moveFailedToDeadLetter();
+    if (deadLettered > 0) {
+      console.error(
+        `[RemoteSync] Gave up on ${deadLettered} item(s) after max retries — moved to dead-letter (inspect with mem_sync_failures)`,
+      );
+    }
+
+    return synced;
+  }
+
+  /**
+   * Get count of pending items, optionally for one kind only.
+   */
+  getPendingCount(kind?: SyncItemKind): number {
+    return this.queue.size(kind);
+  }
+
+  /**
+   * Get count of dead-letter items.
+   */
+  getDeadLetterCount(): number {
+    return this.queue.deadLetterCount();
+  }
+
+  /**
+   * List dead-letter items, most recent failure first.
+   */
+  listDeadLetters(limit?: number): DeadLetterItem[] {
+    return this.queue.listDeadLetters(limit);
+  }
+
+  /**
+   * Get a single dead-letter item.
+   */
+  getDeadLetter(kind: SyncItemKind, id: number): DeadLetterItem | null {
+    return this.queue.getDeadLetter(kind, id);
+  }
+
+  /**
+   * Requeue dead-letter items for retry on the next poll cycle.
+   * Omit the target to requeue all of them.
+   */
+  retryDeadLetter(target?: { kind: SyncItemKind; id: number }): number {
+    return this.queue.requeueDeadLetter(target);
+  }
+
+  /**
+   * Permanently discard dead-letter items. Omit the target to discard all.
+   */
+  discardDeadLetter(target?: { kind: SyncItemKind; id: number }): number {
+    return this.queue.discardDeadLetter(target);
+  }
+
+  /**
+   * Retire every queued item after a claude-mem.db reset, so it is never
+   * retried under an ID the new database may reuse.
+   */
+  retirePending(error: string): number {
+    return this.queue.retirePending(error);
   }
 
   /**
    * Clear pending queue.
    */
   clearPending(): void {
-    pendingQueue.clear();
+    this.queue.clear();
   }
 }
 
@@ -0,0 +1,134 @@
+/**
+ * Sync Filter
+ *
+ * Per-project allow/deny rules for SyncPoller, configured under
+ * `syncProjects` in ~/.memforge/config.json:
+ *
+ *   "syncProjects": {
+ *     "include": ["internal-*"],          // only these projects sync
+ *     "exclude": ["client-*"],            // never sync these projects
+ *     "excludePaths": ["~/work/clients/"] // never sync rows touching these paths
+ *   }
+ *
+ * Project rules are globs (`*` any run of characters, `?` one character).
+ * Path rules are prefixes matched against every entry of `files_read`,
+ * `files_modified` and `files_edited`. Exclusions win over inclusions.
+ */
+
+import { homedir } from "os";
+
+/** `syncProjects` section of config.json */
+export interface SyncProjectsConfig {
+  include?: string[];
+  exclude?: string[];
+  excludePaths?: string[];
+}
+
+/** Row fields the filter looks at */
+export interface FilterableRow {
+  project: string | null;
+  files_read?: string | null;
+  files_modified?: string | null;
+  files_edited?: string | null;
+}
+
+/** Compile a glob (`*`, `?`) into an anchored regex */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((ch) => {
+      if (ch === "*") return ".*";
+      if (ch === "?") return ".";
+      return ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/** Expand a leading `~` to the home directory */
+function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/")
+    ? homedir() + path.slice(1)
+    : path;
+}
+
+/** Parse a JSON-array column, tolerating plain strings and garbage */
+function parseFileList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) {
+      return parsed.filter((v): v is string => typeof v === "string");
+    }
+  } catch {
+    /* not JSON — treat as a single path */
+  }
+  return [value];
+}
+
+/**
+ * Decides whether a claude-mem row may be synced.
+ */
+export class SyncFilter {
+  private include: { glob: string; re: RegExp }[];
+  private exclude: { glob: string; re: RegExp }[];
+  private excludePaths: { rule: string; prefix: string }[];
+
+  constructor(config: SyncProjectsConfig = {}) {
+    this.include = (config.include ?? []).map((glob) => ({
+      glob,
+      re: globToRegExp(glob),
+    }));
+    this.exclude = (config.exclude ?? []).map((glob) => ({
+      glob,
+      re: globToRegExp(glob),
+    }));
+    this.excludePaths = (config.excludePaths ?? []).map((rule) => ({
+      rule,
+      prefix: expandHome(rule),
+    }));
+  }
+
+  /** True if any rule is configured */
+  isActive(): boolean {
+    return (
+      this.include.length > 0 ||
+      this.exclude.length > 0 ||
+      this.excludePaths.length > 0
+    );
+  }
+
+  /**
+   * Return the rule that blocks a row (e.g. `exclude:client-*`), or null if
+   * the row may be synced.
+   */
+  match(row: FilterableRow): string | null {
+    const project = row.project ?? "";
+
+    for (const { glob, re } of this.exclude) {
+      if (re.test(project)) return `exclude:${glob}`;
+    }
+
+    if (this.excludePaths.length > 0) {
+      const files = [
+        ...parseFileList(row.files_read),
+        ...parseFileList(row.files_modified),
+        ...parseFileList(row.files_edited),
+      ];
+      for (const { rule, prefix } of this.excludePaths) {
+        if (files.some((file) => file.startsWith(prefix))) {
+          return `excludePaths:${rule}`;
+        }
+      }
+    }
+
+    if (
+      this.include.length > 0 &&
+      !this.include.some(({ re }) => re.test(project))
+    ) {
+      return "include:(no match)";
+    }
+
+    return null;
+  }
+}
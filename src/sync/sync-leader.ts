@@ -0,0 +1,316 @@
+/**
+ * Sync Leader Election
+ *
+ * Every Claude Code window runs its own MCP server, and each would start a
+ * SyncPoller against the same claude-mem.db and watermark. SyncLeader makes
+ * exactly one of them the leader via a lease file at
+ * ~/.memforge/sync-leader.lock:
+ *
+ * - Acquire: exclusive create (O_EXCL) of the lease file
+ * - Heartbeat: the leader rewrites the lease every few seconds, including a
+ *   snapshot of its SyncStats so followers can report them
+ * - Takeover: a lease whose PID is gone or whose heartbeat is older than
+ *   the TTL is stale and may be replaced. Replacing it is serialized by a
+ *   second exclusive file, sync-leader.lock.takeover: its holder re-reads
+ *   the lease and renames a new one over it, so two followers that both
+ *   saw the same stale lease cannot both win
+ * - Step-down: a leader that finds someone else's PID in the lease stops
+ *
+ * Followers keep checking and take over automatically when the leader exits.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { homedir, hostname } from "os";
+import { dirname, join } from "path";
+import type { SyncStats } from "./sync-poller";
+
+const LEASE_PATH = join(homedir(), ".memforge", "sync-leader.lock");
+const DEFAULT_HEARTBEAT_MS = 5000;
+const DEFAULT_TTL_MS = 20000; // 4 missed heartbeats
+
+/** Contents of the lease file */
+export interface LeaseRecord {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+  heartbeatAt: string;
+  /** Leader's stats as of the last heartbeat */
+  stats: SyncStats | null;
+}
+
+export interface SyncLeaderOptions {
+  /** Called when this process becomes leader — start syncing */
+  onAcquire: () => void | Promise<void>;
+  /** Called when this process loses leadership — stop syncing */
+  onRelease: () => void;
+  /** Stats snapshot published with each heartbeat */
+  getStats?: () => SyncStats | null;
+  path?: string;
+  heartbeatMs?: number;
+  ttlMs?: number;
+  pid?: number;
+  /** Liveness check for a PID (default: signal 0) */
+  isAlive?: (pid: number) => boolean;
+  logger?: (...args: unknown[]) => void;
+}
+
+/** True if a process with this PID exists */
+export function processAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Lease-based leader election between MCP server processes.
+ */
+export class SyncLeader {
+  private path: string;
+  private heartbeatMs: number;
+  private ttlMs: number;
+  private pid: number;
+  private isAlive: (pid: number) => boolean;
+  private log: (...args: unknown[]) => void;
+  private options: SyncLeaderOptions;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private leader = false;
+  private acquiredAt: string | null = null;
+
+  constructor(options: SyncLeaderOptions) {
+    this.options = options;
+    this.path = options.path ?? LEASE_PATH;
+    this.heartbeatMs = options.heartbeatMs ?? DEFAULT_HEARTBEAT_MS;
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.pid = options.pid ?? process.pid;
+    this.isAlive = options.isAlive ?? processAlive;
+    this.log = options.logger ?? console.error;
+  }
+
+  /**
+   * Try to become leader now, then keep heartbeating (leader) or watching
+   * for a stale lease (follower).
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+    await this.tick();
+    this.timer = setInterval(() => void this.tick(), this.heartbeatMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Stop electing and release the lease if held. Safe to call from an
+   * exit handler (synchronous).
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.leader) {
+      this.leader = false;
+      this.options.onRelease();
+      if (this.read()?.pid === this.pid) {
+        try {
+          unlinkSync(this.path);
+        } catch {
+          /* already gone */
+        }
+      }
+    }
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Current lease holder, or null if nobody (live) holds the lease.
+   */
+  getLeader(now = Date.now()): LeaseRecord | null {
+    const record = this.read();
+    return record && !this.isStale(record, now) ? record : null;
+  }
+
+  /**
+   * One election step. Exposed for tests; normally driven by the timer.
+   */
+  async tick(now = Date.now()): Promise<void> {
+    try {
+      if (this.leader) {
+        this.heartbeat(now);
+      } else if (this.tryAcquire(now)) {
+        this.leader = true;
+        this.log(`[SyncLeader] PID ${this.pid} is now the sync leader`);
+        await this.options.onAcquire();
+        this.heartbeat(now);
+      }
+    } catch (error) {
+      this.log("[SyncLeader] election error:", error);
+    }
+  }
+
+  /** Read the lease file; null if missing or corrupt */
+  private read(): LeaseRecord | null {
+    try {
+      return JSON.parse(readFileSync(this.path, "utf-8")) as LeaseRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  private isStale(record: LeaseRecord, now: number): boolean {
+    const age = now - Date.parse(record.heartbeatAt);
+    return !(age <= this.ttlMs) || !this.isAlive(record.pid);
+  }
+
+  private record(now: number): LeaseRecord {
+    const ts = new Date(now).toISOString();
+    return {
+      pid: this.pid,
+      hostname: hostname(),
+      acquiredAt: this.acquiredAt ?? ts,
+      heartbeatAt: ts,
+      stats: this.options.getStats?.() ?? null,
+    };
+  }
+
+  /**
+   * Create the lease exclusively, or replace it if stale while holding the
+   * takeover lock. The final read-back confirms the lease is ours.
+   */
+  private tryAcquire(now: number): boolean {
+    const dir = dirname(this.path);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+
+    const current = this.read();
+    if (current && current.pid !== this.pid && !this.isStale(current, now)) {
+      return false;
+    }
+
+    this.acquiredAt = new Date(now).toISOString();
+    const acquired = existsSync(this.path)
+      ? this.takeOver(now)
+      : this.create(now);
+    if (!acquired) {
+      this.acquiredAt = null;
+      return false;
+    }
+    return this.read()?.pid === this.pid;
+  }
+
+  /** Create the lease; fails if any other process created it first */
+  private create(now: number): boolean {
+    try {
+      writeFileSync(this.path, JSON.stringify(this.record(now), null, 2), {
+        flag: "wx",
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Replace a stale lease. Under the takeover lock the lease is read again —
+   * another follower may have replaced it since — and only a still-stale
+   * lease is renamed over, so the lease file never goes missing for an
+   * exclusive create to slip in.
+   */
+  private takeOver(now: number): boolean {
+    const lock = `${this.path}.takeover`;
+    try {
+      writeFileSync(
+        lock,
+        JSON.stringify({ pid: this.pid, at: new Date(now).toISOString() }),
+        { flag: "wx" },
+      );
+    } catch {
+      this.clearAbandonedTakeover(lock, now);
+      return false;
+    }
+
+    try {
+      const current = this.read();
+      if (current && current.pid !== this.pid && !this.isStale(current, now)) {
+        return false;
+      }
+      if (current) {
+        this.log(
+          `[SyncLeader] Taking over stale lease from PID ${current.pid} (last heartbeat ${current.heartbeatAt})`,
+        );
+      }
+      const tmp = `${this.path}.${this.pid}.tmp`;
+      writeFileSync(tmp, JSON.stringify(this.record(now), null, 2));
+      renameSync(tmp, this.path);
+      return true;
+    } finally {
+      try {
+        unlinkSync(lock);
+      } catch {
+        /* already gone */
+      }
+    }
+  }
+
+  /**
+   * Remove a takeover lock left by a process that died holding it (or one
+   * older than the TTL), so the next tick can try again.
+   */
+  private clearAbandonedTakeover(lock: string, now: number): void {
+    let pid: number | null = null;
+    let at: number;
+    try {
+      const holder = JSON.parse(readFileSync(lock, "utf-8"));
+      pid = holder.pid;
+      at = Date.parse(holder.at);
+    } catch {
+      // Unreadable (crashed mid-write): judge by the file's age
+      try {
+        at = statSync(lock).mtimeMs;
+      } catch {
+        return; // already released
+      }
+    }
+    const abandoned =
+      !(now - at <= this.ttlMs) || (pid !== null && !this.isAlive(pid));
+    if (!abandoned) return;
+    try {
+      unlinkSync(lock);
+    } catch {
+      /* another follower cleared it */
+    }
+  }
+
+  /**
+   * Refresh the lease. Steps down if another process holds it now.
+   */
+  private heartbeat(now: number): void {
+    const current = this.read();
+    if (current && current.pid !== this.pid) {
+      this.log(
+        `[SyncLeader] Lease taken by PID ${current.pid} — stepping down to follower`,
+      );
+      this.leader = false;
+      this.acquiredAt = null;
+      this.options.onRelease();
+      return;
+    }
+
+    // Write-then-rename so followers never read a half-written lease
+    const tmp = `${this.path}.${this.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(this.record(now), null, 2));
+    renameSync(tmp, this.path);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Sync Pause
+ *
+ * Decides when the server has asked sync to back off, as distinct from an
+ * outage (which the poller's circuit breaker handles):
+ * - 429 Too Many Requests — paused for its `Retry-After` (1 minute if absent)
+ * - Quota exhausted — a 402, or a 429 whose body mentions the quota, or the
+ *   account's observation quota (`/api/auth/me`) showing used >= limit.
+ *   Paused for `Retry-After` when given, else until the quota is re-checked.
+ *
+ * Pushes are not attempted while paused, and rows that meet a pause are not
+ * failures: they stay above the watermark (or in the retry queue) untouched.
+ */
+
+import type { AccountQuota } from "../mcp/api-client";
+
+const DEFAULT_RETRY_AFTER_MS = 60 * 1000;
+/** Floor for any pause, so "Retry-After: 0" cannot cause a retry storm */
+const MIN_PAUSE_MS = 1000;
+/** How long a quota pause lasts before the quota is fetched again */
+export const QUOTA_RECHECK_MS = 10 * 60 * 1000;
+/** Upper bound for a server-supplied Retry-After */
+const MAX_RETRY_AFTER_MS = 24 * 60 * 60 * 1000;
+
+export type SyncPauseReason = "rate_limited" | "quota_exceeded";
+
+export interface SyncPause {
+  reason: SyncPauseReason;
+  /** Epoch ms when sync may resume */
+  until: number;
+  /** Human-readable cause, e.g. "HTTP 429 from /api/sync/push" */
+  detail: string;
+}
+
+/**
+ * Parse a Retry-After header — delay-seconds or an HTTP date — into a delay
+ * in ms from `now`. Null when absent or unparseable.
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number,
+): number | null {
+  if (value === null || value.trim() === "") return null;
+  const trimmed = value.trim();
+  const delay = /^\d+$/.test(trimmed)
+    ? Number(trimmed) * 1000
+    : Date.parse(trimmed) - now;
+  if (!Number.isFinite(delay)) return null;
+  return Math.min(Math.max(0, delay), MAX_RETRY_AFTER_MS);
+}
+
+/**
+ * The pause a rejected request calls for, or null when the status is not a
+ * back-off signal.
+ */
+export function pauseForResponse(
+  status: number,
+  retryAfter: string | null,
+  body: string,
+  now: number,
+): SyncPause | null {
+  const quota = status === 402 || (status === 429 && /quota/i.test(body));
+  if (!quota && status !== 429) return null;
+
+  const delay = Math.max(
+    MIN_PAUSE_MS,
+    parseRetryAfter(retryAfter, now) ??
+      (quota ? QUOTA_RECHECK_MS : DEFAULT_RETRY_AFTER_MS),
+  );
+  return {
+    reason: quota ? "quota_exceeded" : "rate_limited",
+    until: now + delay,
+    detail: quota
+      ? `observation quota exceeded (HTTP ${status})`
+      : "rate limited by server (HTTP 429)",
+  };
+}
+
+/**
+ * Quota pause from the cached account quota, or null when there is room
+ * (or no limit, or the quota is unknown).
+ */
+export function pauseForQuota(
+  quota: AccountQuota | null,
+  now: number,
+): SyncPause | null {
+  const limit = quota?.observations.limit;
+  const used = quota?.observations.used ?? 0;
+  if (!limit || used < limit) return null;
+  return {
+    reason: "quota_exceeded",
+    until: now + QUOTA_RECHECK_MS,
+    detail: `observation quota used (${used.toLocaleString()} / ${limit.toLocaleString()})`,
+  };
+}
@@ -1,67 +1,93 @@
 /**
  * Sync Poller
  *
- * In-process polling of claude-mem SQLite database for new observations
- * and summaries. Replaces the detached db-watcher daemon.
+ * In-process polling of claude-mem SQLite database for new sessions, user
+ * prompts, observations and summaries. Replaces the detached db-watcher
+ * daemon.
  *
  * Key differences from DatabaseWatcher:
  * - No process.exit() — MCP server must stay alive
  * - No standalone entry point — always imported
- * - Watermark persisted to ~/.memforge/.sync-watermark.json (restored on restart)
+ * - Watermark persisted atomically per (db, server, account) to
+ *   ~/.memforge/sync-watermarks.json (restored on restart)
  * - Logger injected (MCP stdout = JSON-RPC, must use stderr)
  * - All errors caught — never crashes host process
  * - Adaptive polling: speeds up when active, slows down when idle
- * - Circuit breaker: suppresses HTTP calls during server outages
+ * - Circuit breaker: suppresses HTTP calls during server outages, and
+ *   polls are skipped while the transport's breaker for the server is open
+ * - Rate limits (429 Retry-After) and an exhausted quota pause sync until
+ *   the given time instead of counting as outages
+ * - Near the observation quota, observations are held back and pushed
+ *   best-first within what is left
+ * - Failed items persisted and retried with backoff
+ * - Edits and deletions below the watermark detected via a change ledger
+ * - Per-project allow/deny rules (config `syncProjects`) skip rows without stalling
+ * - A deleted, recreated or replaced claude-mem.db is detected (file identity,
+ *   IDs below the watermark) and the watermark re-baselined to 0
+ * - Sessions are pushed before the rows that reference them; rows whose
+ *   session is missing or not yet synced are parked until it is
+ * - Optional watch mode (config `syncWatch`): polls within a second of
+ *   claude-mem writing claude-mem.db or its WAL, with the timer slowed to a
+ *   safety net
+ * - Columns are read through the detected claude-mem schema; a schema without
+ *   the columns sync needs stops the poller with a reason instead of failing
+ *   on every poll
+ * - The queue, ledger, park and hold share ~/.memforge/sync-state.db
+ *   (see sync-store.ts)
  */
 
-import { existsSync, readFileSync, writeFileSync } from "fs";
-import { homedir } from "os";
-import { join } from "path";
+import { existsSync } from "fs";
 import { Database } from "bun:sqlite";
 import { remoteSync } from "./remote-sync";
+import type { BatchResult, RemoteSync } from "./remote-sync";
+import type { SyncItemKind } from "./pending-queue";
+import {
+  changeLedger,
+  hashRow,
+  type ChangeLedger,
+  type LedgerEntry,
+} from "./change-ledger";
+import { orphanPark, type OrphanPark } from "./orphan-park";
+import { quotaHold, type QuotaHold } from "./quota-hold";
+import { priorityBudget, scoreObservation } from "./sync-priority";
+import {
+  SYNC_KINDS,
+  localSchema,
+  pushLocalRows,
+  readLocalRows,
+  readLocalRowsById,
+  sessionReady,
+  type LocalRow,
+  type ObservationRow,
+} from "./local-rows";
+import { describeSchema } from "./claude-mem-schema";
+import { DbChangeWatcher } from "./db-change-watcher";
+import { SyncFilter, type SyncProjectsConfig } from "./sync-filter";
 import { pushUsage } from "../usage/usage-sync";
+import {
+  fetchAndCacheTier,
+  getPluginConfig,
+  getQuota,
+  type AccountQuota,
+} from "../mcp/api-client";
+import { transport } from "../mcp/transport";
+import {
+  QUOTA_RECHECK_MS,
+  pauseForQuota,
+  type SyncPause,
+  type SyncPauseReason,
+} from "./sync-pause";
+import { WatermarkStore, targetKey, type WatermarkTarget } from "./watermark";
+import {
+  describeReset,
+  DB_PATH,
+  highWaterId,
+  highWaterIds,
+  readDbIdentity,
+  sameDatabase,
+  type DbIdentity,
+} from "./db-identity";
 
-const DB_PATH = join(homedir(), ".claude-mem/claude-mem.db");
-const WATERMARK_PATH = join(homedir(), ".memforge", ".sync-watermark.json");
-
-/** Persisted watermark — tracks last synced observation/summary IDs */
-interface Watermark {
-  lastObservationId: number;
-  lastSummaryId: number;
-  updatedAt: string;
-}
-
-/** Load watermark from disk. Returns null if file missing or corrupt. */
-function loadWatermark(): Watermark | null {
-  try {
-    if (existsSync(WATERMARK_PATH)) {
-      return JSON.parse(readFileSync(WATERMARK_PATH, "utf-8"));
-    }
-  } catch {
-    /* ignore parse errors — start fresh */
-  }
-  return null;
-}
-
-/** Save watermark to disk after successful sync. */
-function saveWatermark(obsId: number, sumId: number): void {
-  try {
-    writeFileSync(
-      WATERMARK_PATH,
-      JSON.stringify(
-        {
-          lastObservationId: obsId,
-          lastSummaryId: sumId,
-          updatedAt: new Date().toISOString(),
-        },
-        null,
-        2,
-      ),
-    );
-  } catch {
-    /* ignore write errors — non-fatal */
-  }
-}
 const DEFAULT_POLL_INTERVAL = 2000;
 const DB_WAIT_INTERVAL = 5000;
 const MAX_DB_WAIT_ATTEMPTS = 60; // 5 minutes max wait
@@ -70,7 +96,10 @@ const MAX_DB_WAIT_ATTEMPTS = 60; // 5 minutes max wait
 const MIN_POLL_INTERVAL = 1000; // 1s when active
 const MAX_POLL_INTERVAL = 10000; // 10s when idle
 const IDLE_THRESHOLD = 5; // idle after 5 consecutive empty polls
-const SYNC_BATCH_SIZE = 100; // max rows per sync batch (prevents OOM + timeout)
+// Watch mode: file-system events trigger polls; the timer only catches
+// missed events (and drives retries, change scans and usage pushes)
+const WATCH_SAFETY_INTERVAL = 60000; // 60s
+const SYNC_BATCH_SIZE = 100; // rows per change-scan page; push batches size adaptively
 
 // Circuit breaker constants
 const CIRCUIT_THRESHOLD = 3; // open after 3 consecutive sync failures
@@ -92,66 +121,121 @@ const USAGE_SCAN_SINCE_DAYS = ((): number => {
   return Number.isFinite(n) && n > 0 ? Math.floor(n) : 30;
 })();
 
-interface ObservationRow {
-  id: number;
-  type: string | null;
-  title: string | null;
-  subtitle: string | null;
-  narrative: string | null;
-  project: string | null;
-  text: string | null;
-  facts: string | null;
-  concepts: string | null;
-  files_read: string | null;
-  files_modified: string | null;
-  created_at: string | null;
-  created_at_epoch: number | null;
-  memory_session_id: string | null;
-  prompt_number: number | null;
-  discovery_tokens: number | null;
-  sdk_session_id: number | null;
+// Change scan: re-hash rows below the watermark against the change ledger to
+// re-push edits and archive deletions. Reads every synced row, so it runs on
+// a slow cadence like the usage push.
+const CHANGE_SCAN_INTERVAL = 5 * 60 * 1000; // 5 minutes
+// More missing rows than this in one scan looks like a replaced or truncated
+// claude-mem.db rather than real deletions — archive nothing and warn instead.
+const MAX_DELETIONS_PER_SCAN = 100;
+// Parked rows are re-checked whenever new sessions sync, and on this cadence
+// in case claude-mem attached an existing session to them.
+const UNPARK_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+/** Zeroed per-kind counter */
+function perKind(): Record<SyncItemKind, number> {
+  return { session: 0, prompt: 0, observation: 0, summary: 0 };
+}
+
+/** Sum of a per-kind counter */
+function total(counts: Record<SyncItemKind, number>): number {
+  return Object.values(counts).reduce((sum, n) => sum + n, 0);
 }
 
-interface SummaryRow {
-  id: number;
-  memory_session_id: string | null;
-  project: string | null;
-  request: string | null;
-  investigated: string | null;
-  learned: string | null;
-  completed: string | null;
-  next_steps: string | null;
-  files_read: string | null;
-  files_edited: string | null;
-  notes: string | null;
-  prompt_number: number | null;
-  created_at: string | null;
-  created_at_epoch: number | null;
-  discovery_tokens: number | null;
-  sdk_session_id: number | null;
+/** Ledger entries (id + content hash) for a set of rows */
+function toLedgerEntries(rows: { id: number }[]): LedgerEntry[] {
+  return rows.map((row) => ({ id: row.id, hash: hashRow(row) }));
 }
 
-interface SyncPollerOptions {
+export interface SyncPollerOptions {
   pollInterval?: number;
   logger?: (...args: unknown[]) => void;
+  /** Allow/deny rules; defaults to `syncProjects` from config.json */
+  syncProjects?: SyncProjectsConfig;
+  /** Poll on claude-mem.db / WAL changes; defaults to `syncWatch` from config.json */
+  watch?: boolean;
+  /**
+   * Remaining observation quota that starts priority sync; defaults to
+   * `syncPriorityThreshold` from config.json, else 10% of the limit
+   */
+  priorityThreshold?: number;
+  /** Sync client and local stores; default to the shared ones in ~/.memforge */
+  remote?: RemoteSync;
+  ledger?: ChangeLedger;
+  park?: OrphanPark;
+  hold?: QuotaHold;
+}
+
+/** Last detected claude-mem.db reset */
+export interface DbResetInfo {
+  at: string;
+  reason: string;
+}
+
+/** Why and until when sync is paused */
+export interface SyncPauseInfo {
+  reason: SyncPauseReason;
+  /** ISO time sync resumes */
+  until: string;
+  detail: string;
+}
+
+/** Per-kind sync counters */
+export interface SyncKindStats {
+  synced: number;
+  failed: number;
+  pending: number;
 }
 
 export interface SyncStats {
   lastObsId: number;
   lastSumId: number;
+  lastSessionId: number;
+  lastPromptId: number;
   syncedCount: number;
   failedCount: number;
   pendingCount: number;
+  sessions: SyncKindStats;
+  prompts: SyncKindStats;
+  observations: SyncKindStats;
+  summaries: SyncKindStats;
+  /** Rows waiting in the orphan park for their session */
+  parkedCount: number;
+  /** Observations held back by quota priority sync */
+  heldCount: number;
+  /** Estimated observation quota left while priority sync is on, else null */
+  quotaRemaining: number | null;
+  deadLetterCount: number;
+  /** Rows re-pushed after being edited in claude-mem.db */
+  updatedCount: number;
+  /** Observations archived on the server after being deleted locally */
+  deletedCount: number;
+  /** Rows per push batch, tuned from observed latency and payload size */
+  batchSize: number;
+  /** Rows skipped by `syncProjects` rules */
+  filteredCount: number;
+  /** Skipped rows per rule, e.g. { "exclude:client-*": 12 } */
+  filteredByRule: Record<string, number>;
+  /** claude-mem.db resets detected since start */
+  dbResetCount: number;
+  lastDbReset: DbResetInfo | null;
   circuitState: "closed" | "open" | "half-open";
+  /** Server-requested back-off (rate limit / quota); null while pushing */
+  paused: SyncPauseInfo | null;
   currentInterval: number;
+  /** Watch mode active — polls follow claude-mem.db changes */
+  watching: boolean;
 }
 
 export class SyncPoller {
+  private remote: RemoteSync;
+  private ledger: ChangeLedger;
+  private park: OrphanPark;
+  private hold: QuotaHold;
   private db: Database | null = null;
-  private lastObsId = 0;
-  private lastSumId = 0;
-  private syncedCount = 0;
-  private failedCount = 0;
+  private lastIds = perKind();
+  private synced = perKind();
+  private failed = perKind();
   private pollTimer: ReturnType<typeof setTimeout> | null = null;
   private dbWaitTimer: ReturnType<typeof setInterval> | null = null;
   private basePollInterval: number;
@@ -166,19 +250,97 @@ export class SyncPoller {
   private consecutiveFailures = 0;
   private circuitOpenUntil = 0;
 
+  // Server-requested pause (see sync-pause.ts) seen by the last poll
+  private pausedFor: SyncPauseReason | null = null;
+
+  // Quota priority sync: observations pushed since `quotaSeen` was fetched
+  private priorityThreshold: number | undefined;
+  private quotaSeen: AccountQuota | null = null;
+  private quotaSpent = 0;
+  private lastQuotaRefresh = 0;
+
   // Usage push state (Phase 3) — last successful/attempted push epoch (ms)
   private lastUsagePush = 0;
 
+  // Change scan state — last scan epoch (ms) and propagated edits/deletions
+  private lastChangeScan = 0;
+  private updatedCount = 0;
+  private deletedCount = 0;
+
+  // Project filter state — rules and rows skipped per rule
+  private filter: SyncFilter;
+  private filteredByRule: Record<string, number> = {};
+
+  private watermarks: WatermarkStore;
+
+  // Orphan park state — last re-check of parked rows (ms) and newest
+  // sdk_sessions ID seen at that point
+  private lastUnpark = 0;
+  private sessionHighWater = 0;
+
+  // Reset detection state — file the cursor belongs to and resets seen
+  private dbIdentity: DbIdentity | null = null;
+  private dbResetCount = 0;
+  private lastDbReset: DbResetInfo | null = null;
+
+  // Watch mode
+  private watchEnabled: boolean;
+  private watcher: DbChangeWatcher | null = null;
+  private polling = false;
+  private wakePending = false;
+
   constructor(options?: SyncPollerOptions) {
+    this.remote = options?.remote ?? remoteSync;
+    this.ledger = options?.ledger ?? changeLedger;
+    this.park = options?.park ?? orphanPark;
+    this.hold = options?.hold ?? quotaHold;
     this.basePollInterval = options?.pollInterval || DEFAULT_POLL_INTERVAL;
     this.currentInterval = this.basePollInterval;
     this.log = options?.logger || console.error;
+    this.filter = new SyncFilter(
+      options?.syncProjects ?? getPluginConfig()?.syncProjects,
+    );
+    this.watermarks = new WatermarkStore({ logger: this.log });
+    this.watchEnabled = options?.watch ?? getPluginConfig()?.syncWatch ?? false;
+    this.priorityThreshold =
+      options?.priorityThreshold ?? getPluginConfig()?.syncPriorityThreshold;
+  }
+
+  /**
+   * The (db, server, account) this poller syncs — watermarks are kept per
+   * target. Null when sync is not configured.
+   */
+  getWatermarkTarget(): WatermarkTarget | null {
+    return this.remote.getTarget();
+  }
+
+  /** Key of this poller's watermark entry, for diagnostics */
+  getWatermarkKey(): string | null {
+    const target = this.getWatermarkTarget();
+    return target ? targetKey(target) : null;
+  }
+
+  /** Persist the current cursor for this target. Non-fatal on error. */
+  private saveWatermark(): void {
+    const target = this.getWatermarkTarget();
+    if (!target) return;
+    try {
+      this.watermarks.save(target, {
+        lastObservationId: this.lastIds.observation,
+        lastSummaryId: this.lastIds.summary,
+        lastSessionId: this.lastIds.session,
+        lastPromptId: this.lastIds.prompt,
+        dbIdentity: this.dbIdentity,
+      });
+    } catch (error) {
+      this.log("[SyncPoller] Failed to save watermark:", error);
+    }
   }
 
   async start(): Promise<void> {
     if (this.running) return;
 
-    if (!remoteSync.isConfigured()) {
+    if (!this.remote.isConfigured()) {
       this.log("[SyncPoller] Sync not configured, skipping");
       return;
     }
@@ -201,8 +363,8 @@ export class SyncPoller {
     this.running = false;
 
     // Persist watermark before cleanup
-    if (this.lastObsId > 0 || this.lastSumId > 0) {
-      saveWatermark(this.lastObsId, this.lastSumId);
+    if (Object.values(this.lastIds).some((id) => id > 0)) {
+      this.saveWatermark();
     }
 
     if (this.pollTimer) {
@@ -215,6 +377,9 @@ export class SyncPoller {
       this.dbWaitTimer = null;
     }
 
+    this.watcher?.stop();
+    this.watcher = null;
+
     if (this.db) {
       try {
         this.db.close();
@@ -224,9 +389,9 @@ export class SyncPoller {
       this.db = null;
     }
 
-    this.log(
-      `[SyncPoller] Stopped (synced=${this.syncedCount}, failed=${this.failedCount})`,
-    );
+    const synced = total(this.synced);
+    const failed = total(this.failed);
+    this.log(`[SyncPoller] Stopped (synced=${synced}, failed=${failed})`);
   }
 
   isActive(): boolean {
@@ -235,17 +400,66 @@ export class SyncPoller {
 
   getStats(): SyncStats {
     return {
-      lastObsId: this.lastObsId,
-      lastSumId: this.lastSumId,
-      syncedCount: this.syncedCount,
-      failedCount: this.failedCount,
-      pendingCount: remoteSync.getPendingCount(),
+      lastObsId: this.lastIds.observation,
+      lastSumId: this.lastIds.summary,
+      lastSessionId: this.lastIds.session,
+      lastPromptId: this.lastIds.prompt,
+      syncedCount: total(this.synced),
+      failedCount: total(this.failed),
+      pendingCount: this.remote.getPendingCount(),
+      sessions: this.kindStats("session"),
+      prompts: this.kindStats("prompt"),
+      observations: this.kindStats("observation"),
+      summaries: this.kindStats("summary"),
+      parkedCount: this.park.size(),
+      heldCount: this.hold.size(),
+      quotaRemaining: this.priorityBudget(),
+      deadLetterCount: this.remote.getDeadLetterCount(),
+      updatedCount: this.updatedCount,
+      deletedCount: this.deletedCount,
+      filteredCount: Object.values(this.filteredByRule).reduce(
+        (sum, n) => sum + n,
+        0,
+      ),
+      filteredByRule: { ...this.filteredByRule },
+      dbResetCount: this.dbResetCount,
+      lastDbReset: this.lastDbReset,
+      batchSize: this.remote.getBatchSize(),
       circuitState: this.getCircuitState(),
+      paused: this.getPauseInfo(),
       currentInterval: this.currentInterval,
+      watching: this.isWatching(),
+    };
+  }
+
+  private getPauseInfo(): SyncPauseInfo | null {
+    const pause = this.remote.getPause();
+    if (!pause) return null;
+    return {
+      reason: pause.reason,
+      until: new Date(pause.until).toISOString(),
+      detail: pause.detail,
+    };
+  }
+
+  private isWatching(): boolean {
+    return this.watcher?.isWatching() ?? false;
+  }
+
+  private kindStats(kind: SyncItemKind): SyncKindStats {
+    return {
+      synced: this.synced[kind],
+      failed: this.failed[kind],
+      pending: this.remote.getPendingCount(kind),
     };
   }
 
   private getCircuitState(): "closed" | "open" | "half-open" {
+    // The transport's breaker trips on failed requests from any caller
+    const serverUrl = this.remote.getConfig()?.serverUrl;
+    if (serverUrl && transport.circuitState(serverUrl) === "open") {
+      return "open";
+    }
     if (this.consecutiveFailures < CIRCUIT_THRESHOLD) return "closed";
     if (Date.now() >= this.circuitOpenUntil) return "half-open";
     return "open";
@@ -256,6 +470,8 @@ export class SyncPoller {
   }
 
   private getAdaptiveInterval(): number {
+    // Changes wake the poller, so idle polls are only a safety net
+    if (this.isWatching()) return WATCH_SAFETY_INTERVAL;
     if (this.consecutiveEmpty >= IDLE_THRESHOLD) {
       const backoff =
         this.basePollInterval *
@@ -271,6 +487,35 @@ export class SyncPoller {
     this.pollTimer = setTimeout(() => this.poll(), interval);
   }
 
+  /**
+   * Watch mode: poll now for a claude-mem.db change, or right after the
+   * poll in progress. Left to the cooldown timer while the circuit is open.
+   */
+  private wake(): void {
+    if (!this.running || !this.db) return;
+    if (this.polling) {
+      this.wakePending = true;
+      return;
+    }
+    if (this.isCircuitOpen()) return;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = setTimeout(() => this.poll(), 0);
+  }
+
+  private startWatching(): void {
+    if (!this.watchEnabled || this.watcher) return;
+    const watcher = new DbChangeWatcher(DB_PATH, {
+      onChange: () => this.wake(),
+      logger: this.log,
+    });
+    if (watcher.start()) {
+      this.watcher = watcher;
+      this.log(
+        `[SyncPoller] Watching claude-mem.db for changes (timer safety net ${WATCH_SAFETY_INTERVAL / 1000}s)`,
+      );
+    }
+  }
+
   private async waitForDb(): Promise<void> {
     let attempts = 0;
     this.dbWaitTimer = setInterval(() => {
@@ -291,37 +536,45 @@ export class SyncPoller {
 
   private connectAndPoll(): void {
     try {
+      this.dbIdentity = readDbIdentity(DB_PATH);
       this.db = new Database(DB_PATH, { readonly: true });
 
-      // Schema check: verify expected tables exist
-      const tables = this.db
-        .query(
-          "SELECT name FROM sqlite_master WHERE type='table' AND name IN ('observations', 'session_summaries', 'sdk_sessions')",
-        )
-        .all() as { name: string }[];
-      if (tables.length < 3) {
-        const found = tables.map((t) => t.name).join(", ");
+      // Schema check: map the columns claude-mem.db has onto canonical rows
+      const schema = localSchema(this.db);
+      if (schema.problems.length > 0) {
         this.log(
-          `[SyncPoller] Schema mismatch: expected observations, session_summaries, sdk_sessions — found: ${found || "none"}`,
+          `[SyncPoller] Unsupported claude-mem schema (${describeSchema(schema)}): ${schema.problems.join("; ")} — sync stopped`,
         );
         this.db.close();
         this.db = null;
         this.running = false;
         return;
       }
+      this.log(`[SyncPoller] claude-mem schema: ${describeSchema(schema)}`);
+
+      // The ledger, park and hold are per target, like the watermark
+      const target = this.getWatermarkTarget();
+      const key = target ? targetKey(target) : "";
+      this.ledger.setTarget(key);
+      this.park.setTarget(key);
+      this.hold.setTarget(key);
 
       // Initialize watermark: try disk first, fall back to MAX(id)
-      const saved = loadWatermark();
+      const saved = target ? this.watermarks.load(target) : null;
       if (saved) {
-        this.lastObsId = saved.lastObservationId;
-        this.lastSumId = saved.lastSummaryId;
+        this.lastIds = {
+          session: saved.lastSessionId ?? 0,
+          prompt: saved.lastPromptId ?? 0,
+          observation: saved.lastObservationId,
+          summary: saved.lastSummaryId,
+        };
         this.log(
-          `[SyncPoller] Watermark restored from disk (obs=${this.lastObsId}, sum=${this.lastSumId})`,
+          `[SyncPoller] Watermark restored from disk (obs=${this.lastIds.observation}, sum=${this.lastIds.summary}, sessions=${this.lastIds.session}, prompts=${this.lastIds.prompt})`,
         );
+        this.checkForReset(saved.dbIdentity ?? null);
       } else {
-        // Fresh install: start from 0 to backfill all existing observations
-        this.lastObsId = 0;
-        this.lastSumId = 0;
+        // Fresh install or new target: start from 0 to backfill all existing observations
+        this.lastIds = perKind();
 
         const obsRow = this.db
           .query("SELECT MAX(id) as maxId FROM observations")
@@ -330,13 +583,14 @@ export class SyncPoller {
 
         if (totalObs > 0) {
           this.log(
-            `[SyncPoller] Fresh install — backfilling ${totalObs} existing observations`,
+            `[SyncPoller] No watermark for this server/account — backfilling ${totalObs} existing observations`,
           );
         } else {
           this.log("[SyncPoller] Fresh install — no existing observations");
         }
       }
 
+      this.startWatching();
       this.scheduleNextPoll(this.basePollInterval);
     } catch (error) {
       this.log("[SyncPoller] Failed to connect:", error);
@@ -344,30 +598,130 @@ export class SyncPoller {
     }
   }
 
+  /**
+   * Compare the open claude-mem.db with the watermark's. A different file
+   * (inode / creation time) or IDs below the watermark mean the database was
+   * reset: reopen it if needed and re-baseline. Never throws.
+   *
+   * @param savedIdentity File the watermark was saved against
+   */
+  private checkForReset(savedIdentity: DbIdentity | null): void {
+    if (!this.db) return;
+    try {
+      const identity = readDbIdentity(DB_PATH);
+      if (!identity) return; // deleted, not yet recreated — keep the old handle
+
+      const reason = describeReset(
+        { identity: savedIdentity, lastIds: this.lastIds },
+        { identity, maxIds: highWaterIds(this.db) },
+      );
+      if (reason === null) {
+        if (!savedIdentity) {
+          // Watermark predates identity tracking — adopt the current file
+          this.dbIdentity = identity;
+          this.saveWatermark();
+        }
+        return;
+      }
+
+      if (this.dbIdentity && !sameDatabase(identity, this.dbIdentity)) {
+        // Our handle still reads the old (unlinked) file. Open the new one
+        // first so a failure keeps the old handle.
+        const reopened = new Database(DB_PATH, { readonly: true });
+        this.db.close();
+        this.db = reopened;
+      }
+      this.rebaseline(identity, reason);
+    } catch (error) {
+      this.log("[SyncPoller] reset check error:", error);
+    }
+  }
+
+  /**
+   * Start over against a reset claude-mem.db: cursor back to 0 and the
+   * change ledger and orphan park cleared, so old IDs are neither skipped
+   * nor treated as deletions of the previous database's rows. Queued
+   * retries are retired to the dead letters — pushed now, the old rows
+   * would overwrite new rows that reuse their IDs.
+   */
+  private rebaseline(identity: DbIdentity, reason: string): void {
+    this.log(
+      `[SyncPoller] claude-mem.db reset detected: ${reason} — re-baselining watermark (was session=${this.lastIds.session}, prompt=${this.lastIds.prompt}, obs=${this.lastIds.observation}, sum=${this.lastIds.summary}) and syncing from the start`,
+    );
+    this.lastIds = perKind();
+    this.sessionHighWater = 0;
+    this.dbIdentity = identity;
+    this.ledger.clear();
+    this.park.clear();
+    this.hold.clear();
+    const retired = this.remote.retirePending(
+      `claude-mem.db was reset (${reason}) — the local ID may now belong to another row, so this item is not retried`,
+    );
+    if (retired > 0) {
+      this.log(
+        `[SyncPoller] Retired ${retired} queued item(s) from the previous database (inspect with mem_sync_failures)`,
+      );
+    }
+    this.dbResetCount++;
+    this.lastDbReset = { at: new Date().toISOString(), reason };
+    this.saveWatermark();
+  }
+
   private async poll(): Promise<void> {
     if (!this.db || !this.running) return;
 
+    this.checkForReset(this.dbIdentity);
+
     // Circuit breaker: skip sync when remote is known to be down
     if (this.isCircuitOpen()) {
       this.scheduleNextPoll(CIRCUIT_COOLDOWN);
       return;
     }
 
+    // Server asked for a back-off — wait it out without tripping the circuit
+    const pause = await this.checkPause();
+    if (pause) {
+      this.scheduleNextPoll(
+        Math.max(MIN_POLL_INTERVAL, pause.until - Date.now()),
+      );
+      return;
+    }
+
     let hadData = false;
     let hadSyncError = false;
+    this.polling = true;
+    this.wakePending = false;
 
     try {
-      const obsCount = await this.checkNewObservations();
-      const sumCount = await this.checkNewSummaries();
-      hadData = obsCount > 0 || sumCount > 0;
+      // Sessions first, so rows that reference them are not parked
+      const lastSessionId = this.lastIds.session;
+      for (const kind of SYNC_KINDS) {
+        // A pause mid-poll would otherwise park rows of unsynced sessions
+        if (this.remote.getPause()) break;
+        if (!this.remote.supports(kind)) continue;
+        if ((await this.checkNewRows(kind)) > 0) hadData = true;
+      }
+
+      // New local sessions matter too when the server does not take them
+      const sessionHighWater = this.db
+        ? highWaterId(this.db, "sdk_sessions")
+        : 0;
+      await this.maybeUnpark(
+        this.lastIds.session > lastSessionId ||
+          sessionHighWater > this.sessionHighWater,
+      );
+      this.sessionHighWater = sessionHighWater;
 
-      // Retry pending if any
-      const pendingCount = remoteSync.getPendingCount();
+      await this.releaseHeld();
+
+      // Retry queued failures whose backoff has elapsed (persisted across restarts)
+      const pendingCount = this.remote.getPendingCount();
       if (pendingCount > 0) {
-        const retried = await remoteSync.retryPending();
-        if (retried > 0) {
-          this.syncedCount += retried;
+        const retried = await this.remote.retryPending();
+        for (const kind of SYNC_KINDS) {
+          this.synced[kind] += retried[kind];
         }
+        this.quotaSpent += retried.observation;
       }
 
       // Success — reset circuit breaker
@@ -380,6 +734,9 @@ export class SyncPoller {
       // are logged inside pushUsage and never propagate, so a failure here
       // cannot trip the obs-sync circuit breaker or crash the poll loop.
       await this.maybePushUsage();
+
+      // Throttled scan for rows edited or deleted below the watermark.
+      await this.maybeScanChanges();
     } catch (error) {
       this.log("[SyncPoller] Poll error:", error);
       hadSyncError = true;
@@ -393,8 +750,12 @@ export class SyncPoller {
       }
     }
 
-    // Adaptive polling: speed up when active, slow down when idle
-    if (hadData) {
+    this.polling = false;
+
+    // Adaptive polling: speed up when active, slow down when idle. A change
+    // seen while polling may have landed after the rows were read.
+    if (hadData || this.wakePending) {
+      this.wakePending = false;
       this.consecutiveEmpty = 0;
       this.scheduleNextPoll(MIN_POLL_INTERVAL);
     } else if (hadSyncError) {
@@ -405,6 +766,28 @@ export class SyncPoller {
     }
   }
 
+  /**
+   * Current sync pause, adding one when the cached account quota is used up.
+   * When a quota pause ends the quota is fetched again first, so sync only
+   * resumes once there is room.
+   */
+  private async checkPause(): Promise<SyncPause | null> {
+    const pause = this.remote.getPause();
+    if (pause) {
+      this.pausedFor = pause.reason;
+      return pause;
+    }
+    if (this.pausedFor === "quota_exceeded") await fetchAndCacheTier();
+    this.pausedFor = null;
+
+    const quotaPause = pauseForQuota(getQuota(), Date.now());
+    if (quotaPause) {
+      this.remote.pauseSync(quotaPause);
+      this.pausedFor = quotaPause.reason;
+    }
+    return quotaPause;
+  }
+
   /**
    * Phase 3 (ADR-003): push measured token usage if the throttle window has
    * elapsed. Reads local Claude Code JSONL (no ccusage needed) and POSTs the
@@ -422,143 +805,388 @@ export class SyncPoller {
     }
   }
 
-  private async checkNewObservations(): Promise<number> {
-    if (!this.db) return 0;
+  /**
+   * Scan for edits and deletions if the throttle window has elapsed.
+   * Self-contained error handling — never throws.
+   */
+  private async maybeScanChanges(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastChangeScan < CHANGE_SCAN_INTERVAL) return;
+    this.lastChangeScan = now;
+    try {
+      for (const kind of SYNC_KINDS) {
+        if (this.remote.supports(kind)) await this.scanChanges(kind);
+      }
+    } catch (e) {
+      this.log("[SyncPoller] change scan error:", e);
+    }
+  }
 
-    let totalProcessed = 0;
+  /**
+   * Re-hash every row at or below the watermark and compare with the ledger.
+   * Changed rows are re-pushed (the server upserts by id); rows with no
+   * ledger entry — synced before the ledger existed — are recorded as the
+   * baseline; ledger entries without a row are propagated as deletions.
+   * Parked rows are left to the unpark pass.
+   */
+  private async scanChanges(kind: SyncItemKind): Promise<void> {
+    if (!this.db) return;
+    const maxId = this.lastIds[kind];
+    if (maxId === 0) return;
 
-    // Batch loop: process SYNC_BATCH_SIZE rows at a time to prevent OOM
-    while (true) {
-      const rows = this.db
-        .query(
-          `
-        SELECT o.id, o.type, o.title, o.subtitle, o.narrative, o.project, o.text,
-               o.facts, o.concepts, o.files_read, o.files_modified,
-               o.created_at, o.created_at_epoch, o.memory_session_id,
-               o.prompt_number, o.discovery_tokens, s.id as sdk_session_id
-        FROM observations o
-        LEFT JOIN sdk_sessions s ON o.memory_session_id = s.memory_session_id
-        WHERE o.id > $lastObsId
-        ORDER BY o.id ASC
-        LIMIT $batchSize
-      `,
-        )
-        .all({
-          $lastObsId: this.lastObsId,
-          $batchSize: SYNC_BATCH_SIZE,
-        }) as ObservationRow[];
+    const known = this.ledger.hashes(kind, maxId);
+    const parked = new Set([...this.park.ids(kind), ...this.hold.ids(kind)]);
+    let afterId = 0;
 
+    while (true) {
+      const rows = this.readRows(kind, afterId, maxId, SYNC_BATCH_SIZE);
       if (rows.length === 0) break;
 
-      const observations = rows.map((row) => ({
-        id: row.id,
-        sdk_session_id: row.sdk_session_id || 1,
-        type: row.type,
-        title: row.title,
-        subtitle: row.subtitle,
-        narrative: row.narrative,
-        project: row.project,
-        text: row.text,
-        facts: row.facts || "[]",
-        concepts: row.concepts || "[]",
-        files_read: row.files_read || "[]",
-        files_modified: row.files_modified || "[]",
-        created_at: row.created_at,
-        created_at_epoch: row.created_at_epoch || Math.floor(Date.now() / 1000),
-        prompt_number: row.prompt_number || 0,
-        discovery_tokens: row.discovery_tokens || 0,
-      }));
-
-      const result = await remoteSync.syncBatch(observations);
-      this.syncedCount += result.synced;
-      this.failedCount += result.failed;
-      totalProcessed += rows.length;
+      const baseline: LedgerEntry[] = [];
+      const changed: LocalRow[] = [];
+      for (const row of rows) {
+        // Filtered, parked and held rows were never synced — keep them out of the ledger
+        if (this.filter.match(row) !== null || parked.has(row.id)) {
+          known.delete(row.id);
+          continue;
+        }
+        const hash = hashRow(row);
+        const previous = known.get(row.id);
+        known.delete(row.id);
+        if (previous === undefined) {
+          baseline.push({ id: row.id, hash });
+        } else if (previous !== hash) {
+          changed.push(row);
+        }
+      }
+      this.ledger.record(kind, baseline);
+
+      if (changed.length > 0) {
+        const result = await this.pushRows(kind, changed);
+        if (result.deferred) return; // paused — the next scan finds them again
+        // Failed re-pushes sit in the pending queue, so record the new hash either way
+        this.ledger.record(kind, toLedgerEntries(changed));
+        this.updatedCount += changed.length;
+        this.log(`[SyncPoller] Re-pushed ${changed.length} edited ${kind}(s)`);
+      }
+
+      afterId = rows[rows.length - 1].id;
+      if (rows.length < SYNC_BATCH_SIZE) break;
+    }
+
+    await this.propagateDeletions(kind, [...known.keys()]);
+  }
+
+  /**
+   * Archive locally deleted observations on the server and drop them from
+   * the ledger. Failed archives stay in the ledger and are retried on the
+   * next scan. Other kinds have no server-side status, so their deletions
+   * are only logged.
+   */
+  private async propagateDeletions(
+    kind: SyncItemKind,
+    ids: number[],
+  ): Promise<void> {
+    if (ids.length === 0) return;
+
+    if (ids.length > MAX_DELETIONS_PER_SCAN) {
+      this.log(
+        `[SyncPoller] ${ids.length} synced ${kind}(s) missing from claude-mem.db — too many to treat as deletions (database replaced?), not propagating`,
+      );
+      return;
+    }
 
-      // Advance watermark only past successfully synced items
-      if (result.synced > 0) {
-        const advanceTo = Math.min(result.synced, rows.length);
-        this.lastObsId = rows[advanceTo - 1].id;
-        saveWatermark(this.lastObsId, this.lastSumId);
+    if (kind !== "observation") {
+      this.ledger.remove(kind, ids);
+      this.log(
+        `[SyncPoller] ${ids.length} deleted ${kind}(s) not propagated — the server has no ${kind} status`,
+      );
+      return;
+    }
+
+    const archived: number[] = [];
+    for (const id of ids) {
+      const result = await this.remote.archiveObservation(id);
+      if (result.deferred) break; // paused — retried on the next scan
+      if (result.success) {
+        archived.push(id);
+      } else {
+        this.log(
+          `[SyncPoller] Failed to archive deleted observation #${id}: ${result.error}`,
+        );
       }
+    }
+    this.ledger.remove(kind, archived);
+    this.deletedCount += archived.length;
+    if (archived.length > 0) {
+      this.log(
+        `[SyncPoller] Archived ${archived.length} observation(s) deleted from claude-mem.db`,
+      );
+    }
+  }
 
-      // Stop batching if sync had failures or batch was not full
-      if (result.failed > 0 || rows.length < SYNC_BATCH_SIZE) break;
+  /**
+   * Re-check parked rows when new sessions appeared or synced, or the
+   * throttle window has elapsed. Self-contained error handling — never throws.
+   */
+  private async maybeUnpark(sessionsAdvanced: boolean): Promise<void> {
+    const now = Date.now();
+    if (!sessionsAdvanced && now - this.lastUnpark < UNPARK_INTERVAL) return;
+    this.lastUnpark = now;
+    try {
+      for (const kind of SYNC_KINDS) {
+        if (this.remote.supports(kind)) await this.unpark(kind);
+      }
+    } catch (e) {
+      this.log("[SyncPoller] unpark error:", e);
     }
+  }
 
-    return totalProcessed;
+  /**
+   * Push parked rows whose session has synced and drop rows that were
+   * deleted or are now excluded by `syncProjects`. Failed pushes sit in the
+   * pending queue, so pushed rows leave the park either way.
+   */
+  private async unpark(kind: SyncItemKind): Promise<void> {
+    if (!this.db) return;
+    const ids = this.park.ids(kind);
+    if (ids.length === 0) return;
+
+    const rows = readLocalRowsById(this.db, kind, ids);
+    const found = new Set(rows.map((row) => row.id));
+    const dropped = ids.filter((id) => !found.has(id));
+    const lastSessionId = this.sessionCursor();
+    const ready: LocalRow[] = [];
+    for (const row of rows) {
+      if (this.filter.match(row) !== null) {
+        dropped.push(row.id);
+      } else if (sessionReady(kind, row, lastSessionId)) {
+        ready.push(row);
+      }
+    }
+    this.park.remove(kind, dropped);
+
+    if (this.holding(kind) && ready.length > 0) {
+      this.holdRows(ready);
+      this.park.remove(
+        kind,
+        ready.map((row) => row.id),
+      );
+      return;
+    }
+
+    const batchSize = this.remote.getBatchSize();
+    for (let i = 0; i < ready.length; i += batchSize) {
+      const batch = ready.slice(i, i + batchSize);
+      const result = await this.pushRows(kind, batch);
+      // Keep parked for a newer server, or until a pause ends
+      if (!this.remote.supports(kind) || result.deferred) return;
+      this.synced[kind] += result.synced;
+      this.failed[kind] += result.failed;
+      this.ledger.record(kind, toLedgerEntries(batch));
+      this.park.remove(
+        kind,
+        batch.map((row) => row.id),
+      );
+    }
+    if (ready.length > 0) {
+      this.log(
+        `[SyncPoller] Unparked ${ready.length} ${kind}(s) whose session appeared`,
+      );
+    }
+  }
+
+  private readRows(
+    kind: SyncItemKind,
+    afterId: number,
+    maxId: number,
+    limit: number,
+  ): LocalRow[] {
+    return this.db ? readLocalRows(this.db, kind, afterId, maxId, limit) : [];
+  }
+
+  private async pushRows(
+    kind: SyncItemKind,
+    rows: LocalRow[],
+  ): Promise<BatchResult> {
+    if (rows.length === 0) {
+      return { synced: 0, failed: 0, syncedIds: [], queuedIds: [] };
+    }
+    const result = await pushLocalRows(kind, rows, this.remote);
+    if (kind === "observation") this.quotaSpent += result.synced;
+    return result;
+  }
+
+  /**
+   * Observations left to push while quota priority sync is on, else null.
+   * Counts pushes since the cached quota was fetched against it.
+   */
+  private priorityBudget(): number | null {
+    const quota = getQuota();
+    if (quota !== this.quotaSeen) {
+      this.quotaSeen = quota;
+      this.quotaSpent = 0;
+    }
+    return priorityBudget(quota, this.quotaSpent, this.priorityThreshold);
   }
 
-  private async checkNewSummaries(): Promise<number> {
+  /** Whether new rows of this kind go to the quota hold instead of pushing */
+  private holding(kind: SyncItemKind): boolean {
+    return kind === "observation" && this.priorityBudget() !== null;
+  }
+
+  private holdRows(rows: LocalRow[]): void {
+    this.hold.hold(
+      "observation",
+      rows.map((row) => ({
+        id: row.id,
+        score: scoreObservation(row as ObservationRow),
+      })),
+    );
+    this.log(
+      `[SyncPoller] Holding ${rows.length} observation(s) for priority sync near the quota`,
+    );
+  }
+
+  /**
+   * Push held observations best-first — within the remaining quota while
+   * priority sync is on, all of them once the quota frees up. The quota is
+   * re-fetched on a slow cadence while rows are held, to notice a reset or
+   * upgrade. Rows deleted or now filtered are dropped.
+   */
+  private async releaseHeld(): Promise<void> {
+    const kind: SyncItemKind = "observation";
+    if (!this.db || this.hold.size(kind) === 0) return;
+
+    const now = Date.now();
+    if (now - this.lastQuotaRefresh >= QUOTA_RECHECK_MS) {
+      this.lastQuotaRefresh = now;
+      await fetchAndCacheTier();
+    }
+
+    let allowance = this.priorityBudget() ?? Number.POSITIVE_INFINITY;
+    let released = 0;
+    while (allowance > 0) {
+      const ids = this.hold.top(
+        kind,
+        Math.min(allowance, this.remote.getBatchSize()),
+      );
+      if (ids.length === 0) break;
+
+      const rows = readLocalRowsById(this.db, kind, ids).filter(
+        (row) => this.filter.match(row) === null,
+      );
+      const result = await this.pushRows(kind, rows);
+      if (result.deferred) break; // paused — stay held
+      this.synced[kind] += result.synced;
+      this.failed[kind] += result.failed;
+      this.ledger.record(kind, toLedgerEntries(rows));
+      // Failed pushes sit in the pending queue, so every row leaves the hold
+      this.hold.remove(kind, ids);
+      released += rows.length;
+      allowance -= ids.length;
+    }
+    if (released > 0) {
+      this.log(
+        `[SyncPoller] Pushed ${released} held observation(s), highest priority first (${this.hold.size(kind)} still held)`,
+      );
+    }
+  }
+
+  /**
+   * Session watermark rows must be at or below to be pushed, or undefined
+   * when the server does not take sessions (then any joined session will do).
+   */
+  private sessionCursor(): number | undefined {
+    return this.remote.supports("session") ? this.lastIds.session : undefined;
+  }
+
+  /**
+   * Push rows above the watermark in adaptively sized batches (prevents OOM
+   * and timeouts) and record their content hashes as the watermark advances
+   * past them. Rows whose session is unknown are parked instead of pushed.
+   */
+  private async checkNewRows(kind: SyncItemKind): Promise<number> {
     if (!this.db) return 0;
 
     let totalProcessed = 0;
 
     while (true) {
-      const rows = this.db
-        .query(
-          `
-        SELECT s.id, s.memory_session_id, s.project, s.request, s.investigated,
-               s.learned, s.completed, s.next_steps, s.files_read, s.files_edited,
-               s.notes, s.prompt_number, s.created_at, s.created_at_epoch,
-               s.discovery_tokens, ss.id as sdk_session_id
-        FROM session_summaries s
-        LEFT JOIN sdk_sessions ss ON s.memory_session_id = ss.memory_session_id
-        WHERE s.id > $lastSumId
-        ORDER BY s.id ASC
-        LIMIT $batchSize
-      `,
-        )
-        .all({
-          $lastSumId: this.lastSumId,
-          $batchSize: SYNC_BATCH_SIZE,
-        }) as SummaryRow[];
+      const afterId = this.lastIds[kind];
+      const batchSize = this.remote.getBatchSize();
+      const rows = this.readRows(
+        kind,
+        afterId,
+        Number.MAX_SAFE_INTEGER,
+        batchSize,
+      );
 
       if (rows.length === 0) break;
 
-      const summaries = rows.map((row) => ({
-        id: row.id,
-        sdk_session_id: row.sdk_session_id || 1,
-        memory_session_id: row.memory_session_id,
-        project: row.project,
-        request: row.request,
-        investigated: row.investigated,
-        learned: row.learned,
-        completed: row.completed,
-        next_steps: row.next_steps,
-        files_read: row.files_read || "[]",
-        files_edited: row.files_edited || "[]",
-        notes: row.notes,
-        prompt_number: row.prompt_number || 0,
-        created_at: row.created_at,
-        created_at_epoch: row.created_at_epoch || Math.floor(Date.now() / 1000),
-        discovery_tokens: row.discovery_tokens || 0,
-      }));
-
-      const result = await remoteSync.syncSummaries(summaries);
-      this.syncedCount += result.synced;
-      this.failedCount += result.failed;
+      const blockedBy = new Map<number, string>();
+      const orphans = new Set<number>();
+      const lastSessionId = this.sessionCursor();
+      for (const row of rows) {
+        const rule = this.filter.match(row);
+        if (rule !== null) {
+          blockedBy.set(row.id, rule);
+        } else if (!sessionReady(kind, row, lastSessionId)) {
+          orphans.add(row.id);
+        }
+      }
+      const kept = rows.filter(
+        (row) => !blockedBy.has(row.id) && !orphans.has(row.id),
+      );
+
+      // Near the quota, kept observations are held and pushed best-first
+      const holding = this.holding(kind);
+      if (holding && kept.length > 0) this.holdRows(kept);
+      const toPush = holding ? [] : kept;
+
+      const result = await this.pushRows(kind, toPush);
+      this.synced[kind] += result.synced;
+      this.failed[kind] += result.failed;
       totalProcessed += rows.length;
 
-      if (result.synced > 0) {
-        const advanceTo = Math.min(result.synced, rows.length);
-        this.lastSumId = rows[advanceTo - 1].id;
-        saveWatermark(this.lastObsId, this.lastSumId);
+      // Advance watermark past synced, queued, filtered, parked and held
+      // rows, up to the first pushed row that was neither synced nor queued
+      // (deferred by a pause) — skipped rows never stall it, and queued ones
+      // are retried from the queue.
+      const syncedIds = new Set(result.syncedIds);
+      const queuedIds = new Set(result.queuedIds);
+      const synced = toPush.filter((row) => syncedIds.has(row.id));
+      const firstUnsynced =
+        toPush.find((row) => !syncedIds.has(row.id) && !queuedIds.has(row.id))
+          ?.id ?? Number.MAX_SAFE_INTEGER;
+      const passed = rows.filter((row) => row.id < firstUnsynced);
+      if (passed.length > 0) {
+        const parked = passed.filter((row) => orphans.has(row.id));
+        this.park.park(
+          kind,
+          parked.map((row) => row.id),
+        );
+        if (parked.length > 0) {
+          this.log(
+            `[SyncPoller] Parked ${parked.length} ${kind}(s) until their session syncs`,
+          );
+        }
+        this.lastIds[kind] = passed[passed.length - 1].id;
+        this.saveWatermark();
+        this.ledger.record(kind, toLedgerEntries(synced));
+        for (const row of passed) {
+          const rule = blockedBy.get(row.id);
+          if (rule !== undefined) {
+            this.filteredByRule[rule] = (this.filteredByRule[rule] ?? 0) + 1;
+          }
+        }
       }
 
-      if (result.failed > 0 || rows.length < SYNC_BATCH_SIZE) break;
+      // Stop batching if sync had failures or batch was not full
+      if (result.failed > 0 || result.deferred || rows.length < batchSize) {
+        break;
+      }
     }
 
     return totalProcessed;
   }
-
-  /**
-   * Reset watermark to sync from a specific ID.
-   * Use for backfilling observations that were created before plugin install.
-   */
-  backfillFrom(startId: number): void {
-    this.lastObsId = startId;
-    this.lastSumId = 0;
-    saveWatermark(startId, 0);
-    this.log(`[SyncPoller] Backfill started from obs=${startId}`);
-  }
 }
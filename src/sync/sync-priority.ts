@@ -0,0 +1,83 @@
+/**
+ * Sync Priority
+ *
+ * Quota-aware ordering for observations. Once the account's remaining
+ * observation quota falls to a threshold, the sync poller stops pushing in
+ * ID order: new observations are held (quota-hold.ts) and pushed best-first
+ * within what is left, so the last of the quota goes to decisions and
+ * bugfixes rather than to whatever came next. Held rows are released once
+ * the quota frees up (reset or upgrade).
+ *
+ * Score = type weight + narrative length + concept count, each capped.
+ */
+
+import type { AccountQuota } from "../mcp/api-client";
+import type { ObservationRow } from "./local-rows";
+
+/** claude-mem observation types, most valuable first */
+const TYPE_WEIGHTS: Record<string, number> = {
+  decision: 40,
+  bugfix: 40,
+  feature: 30,
+  refactor: 20,
+  change: 20,
+  discovery: 10,
+};
+const DEFAULT_TYPE_WEIGHT = 10;
+const NARRATIVE_CHARS_PER_POINT = 100;
+const MAX_NARRATIVE_POINTS = 20;
+const POINTS_PER_CONCEPT = 5;
+const MAX_CONCEPT_POINTS = 20;
+
+/** Default threshold: priority mode once 10% of the limit is left */
+const DEFAULT_THRESHOLD_RATIO = 0.1;
+
+function countConcepts(concepts: string | null): number {
+  if (!concepts) return 0;
+  try {
+    const parsed: unknown = JSON.parse(concepts);
+    if (Array.isArray(parsed)) return parsed.length;
+  } catch {
+    /* not JSON — fall back to a comma list */
+  }
+  return concepts.split(",").filter((c) => c.trim() !== "").length;
+}
+
+/**
+ * Value of an observation for quota-aware sync; higher pushes first.
+ */
+export function scoreObservation(
+  row: Pick<ObservationRow, "type" | "narrative" | "concepts">,
+): number {
+  const type = TYPE_WEIGHTS[row.type ?? ""] ?? DEFAULT_TYPE_WEIGHT;
+  const narrative = Math.min(
+    MAX_NARRATIVE_POINTS,
+    Math.floor((row.narrative?.length ?? 0) / NARRATIVE_CHARS_PER_POINT),
+  );
+  const concepts = Math.min(
+    MAX_CONCEPT_POINTS,
+    countConcepts(row.concepts) * POINTS_PER_CONCEPT,
+  );
+  return type + narrative + concepts;
+}
+
+/**
+ * Observations left to push while priority mode is on, or null when the
+ * remaining quota is above the threshold (or there is no limit).
+ *
+ * @param spent Observations pushed since `quota` was fetched
+ * @param threshold Remaining quota that starts priority mode; defaults to
+ *   10% of the limit
+ */
+export function priorityBudget(
+  quota: AccountQuota | null,
+  spent: number,
+  threshold?: number,
+): number | null {
+  const limit = quota?.observations.limit;
+  if (!quota || !limit) return null;
+  const used = quota.observations.used ?? 0;
+  const remaining = Math.max(0, limit - used - spent);
+  const cutoff = threshold ?? Math.ceil(limit * DEFAULT_THRESHOLD_RATIO);
+  return remaining <= cutoff ? remaining : null;
+}
@@ -0,0 +1,178 @@
+/**
+ * Sync State Store
+ *
+ * The sync client's local bookkeeping — pending queue and dead letters,
+ * change ledger, orphan park and quota hold — lives in one SQLite file,
+ * ~/.memforge/sync-state.db, one table (or two) per store. Each store opens
+ * its own handle on the file at its first read or write, so importing a
+ * store has no file side effects; WAL mode lets those handles, and several
+ * MCP server processes, share it.
+ *
+ * Rows are keyed by sync target as well as (kind, id): the same local row
+ * is queued, ledgered, parked or held separately for each (db, server,
+ * account) it syncs to, matching the per-target watermark. The stores with
+ * a single table build on TargetStore.
+ */
+
+import { existsSync, mkdirSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { Database } from "bun:sqlite";
+import type { SyncItemKind } from "./pending-queue";
+
+export const SYNC_STATE_PATH = join(homedir(), ".memforge", "sync-state.db");
+
+export interface SyncStoreOptions {
+  /** SQLite file path. Default: in-memory (tests); the singletons use SYNC_STATE_PATH. */
+  path?: string;
+  /** Sync target the rows belong to (a watermark targetKey). Default: "" */
+  target?: string;
+}
+
+/**
+ * Open a store's database and create its tables. Falls back to in-memory
+ * storage if the file cannot be opened.
+ *
+ * @param owner - Log tag of the store, e.g. "PendingQueue"
+ * @param tables - CREATE TABLE IF NOT EXISTS statements
+ */
+export function openSyncStore(
+  path: string,
+  owner: string,
+  tables: string[],
+): Database {
+  let db: Database;
+  try {
+    if (path !== ":memory:") {
+      const dir = dirname(path);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    }
+    db = new Database(path, { create: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(
+      `[${owner}] Cannot open ${path} (${message}) — falling back to in-memory storage\n`,
+    );
+    db = new Database(":memory:");
+  }
+
+  db.run("PRAGMA journal_mode = WAL");
+  db.run("PRAGMA busy_timeout = 5000");
+  for (const table of tables) db.run(table);
+  return db;
+}
+
+/**
+ * Close a store's database handle, ignoring errors.
+ */
+export function closeSyncStore(db: Database | null): void {
+  if (!db) return;
+  try {
+    db.close();
+  } catch {
+    /* ignore close errors */
+  }
+}
+
+/**
+ * Base of a store whose rows live in one table keyed by (target, kind, id):
+ * opens the file on first use and keeps the current sync target. Each
+ * store adds its own columns and queries.
+ */
+export abstract class TargetStore {
+  private db: Database | null = null;
+  private path: string;
+  private owner: string;
+  private table: string;
+  private schema: string;
+  protected target: string;
+
+  /**
+   * @param owner - Log tag of the store, e.g. "OrphanPark"
+   * @param table - Name of the store's table
+   * @param schema - Its CREATE TABLE IF NOT EXISTS statement
+   */
+  constructor(
+    owner: string,
+    table: string,
+    schema: string,
+    options: SyncStoreOptions = {},
+  ) {
+    this.owner = owner;
+    this.table = table;
+    this.schema = schema;
+    this.path = options.path ?? ":memory:";
+    this.target = options.target ?? "";
+  }
+
+  /**
+   * Switch to another sync target's rows.
+   */
+  setTarget(target: string): void {
+    this.target = target;
+  }
+
+  /** Open the file and create the table on first use */
+  protected open(): Database {
+    this.db ??= openSyncStore(this.path, this.owner, [this.schema]);
+    return this.db;
+  }
+
+  /**
+   * Delete rows of one kind by ID.
+   */
+  remove(kind: SyncItemKind, ids: number[]): void {
+    if (ids.length === 0) return;
+    const db = this.open();
+    const remove = db.prepare(
+      `DELETE FROM ${this.table} WHERE target = ? AND kind = ? AND id = ?`,
+    );
+    db.transaction(() => {
+      for (const id of ids) {
+        remove.run(this.target, kind, id);
+      }
+    })();
+  }
+
+  /**
+   * Drop every row, optionally of one kind only.
+   */
+  clear(kind?: SyncItemKind): void {
+    const db = this.open();
+    if (kind === undefined) {
+      db.run(`DELETE FROM ${this.table} WHERE target = ?`, [this.target]);
+    } else {
+      db.run(`DELETE FROM ${this.table} WHERE target = ? AND kind = ?`, [
+        this.target,
+        kind,
+      ]);
+    }
+  }
+
+  /**
+   * Get the number of rows, optionally of one kind only.
+   */
+  size(kind?: SyncItemKind): number {
+    const db = this.open();
+    const row = (
+      kind === undefined
+        ? db
+            .query(`SELECT COUNT(*) as c FROM ${this.table} WHERE target = ?`)
+            .get(this.target)
+        : db
+            .query(
+              `SELECT COUNT(*) as c FROM ${this.table} WHERE target = ? AND kind = ?`,
+            )
+            .get(this.target, kind)
+    ) as { c: number } | null;
+    return row?.c ?? 0;
+  }
+
+  /**
+   * Close the underlying database handle.
+   */
+  close(): void {
+    closeSyncStore(this.db);
+    this.db = null;
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Sync Watermark Store
+ *
+ * Persists SyncPoller's cursor (last synced ID per kind) in
+ * ~/.memforge/sync-watermarks.json:
+ *
+ * - Atomic: written to a temp file, fsynced, then renamed into place; the
+ *   previous good file is kept as `.bak` and used if the main one is bad
+ * - Versioned and checksummed: a torn or hand-edited file is detected
+ *   instead of silently parsed as "start from 0"
+ * - Per target: one cursor per (claude-mem.db path, server URL, account),
+ *   so switching servers or API keys starts a clean backfill without
+ *   clobbering the old cursor
+ *
+ * The v1 file (~/.memforge/.sync-watermark.json, one global cursor) is
+ * migrated to the current target on first load.
+ */
+
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  writeSync,
+} from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { createHash } from "crypto";
+import type { DbIdentity } from "./db-identity";
+
+export const WATERMARK_PATH = join(
+  homedir(),
+  ".memforge",
+  "sync-watermarks.json",
+);
+export const LEGACY_WATERMARK_PATH = join(
+  homedir(),
+  ".memforge",
+  ".sync-watermark.json",
+);
+export const WATERMARK_VERSION = 2;
+
+/** What a cursor belongs to */
+export interface WatermarkTarget {
+  dbPath: string;
+  serverUrl: string;
+  apiKey: string;
+}
+
+export interface WatermarkCursor {
+  lastObservationId: number;
+  lastSummaryId: number;
+  /** Absent in files written before sessions and prompts were synced */
+  lastSessionId?: number;
+  lastPromptId?: number;
+  /** File the IDs belong to — a different file means the DB was reset */
+  dbIdentity?: DbIdentity | null;
+}
+
+/** One stored cursor. The API key is kept only as a short hash. */
+export interface WatermarkEntry extends WatermarkCursor {
+  dbPath: string;
+  serverUrl: string;
+  account: string;
+  updatedAt: string;
+}
+
+export interface WatermarkFile {
+  version: number;
+  targets: Record<string, WatermarkEntry>;
+  /** sha256 of JSON.stringify(targets) */
+  checksum: string;
+}
+
+export type WatermarkReadResult =
+  | { kind: "missing" }
+  | { kind: "ok"; file: WatermarkFile }
+  | { kind: "error"; message: string };
+
+export interface WatermarkStoreOptions {
+  path?: string;
+  legacyPath?: string;
+  logger?: (...args: unknown[]) => void;
+}
+
+/** Short, non-reversible account identifier derived from the API key */
+export function accountId(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex").slice(0, 12);
+}
+
+/** Key of a target in the watermark file */
+export function targetKey(target: WatermarkTarget): string {
+  const serverUrl = target.serverUrl.replace(/\/+$/, "");
+  return `${target.dbPath}|${serverUrl}|${accountId(target.apiKey)}`;
+}
+
+function checksum(targets: Record<string, WatermarkEntry>): string {
+  return createHash("sha256").update(JSON.stringify(targets)).digest("hex");
+}
+
+/**
+ * Read and verify a v2 watermark file (version + checksum).
+ */
+export function readWatermarkFile(path: string): WatermarkReadResult {
+  if (!existsSync(path)) return { kind: "missing" };
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as WatermarkFile;
+    if (parsed.version !== WATERMARK_VERSION) {
+      return {
+        kind: "error",
+        message: `unsupported watermark version ${parsed.version}`,
+      };
+    }
+    if (!parsed.targets || checksum(parsed.targets) !== parsed.checksum) {
+      return { kind: "error", message: "watermark checksum mismatch" };
+    }
+    return { kind: "ok", file: parsed };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { kind: "error", message };
+  }
+}
+
+/**
+ * Per-target, crash-safe watermark persistence.
+ */
+export class WatermarkStore {
+  private path: string;
+  private legacyPath: string;
+  private log: (...args: unknown[]) => void;
+
+  constructor(options: WatermarkStoreOptions = {}) {
+    this.path = options.path ?? WATERMARK_PATH;
+    this.legacyPath = options.legacyPath ?? LEGACY_WATERMARK_PATH;
+    this.log = options.logger ?? console.error;
+  }
+
+  /**
+   * Load the cursor for a target. Returns null when this target has never
+   * synced (fresh backfill). A damaged file falls back to `.bak`.
+   */
+  load(target: WatermarkTarget): WatermarkCursor | null {
+    const result = this.readTargets();
+    if (result === "missing") return this.migrateLegacy(target);
+    if (result === null) return null;
+
+    const entry = result[targetKey(target)];
+    if (!entry) return null;
+    return {
+      lastObservationId: entry.lastObservationId,
+      lastSummaryId: entry.lastSummaryId,
+      lastSessionId: entry.lastSessionId ?? 0,
+      lastPromptId: entry.lastPromptId ?? 0,
+      dbIdentity: entry.dbIdentity ?? null,
+    };
+  }
+
+  /**
+   * Save the cursor for a target, keeping every other target's cursor.
+   */
+  save(target: WatermarkTarget, cursor: WatermarkCursor): void {
+    const current = this.readTargets();
+    const targets =
+      current === "missing" || current === null ? {} : { ...current };
+
+    targets[targetKey(target)] = {
+      dbPath: target.dbPath,
+      serverUrl: target.serverUrl.replace(/\/+$/, ""),
+      account: accountId(target.apiKey),
+      lastObservationId: cursor.lastObservationId,
+      lastSummaryId: cursor.lastSummaryId,
+      lastSessionId: cursor.lastSessionId ?? 0,
+      lastPromptId: cursor.lastPromptId ?? 0,
+      dbIdentity: cursor.dbIdentity ?? null,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const file: WatermarkFile = {
+      version: WATERMARK_VERSION,
+      targets,
+      checksum: checksum(targets),
+    };
+    this.writeAtomic(JSON.stringify(file, null, 2));
+  }
+
+  /**
+   * All stored cursors (for diagnostics).
+   */
+  list(): WatermarkEntry[] {
+    const result = this.readTargets();
+    return result === "missing" || result === null ? [] : Object.values(result);
+  }
+
+  /**
+   * Read the targets map from the main file, falling back to `.bak`.
+   * Returns "missing" if neither exists, null if both are unreadable.
+   */
+  private readTargets(): Record<string, WatermarkEntry> | "missing" | null {
+    const main = readWatermarkFile(this.path);
+    if (main.kind === "ok") return main.file.targets;
+
+    const backup = readWatermarkFile(`${this.path}.bak`);
+    if (main.kind === "missing" && backup.kind === "missing") return "missing";
+
+    if (main.kind === "error") {
+      this.log(`[Watermark] ${this.path} unreadable: ${main.message}`);
+    }
+    if (backup.kind === "ok") {
+      this.log("[Watermark] Using backup watermark file");
+      return backup.file.targets;
+    }
+    this.log(
+      "[Watermark] No readable watermark — cursors reset, next sync re-pushes history (server upserts, no duplicates)",
+    );
+    return null;
+  }
+
+  /** Adopt a v1 global cursor for the current target. */
+  private migrateLegacy(target: WatermarkTarget): WatermarkCursor | null {
+    if (!existsSync(this.legacyPath)) return null;
+    try {
+      const legacy = JSON.parse(readFileSync(this.legacyPath, "utf-8")) as {
+        lastObservationId?: number;
+        lastSummaryId?: number;
+      };
+      const cursor: WatermarkCursor = {
+        lastObservationId: legacy.lastObservationId ?? 0,
+        lastSummaryId: legacy.lastSummaryId ?? 0,
+      };
+      this.save(target, cursor);
+      this.log(
+        `[Watermark] Migrated legacy watermark (obs=${cursor.lastObservationId}, sum=${cursor.lastSummaryId})`,
+      );
+      return cursor;
+    } catch {
+      return null;
+    }
+  }
+
+  /** temp file + fsync + rename; the previous file becomes `.bak` */
+  private writeAtomic(content: string): void {
+    const dir = dirname(this.path);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    const fd = openSync(tmp, "w");
+    try {
+      writeSync(fd, content);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    if (existsSync(this.path)) {
+      renameSync(this.path, `${this.path}.bak`);
+    }
+    renameSync(tmp, this.path);
+  }
+}
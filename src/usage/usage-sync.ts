@@ -37,6 +37,11 @@ export async function pushUsage(
   if (!config || !config.syncEnabled) {
     return { pushed: 0, scannedFiles: 0, skipped: 1 };
   }
+  // Export mode sends nothing. Totals are re-sent in full on the first push
+  // after it, so nothing needs to go to the outbox.
+  if (config.syncMode === "export") {
+    return { pushed: 0, scannedFiles: 0, skipped: 1 };
+  }
 
   // Lower bound = today - (sinceDays - 1), UTC, YYYY-MM-DD.
   const since = new Date(Date.now() - (sinceDays - 1) * 86400_000)
@@ -61,14 +66,11 @@ export async function pushUsage(
   }
 
   try {
-    const response = await fetch(`${config.serverUrl}/api/usage/tokens`, {
+    const response = await remoteSync.send({
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-API-Key": config.apiKey,
-      },
-      body: JSON.stringify({ items: rows }),
-      signal: AbortSignal.timeout(USAGE_TIMEOUT_MS),
+      endpoint: "/api/usage/tokens",
+      body: { items: rows },
+      timeoutMs: USAGE_TIMEOUT_MS,
     });
 
     if (!response.ok) {